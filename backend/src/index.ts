@@ -4,6 +4,13 @@ import helmet from 'helmet'
 import dotenv from 'dotenv'
 import { healthRouter } from './routes/health'
 import { apiRouter } from './routes/api'
+import { closeDatabase, initializeDatabase } from './models/database'
+import { resumeCampaigns } from './services/campaignSender'
+import { startScheduler } from './services/scheduler'
+import { startReceiptSync } from './services/receiptSync'
+import { startInboxSync } from './services/inboxSync'
+import { pushSuppressions } from './services/suppressions'
+import { resumeVerification } from './services/contactVerification'
 
 dotenv.config()
 
@@ -13,8 +20,8 @@ const PORT = parseInt(process.env.PORT || '3001', 10)
 // Middleware
 app.use(helmet())
 app.use(cors())
-app.use(express.json())
-app.use(express.urlencoded({ extended: true }))
+app.use(express.json({ limit: '10mb' }))
+app.use(express.urlencoded({ extended: true, limit: '10mb' }))
 
 // Routes
 app.use('/health', healthRouter)
@@ -40,8 +47,29 @@ app.use('*', (req, res) => {
   res.status(404).json({ error: 'Route not found' })
 })
 
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`Backend server running on port ${PORT}`)
-  console.log(`Health check: http://localhost:${PORT}/health`)
-  console.log(`API routes: http://localhost:${PORT}/api`)
+initializeDatabase()
+  .then(() => {
+    // Resume first so the scheduler sees a resumed campaign as the active one
+    resumeCampaigns()
+      .catch(error => console.error('Failed to resume campaigns:', error))
+      .then(startScheduler)
+    startReceiptSync()
+    startInboxSync()
+    pushSuppressions()
+    resumeVerification().catch(error => console.error('Failed to resume WhatsApp number check:', error))
+    app.listen(PORT, '0.0.0.0', () => {
+      console.log(`Backend server running on port ${PORT}`)
+      console.log(`Health check: http://localhost:${PORT}/health`)
+      console.log(`API routes: http://localhost:${PORT}/api`)
+    })
+  })
+  .catch((error) => {
+    console.error('Failed to initialize database:', error)
+    process.exit(1)
+  })
+
+// Graceful shutdown
+process.on('SIGINT', () => {
+  console.log('Shutting down gracefully...')
+  closeDatabase().finally(() => process.exit(0))
 })
@@ -0,0 +1,30 @@
+import { RequestHandler } from 'express'
+import multer from 'multer'
+
+// whatsapp-server validates type and per-type size; this only caps what we buffer in memory
+export const MAX_ATTACHMENT_SIZE = 16 * 1024 * 1024
+
+const ALLOWED_PREFIXES = ['image/', 'audio/', 'video/', 'application/pdf']
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE }
+})
+
+// Accepts an optional "attachment" file field, answering upload errors as JSON
+export const optionalAttachment: RequestHandler = (req, res, next) => {
+  upload.single('attachment')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Attachment exceeds ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB` })
+      }
+      return res.status(400).json({ error: err.message })
+    }
+    if (err) return next(err)
+
+    if (req.file && !ALLOWED_PREFIXES.some(prefix => req.file!.mimetype.startsWith(prefix))) {
+      return res.status(400).json({ error: `Unsupported attachment type ${req.file.mimetype}` })
+    }
+    next()
+  })
+}
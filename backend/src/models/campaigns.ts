@@ -0,0 +1,215 @@
+import { all, get, run } from './database'
+import { Campaign, CampaignAudience, CampaignStatus, CampaignVariant, NewCampaign, VariantStats, WinnerTest } from './types'
+import { DEFAULT_THROTTLE } from '../services/throttle'
+
+// Counters are derived from the messages table so they stay accurate mid-send
+const CAMPAIGN_SELECT = `
+  SELECT c.id, c.name, c.message, c.status, c.created_at,
+         c.media_id, c.media_filename, c.media_mimetype, c.throttle, c.senders, c.audience, c.job_id, c.scheduled_at,
+         c.variants, c.winner_test, c.winner_variant, c.test_ends_at, c.test_job_id,
+         COUNT(m.id) as total_messages,
+         COUNT(CASE WHEN m.status = 'sent' THEN 1 END) as sent_count,
+         COUNT(CASE WHEN m.status = 'failed' THEN 1 END) as failed_count,
+         COUNT(CASE WHEN m.receipt_status IN ('delivered', 'read', 'played') THEN 1 END) as delivered_count,
+         COUNT(CASE WHEN m.receipt_status IN ('read', 'played') THEN 1 END) as read_count
+  FROM campaigns c
+  LEFT JOIN messages m ON c.id = m.campaign_id
+`
+
+type CampaignRow = Omit<Campaign, 'throttle' | 'senders' | 'audience' | 'variants' | 'winner_test'> & {
+  throttle: string | null
+  senders: string | null
+  audience: string | null
+  variants: string | null
+  winner_test: string | null
+}
+
+// Sent messages counted as replied to once the contact answered the campaign
+const REPLIED = `m.status = 'sent' AND EXISTS (
+  SELECT 1 FROM inbox_messages i
+  WHERE i.campaign_id = m.campaign_id AND i.phone_number = m.phone_number AND i.direction = 'inbound'
+)`
+
+// Campaigns created before throttling existed use the default pacing
+function toCampaign(row: CampaignRow): Campaign {
+  let throttle = DEFAULT_THROTTLE
+  try {
+    throttle = row.throttle ? { ...DEFAULT_THROTTLE, ...JSON.parse(row.throttle) } : DEFAULT_THROTTLE
+  } catch (error) {
+    console.error(`Ignoring malformed throttle settings on campaign ${row.id}`)
+  }
+  let senders: string[] | null = null
+  try {
+    senders = row.senders ? JSON.parse(row.senders) : null
+  } catch (error) {
+    console.error(`Ignoring malformed senders on campaign ${row.id}`)
+  }
+  let audience: CampaignAudience | null = null
+  try {
+    audience = row.audience ? JSON.parse(row.audience) : null
+  } catch (error) {
+    console.error(`Ignoring malformed audience on campaign ${row.id}`)
+  }
+  let variants: CampaignVariant[] | null = null
+  let winnerTest: WinnerTest | null = null
+  try {
+    variants = row.variants ? JSON.parse(row.variants) : null
+    winnerTest = row.winner_test ? JSON.parse(row.winner_test) : null
+  } catch (error) {
+    console.error(`Ignoring malformed variants on campaign ${row.id}`)
+  }
+  return { ...row, throttle, senders, audience, variants, winner_test: winnerTest }
+}
+
+export async function listCampaigns(): Promise<Campaign[]> {
+  const rows = await all<CampaignRow>(`${CAMPAIGN_SELECT} GROUP BY c.id ORDER BY c.created_at DESC`)
+  return rows.map(toCampaign)
+}
+
+export async function listCampaignsByStatus(status: CampaignStatus): Promise<Campaign[]> {
+  const rows = await all<CampaignRow>(`${CAMPAIGN_SELECT} WHERE c.status = ? GROUP BY c.id ORDER BY c.id`, [status])
+  return rows.map(toCampaign)
+}
+
+// Scheduled campaigns whose time has come, earliest first
+export async function listDueCampaigns(now: Date): Promise<Campaign[]> {
+  const rows = await all<CampaignRow>(
+    `${CAMPAIGN_SELECT} WHERE c.status = 'scheduled' AND c.scheduled_at <= ? GROUP BY c.id ORDER BY c.scheduled_at, c.id`,
+    [now.toISOString()]
+  )
+  return rows.map(toCampaign)
+}
+
+// Campaigns whose variant test is over, so their winner can go to the rest of the audience
+export async function listDueTests(now: Date): Promise<Campaign[]> {
+  const rows = await all<CampaignRow>(
+    `${CAMPAIGN_SELECT} WHERE c.status = 'testing' AND c.test_ends_at <= ? GROUP BY c.id ORDER BY c.test_ends_at, c.id`,
+    [now.toISOString()]
+  )
+  return rows.map(toCampaign)
+}
+
+export async function getCampaign(id: number): Promise<Campaign | undefined> {
+  const row = await get<CampaignRow>(`${CAMPAIGN_SELECT} WHERE c.id = ? GROUP BY c.id`, [id])
+  return row && toCampaign(row)
+}
+
+export async function countCampaigns(): Promise<number> {
+  const row = await get<{ count: number }>('SELECT COUNT(*) as count FROM campaigns')
+  return row?.count || 0
+}
+
+export async function createCampaign(campaign: NewCampaign): Promise<Campaign> {
+  const result = await run(
+    `INSERT INTO campaigns
+       (name, message, status, media_id, media_filename, media_mimetype, throttle, senders, audience, scheduled_at, variants, winner_test)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      campaign.name,
+      campaign.message,
+      campaign.scheduledAt ? 'scheduled' : 'draft',
+      campaign.media?.id || null,
+      campaign.media?.filename || null,
+      campaign.media?.mimetype || null,
+      JSON.stringify(campaign.throttle || DEFAULT_THROTTLE),
+      campaign.senders ? JSON.stringify(campaign.senders) : null,
+      campaign.audience ? JSON.stringify(campaign.audience) : null,
+      campaign.scheduledAt || null,
+      campaign.variants ? JSON.stringify(campaign.variants) : null,
+      campaign.variants && campaign.winnerTest ? JSON.stringify(campaign.winnerTest) : null
+    ]
+  )
+  return (await getCampaign(result.lastID))!
+}
+
+export async function updateCampaignStatus(id: number, status: CampaignStatus): Promise<void> {
+  await run('UPDATE campaigns SET status = ? WHERE id = ?', [status, id])
+}
+
+// Moves a campaign to the status only from one of the given ones, so two requests racing to start
+// it cannot both get through. Returns false when the campaign is missing or no longer in those states.
+export async function claimCampaignStatus(id: number, from: CampaignStatus[], status: CampaignStatus): Promise<boolean> {
+  const result = await run(
+    `UPDATE campaigns SET status = ? WHERE id = ? AND status IN (${from.map(() => '?').join(', ')})`,
+    [status, id, ...from]
+  )
+  return result.changes > 0
+}
+
+// Schedules (or reschedules) a draft or scheduled campaign, or returns it to draft when scheduledAt is null.
+// Returns false when the campaign is missing or already past those states.
+export async function scheduleCampaign(id: number, scheduledAt: string | null): Promise<boolean> {
+  const result = await run(
+    `UPDATE campaigns SET status = ?, scheduled_at = ? WHERE id = ? AND status IN ('draft', 'scheduled')`,
+    [scheduledAt ? 'scheduled' : 'draft', scheduledAt, id]
+  )
+  return result.changes > 0
+}
+
+export async function setCampaignJob(id: number, jobId: string): Promise<void> {
+  await run('UPDATE campaigns SET job_id = ? WHERE id = ?', [jobId, id])
+}
+
+// Records the job sending a campaign's variants under test, before any winner is picked
+export async function setTestJob(id: number, jobId: string): Promise<void> {
+  await run('UPDATE campaigns SET test_job_id = ? WHERE id = ?', [jobId, id])
+}
+
+// Sets when the test phase of a campaign that just sent its variants ends
+export async function setTestEnd(id: number, testEndsAt: string): Promise<void> {
+  await run('UPDATE campaigns SET test_ends_at = ? WHERE id = ?', [testEndsAt, id])
+}
+
+export async function setCampaignWinner(id: number, variant: number): Promise<void> {
+  await run('UPDATE campaigns SET winner_variant = ? WHERE id = ?', [variant, id])
+}
+
+// Counters per variant of a campaign with variants, including those that have sent nothing yet;
+// given a job, only the messages queued on it count
+export async function listVariantStats(campaign: Campaign, jobId: string | null = null): Promise<VariantStats[]> {
+  const rows = await all<Omit<VariantStats, 'label'>>(
+    `SELECT m.variant,
+            COUNT(m.id) as total_messages,
+            COUNT(CASE WHEN m.status = 'sent' THEN 1 END) as sent_count,
+            COUNT(CASE WHEN m.status = 'failed' THEN 1 END) as failed_count,
+            COUNT(CASE WHEN m.receipt_status IN ('delivered', 'read', 'played') THEN 1 END) as delivered_count,
+            COUNT(CASE WHEN m.receipt_status IN ('read', 'played') THEN 1 END) as read_count,
+            COUNT(CASE WHEN ${REPLIED} THEN 1 END) as replied_count
+     FROM messages m
+     WHERE m.campaign_id = ? AND m.variant IS NOT NULL AND (? IS NULL OR m.job_id = ?)
+     GROUP BY m.variant`,
+    [campaign.id, jobId, jobId]
+  )
+  return (campaign.variants || []).map((variant, index) => ({
+    variant: index,
+    total_messages: 0,
+    sent_count: 0,
+    failed_count: 0,
+    delivered_count: 0,
+    read_count: 0,
+    replied_count: 0,
+    ...rows.find(row => row.variant === index),
+    label: variant.label
+  }))
+}
+
+// Snapshots the derived counters onto the campaign row once a send finishes
+export async function finalizeCampaign(id: number, status: CampaignStatus): Promise<void> {
+  await run(
+    `UPDATE campaigns SET
+       status = ?,
+       total_messages = (SELECT COUNT(*) FROM messages WHERE campaign_id = ?),
+       sent_count = (SELECT COUNT(*) FROM messages WHERE campaign_id = ? AND status = 'sent'),
+       failed_count = (SELECT COUNT(*) FROM messages WHERE campaign_id = ? AND status = 'failed')
+     WHERE id = ?`,
+    [status, id, id, id, id]
+  )
+}
+
+// Deletes the campaign and its messages; returns false when it did not exist
+export async function deleteCampaign(id: number): Promise<boolean> {
+  const result = await run('DELETE FROM campaigns WHERE id = ?', [id])
+  if (result.changes === 0) return false
+  await run('DELETE FROM messages WHERE campaign_id = ?', [id])
+  return true
+}
@@ -0,0 +1,238 @@
+import { all, get, run } from './database'
+import { AttributeValue, Contact, ContactFilter, ExportedContact, NewContact } from './types'
+import { tagCondition } from './tags'
+import { whatsAppNumberSql } from '../services/phone'
+
+type ContactRow = Omit<Contact, 'attributes' | 'whatsapp_registered'> & {
+  attributes: string | null
+  whatsapp_registered: number | null
+}
+
+function toContact(row: ContactRow): Contact {
+  let attributes: Record<string, AttributeValue> = {}
+  try {
+    attributes = row.attributes ? JSON.parse(row.attributes) : {}
+  } catch (error) {
+    console.error(`Ignoring malformed attributes on contact ${row.id}`)
+  }
+  return {
+    ...row,
+    attributes,
+    whatsapp_registered: row.whatsapp_registered === null ? null : row.whatsapp_registered === 1
+  }
+}
+
+// Contacts whose number is not on the suppression list, i.e. those a campaign may message
+const SENDABLE = `NOT EXISTS (SELECT 1 FROM suppressions s WHERE s.phone_number = ${whatsAppNumberSql('contacts.phone_number')})`
+
+// Numbers not known to lack WhatsApp; unchecked ones are tried at send time
+const REGISTERED = '(contacts.whatsapp_registered IS NULL OR contacts.whatsapp_registered = 1)'
+
+// The campaign of the contact's most recent campaign message
+const LAST_CAMPAIGN_ID = '(SELECT m.campaign_id FROM messages m WHERE m.contact_id = contacts.id ORDER BY m.id DESC LIMIT 1)'
+
+// A WHERE condition on the contacts table, for narrowing queries to an audience
+export interface ContactCondition {
+  sql: string
+  params: unknown[]
+}
+
+function filterSql(filter: ContactFilter): { where: string, params: unknown[] } {
+  const conditions: string[] = []
+  const params: unknown[] = []
+  if (filter.optedOut !== undefined) {
+    conditions.push(filter.optedOut ? `NOT ${SENDABLE}` : SENDABLE)
+  }
+  if (filter.lastCampaignId !== undefined) {
+    conditions.push(`${LAST_CAMPAIGN_ID} = ?`)
+    params.push(filter.lastCampaignId)
+  }
+  if (filter.tagId !== undefined) {
+    const tag = tagCondition(filter.tagId)
+    conditions.push(tag.sql)
+    params.push(...tag.params)
+  }
+  if (filter.search) {
+    conditions.push("(contacts.name LIKE ? ESCAPE '\\' OR contacts.phone_number LIKE ? ESCAPE '\\' OR contacts.email LIKE ? ESCAPE '\\')")
+    const pattern = `%${filter.search.replace(/[\\%_]/g, match => `\\${match}`)}%`
+    params.push(pattern, pattern, pattern)
+  }
+  if (filter.createdFrom) {
+    conditions.push('DATE(contacts.created_at) >= ?')
+    params.push(filter.createdFrom)
+  }
+  if (filter.createdTo) {
+    conditions.push('DATE(contacts.created_at) <= ?')
+    params.push(filter.createdTo)
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params }
+}
+
+export async function listContacts(filter: ContactFilter = {}, limit = 1000): Promise<Contact[]> {
+  const { where, params } = filterSql(filter)
+  const rows = await all<ContactRow>(`SELECT * FROM contacts ${where} ORDER BY created_at DESC LIMIT ?`, [...params, limit])
+  return rows.map(toContact)
+}
+
+export async function listAllContacts(): Promise<Contact[]> {
+  const rows = await all<ContactRow>('SELECT * FROM contacts ORDER BY id')
+  return rows.map(toContact)
+}
+
+// Every contact the filter matches, oldest first, with what an export reports beyond the contact itself
+export async function listExportContacts(filter: ContactFilter): Promise<ExportedContact[]> {
+  const { where, params } = filterSql(filter)
+  const rows = await all<ContactRow & { opted_out: number, last_campaign: string | null }>(
+    `SELECT contacts.*, NOT ${SENDABLE} AS opted_out,
+       (SELECT c.name FROM campaigns c WHERE c.id = ${LAST_CAMPAIGN_ID}) AS last_campaign
+     FROM contacts ${where} ORDER BY contacts.id`,
+    params
+  )
+  return rows.map(row => ({ ...toContact(row), opted_out: row.opted_out === 1, last_campaign: row.last_campaign }))
+}
+
+// Contacts a campaign sends to: not opted out nor found unregistered on WhatsApp, optionally narrowed
+// to an audience's condition
+export async function listSendableContacts(audience?: ContactCondition): Promise<Contact[]> {
+  const rows = await all<ContactRow>(
+    `SELECT * FROM contacts WHERE ${SENDABLE} AND ${REGISTERED}${audience ? ` AND (${audience.sql})` : ''} ORDER BY id`,
+    audience?.params
+  )
+  return rows.map(toContact)
+}
+
+// Contacts the campaign has not created a message for, optionally narrowed to an audience's condition
+export function notMessagedCondition(campaignId: number, audience?: ContactCondition): ContactCondition {
+  return {
+    sql: `NOT EXISTS (SELECT 1 FROM messages m WHERE m.campaign_id = ? AND m.contact_id = contacts.id)${audience ? ` AND (${audience.sql})` : ''}`,
+    params: [campaignId, ...(audience?.params || [])]
+  }
+}
+
+export async function countSendableContacts(audience?: ContactCondition): Promise<number> {
+  const row = await get<{ count: number }>(
+    `SELECT COUNT(*) as count FROM contacts WHERE ${SENDABLE} AND ${REGISTERED}${audience ? ` AND (${audience.sql})` : ''}`,
+    audience?.params
+  )
+  return row?.count || 0
+}
+
+export async function getContact(id: number): Promise<Contact | undefined> {
+  const row = await get<ContactRow>('SELECT * FROM contacts WHERE id = ?', [id])
+  return row && toContact(row)
+}
+
+export async function countContacts(): Promise<number> {
+  const row = await get<{ count: number }>('SELECT COUNT(*) as count FROM contacts')
+  return row?.count || 0
+}
+
+// Finds the contact behind a WhatsApp number (international digits, as WhatsApp reports it);
+// numbers are stored in E.164, though one that clashed when legacy numbers were converted may
+// lack the + or, for North American numbers, the country code
+export async function findContactByWhatsAppNumber(digits: string): Promise<Contact | undefined> {
+  const candidates = [digits, `+${digits}`]
+  if (digits.length === 11 && digits.startsWith('1')) candidates.push(digits.slice(1))
+  const row = await get<ContactRow>(
+    `SELECT * FROM contacts WHERE phone_number IN (${candidates.map(() => '?').join(', ')}) ORDER BY id LIMIT 1`,
+    candidates
+  )
+  return row && toContact(row)
+}
+
+function contactValues(contact: NewContact): unknown[] {
+  return [
+    contact.phone_number,
+    contact.phone_original || null,
+    contact.phone_country || null,
+    contact.phone_type || null,
+    contact.name || '',
+    contact.email || null,
+    JSON.stringify(contact.attributes || {})
+  ]
+}
+
+const CONTACT_COLUMNS = 'phone_number, phone_original, phone_country, phone_type, name, email, attributes'
+
+// Inserts the contact, or updates the one with its phone number in place (keeping its id, lists and
+// messages). An update only overwrites what was given: a blank name or email keeps the stored one,
+// and the attributes are merged into the stored ones.
+export async function saveContact(contact: NewContact): Promise<Contact> {
+  await run(
+    `INSERT INTO contacts (${CONTACT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(phone_number) DO UPDATE SET phone_original = excluded.phone_original,
+       phone_country = excluded.phone_country, phone_type = excluded.phone_type,
+       name = COALESCE(NULLIF(excluded.name, ''), contacts.name),
+       email = COALESCE(excluded.email, contacts.email),
+       attributes = json_patch(contacts.attributes, excluded.attributes)`,
+    contactValues(contact)
+  )
+  return (await getContactByPhone(contact.phone_number))!
+}
+
+export async function getContactByPhone(phoneNumber: string): Promise<Contact | undefined> {
+  const row = await get<ContactRow>('SELECT * FROM contacts WHERE phone_number = ?', [phoneNumber])
+  return row && toContact(row)
+}
+
+// A new phone number clears the registration check, which was of the old one
+export async function updateContact(id: number, contact: NewContact): Promise<Contact | undefined> {
+  await run(
+    `UPDATE contacts SET phone_number = ?, phone_original = ?, phone_country = ?, phone_type = ?, name = ?,
+       email = ?, attributes = ?,
+       whatsapp_registered = CASE WHEN phone_number = ? THEN whatsapp_registered END,
+       whatsapp_checked_at = CASE WHEN phone_number = ? THEN whatsapp_checked_at END
+     WHERE id = ?`,
+    [...contactValues(contact), contact.phone_number, contact.phone_number, id]
+  )
+  return getContact(id)
+}
+
+// Campaign messages keep their record of the contact; inbox messages stay under the number
+export async function deleteContact(id: number): Promise<boolean> {
+  await run('DELETE FROM contact_tags WHERE contact_id = ?', [id])
+  await run('UPDATE inbox_messages SET contact_id = NULL WHERE contact_id = ?', [id])
+  const result = await run('DELETE FROM contacts WHERE id = ?', [id])
+  return result.changes > 0
+}
+
+// Inserts the contact unless the phone number already exists; returns false when skipped
+export async function insertContactIfNew(contact: NewContact): Promise<boolean> {
+  const result = await run(
+    `INSERT OR IGNORE INTO contacts (${CONTACT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    contactValues(contact)
+  )
+  return result.changes > 0
+}
+
+// Numbers to check for WhatsApp: those never checked, or last checked before `checkedBefore`
+// (every contact when it is null)
+export async function listNumbersToVerify(checkedBefore: string | null): Promise<string[]> {
+  const rows = await all<{ phone_number: string }>(
+    checkedBefore
+      ? 'SELECT phone_number FROM contacts WHERE whatsapp_checked_at IS NULL OR whatsapp_checked_at < ? ORDER BY id'
+      : 'SELECT phone_number FROM contacts ORDER BY id',
+    checkedBefore ? [checkedBefore] : []
+  )
+  return rows.map(row => row.phone_number)
+}
+
+export async function recordWhatsAppCheck(phoneNumber: string, registered: boolean, checkedAt: string): Promise<void> {
+  await run(
+    'UPDATE contacts SET whatsapp_registered = ?, whatsapp_checked_at = ? WHERE phone_number = ?',
+    [Number(registered), checkedAt, phoneNumber]
+  )
+}
+
+// Contacts with a value stored under the attribute key
+export async function listContactsWithAttribute(key: string): Promise<Contact[]> {
+  const rows = await all<ContactRow>(
+    'SELECT * FROM contacts WHERE json_extract(attributes, ?) IS NOT NULL ORDER BY id',
+    [`$."${key}"`]
+  )
+  return rows.map(toContact)
+}
+
+export async function updateContactAttributes(id: number, attributes: Record<string, AttributeValue>): Promise<void> {
+  await run('UPDATE contacts SET attributes = ? WHERE id = ?', [JSON.stringify(attributes), id])
+}
@@ -0,0 +1,51 @@
+import { all, get, run } from './database'
+import { CustomField, CustomFieldType } from './types'
+
+type CustomFieldRow = Omit<CustomField, 'options'> & { options: string }
+
+function toCustomField(row: CustomFieldRow): CustomField {
+  let options: string[] = []
+  try {
+    options = JSON.parse(row.options)
+  } catch (error) {
+    console.error(`Ignoring malformed options on custom field ${row.id}`)
+  }
+  return { ...row, options }
+}
+
+export async function listCustomFields(): Promise<CustomField[]> {
+  const rows = await all<CustomFieldRow>('SELECT * FROM custom_fields ORDER BY label COLLATE NOCASE')
+  return rows.map(toCustomField)
+}
+
+export async function getCustomField(id: number): Promise<CustomField | undefined> {
+  const row = await get<CustomFieldRow>('SELECT * FROM custom_fields WHERE id = ?', [id])
+  return row && toCustomField(row)
+}
+
+export async function getCustomFieldByKey(key: string): Promise<CustomField | undefined> {
+  const row = await get<CustomFieldRow>('SELECT * FROM custom_fields WHERE key = ?', [key])
+  return row && toCustomField(row)
+}
+
+export async function createCustomField(key: string, label: string, type: CustomFieldType, options: string[]): Promise<CustomField> {
+  const result = await run(
+    'INSERT INTO custom_fields (key, label, type, options) VALUES (?, ?, ?, ?)',
+    [key, label, type, JSON.stringify(options)]
+  )
+  return (await getCustomField(result.lastID))!
+}
+
+// The key stays as created, so templates and segments using it keep working
+export async function updateCustomField(id: number, label: string, type: CustomFieldType, options: string[]): Promise<CustomField | undefined> {
+  await run(
+    'UPDATE custom_fields SET label = ?, type = ?, options = ? WHERE id = ?',
+    [label, type, JSON.stringify(options), id]
+  )
+  return getCustomField(id)
+}
+
+export async function deleteCustomField(id: number): Promise<boolean> {
+  const result = await run('DELETE FROM custom_fields WHERE id = ?', [id])
+  return result.changes > 0
+}
@@ -0,0 +1,272 @@
+import fs from 'fs'
+import path from 'path'
+import sqlite3 from 'sqlite3'
+
+export interface RunResult {
+  lastID: number
+  changes: number
+}
+
+let db: sqlite3.Database | null = null
+
+// DATABASE_URL follows the docker-compose convention (sqlite:///app/data/database.sqlite)
+function resolveDatabasePath(): string {
+  const url = process.env.DATABASE_URL
+  if (url && url.startsWith('sqlite://')) {
+    return url.slice('sqlite://'.length)
+  }
+  return path.join(process.cwd(), 'data', 'ajsender.sqlite')
+}
+
+function getDb(): sqlite3.Database {
+  if (!db) {
+    throw new Error('Database not initialized')
+  }
+  return db
+}
+
+export function isDatabaseReady(): boolean {
+  return db !== null
+}
+
+export function run(sql: string, params: unknown[] = []): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    getDb().run(sql, params, function (err) {
+      if (err) reject(err)
+      else resolve({ lastID: this.lastID, changes: this.changes })
+    })
+  })
+}
+
+export function get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    getDb().get(sql, params, (err, row) => {
+      if (err) reject(err)
+      else resolve(row as T | undefined)
+    })
+  })
+}
+
+export function all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    getDb().all(sql, params, (err, rows) => {
+      if (err) reject(err)
+      else resolve((rows || []) as T[])
+    })
+  })
+}
+
+// Schema is kept compatible with the data file written by the legacy server.js
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS contacts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    phone_number TEXT UNIQUE NOT NULL,
+    name TEXT,
+    email TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS campaigns (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    message TEXT NOT NULL,
+    status TEXT DEFAULT 'draft',
+    sent_count INTEGER DEFAULT 0,
+    failed_count INTEGER DEFAULT 0,
+    total_messages INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    campaign_id INTEGER NOT NULL,
+    contact_id INTEGER NOT NULL,
+    phone_number TEXT NOT NULL,
+    message TEXT NOT NULL,
+    status TEXT DEFAULT 'pending',
+    sent_at DATETIME,
+    error_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (campaign_id) REFERENCES campaigns(id),
+    FOREIGN KEY (contact_id) REFERENCES contacts(id)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_messages_campaign ON messages(campaign_id)',
+  'CREATE INDEX IF NOT EXISTS idx_messages_contact ON messages(contact_id)',
+  // inbound_id is the message's position in whatsapp-server's inbound feed
+  `CREATE TABLE IF NOT EXISTS inbox_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    phone_number TEXT NOT NULL,
+    contact_id INTEGER,
+    campaign_id INTEGER,
+    direction TEXT NOT NULL,
+    body TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'chat',
+    sender_name TEXT,
+    wa_message_id TEXT UNIQUE,
+    inbound_id INTEGER,
+    status TEXT,
+    error_message TEXT,
+    read_at TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (contact_id) REFERENCES contacts(id),
+    FOREIGN KEY (campaign_id) REFERENCES campaigns(id)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_inbox_messages_phone ON inbox_messages(phone_number, id)',
+  // Numbers that must not be messaged, keyed by the number whatsapp-server dials (see toWhatsAppNumber)
+  `CREATE TABLE IF NOT EXISTS suppressions (
+    phone_number TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    note TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS contact_tags (
+    contact_id INTEGER NOT NULL,
+    tag_id INTEGER NOT NULL,
+    PRIMARY KEY (contact_id, tag_id),
+    FOREIGN KEY (contact_id) REFERENCES contacts(id),
+    FOREIGN KEY (tag_id) REFERENCES tags(id)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_contact_tags_tag ON contact_tags(tag_id)',
+  `CREATE TABLE IF NOT EXISTS segments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    rules TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  // options is a JSON array, used by enum fields
+  `CREATE TABLE IF NOT EXISTS custom_fields (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT UNIQUE NOT NULL,
+    label TEXT NOT NULL,
+    type TEXT NOT NULL,
+    options TEXT NOT NULL DEFAULT '[]',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS import_mappings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    columns TEXT NOT NULL,
+    mapping TEXT NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`
+]
+
+// Columns added after the original schema, applied to existing databases on startup
+const COLUMNS: Array<{ table: string, column: string, definition: string }> = [
+  { table: 'contacts', column: 'attributes', definition: "TEXT NOT NULL DEFAULT '{}'" },
+  { table: 'campaigns', column: 'media_id', definition: 'TEXT' },
+  { table: 'campaigns', column: 'media_filename', definition: 'TEXT' },
+  { table: 'campaigns', column: 'media_mimetype', definition: 'TEXT' },
+  { table: 'campaigns', column: 'throttle', definition: 'TEXT' },
+  { table: 'campaigns', column: 'job_id', definition: 'TEXT' },
+  { table: 'campaigns', column: 'scheduled_at', definition: 'TEXT' },
+  // WhatsApp's id for the sent message and the furthest receipt seen for it
+  { table: 'messages', column: 'wa_message_id', definition: 'TEXT' },
+  { table: 'messages', column: 'receipt_status', definition: 'TEXT' },
+  { table: 'messages', column: 'delivered_at', definition: 'TEXT' },
+  { table: 'messages', column: 'read_at', definition: 'TEXT' },
+  // JSON array of the whatsapp-server sessions allowed to send the campaign, or null for all of them
+  { table: 'campaigns', column: 'senders', definition: 'TEXT' },
+  // whatsapp-server session (WhatsApp account) the message was received on or sent from
+  { table: 'inbox_messages', column: 'session_id', definition: 'TEXT' },
+  // The number as entered, its country and libphonenumber type; phone_number holds it in E.164
+  { table: 'contacts', column: 'phone_original', definition: 'TEXT' },
+  { table: 'contacts', column: 'phone_country', definition: 'TEXT' },
+  { table: 'contacts', column: 'phone_type', definition: 'TEXT' },
+  // JSON CampaignAudience (a list or segment), or null to message every contact
+  { table: 'campaigns', column: 'audience', definition: 'TEXT' },
+  // Outcome of the latest WhatsApp registration check (1 or 0), null until the number is checked
+  { table: 'contacts', column: 'whatsapp_registered', definition: 'INTEGER' },
+  { table: 'contacts', column: 'whatsapp_checked_at', definition: 'TEXT' },
+  // JSON CampaignVariant[] and WinnerTest of an A/B tested campaign, with the test's outcome
+  { table: 'campaigns', column: 'variants', definition: 'TEXT' },
+  { table: 'campaigns', column: 'winner_test', definition: 'TEXT' },
+  { table: 'campaigns', column: 'winner_variant', definition: 'INTEGER' },
+  { table: 'campaigns', column: 'test_ends_at', definition: 'TEXT' },
+  // Bulk job that sent the variants under test, kept once job_id moves on to the winner's
+  { table: 'campaigns', column: 'test_job_id', definition: 'TEXT' },
+  // Campaign variant the message was rendered from, and the bulk job it was queued on
+  { table: 'messages', column: 'variant', definition: 'INTEGER' },
+  { table: 'messages', column: 'job_id', definition: 'TEXT' }
+]
+
+// Indexes on columns from COLUMNS, created once those exist
+const INDEXES = [
+  'CREATE INDEX IF NOT EXISTS idx_messages_wa_message ON messages(wa_message_id)'
+]
+
+// Idempotent data rewrites, run after COLUMNS on every startup
+const BACKFILLS = [
+  // Numbers stored before normalization become E.164 the way whatsapp-server dialed them (see
+  // toWhatsAppNumber), unless that number is already stored; the entered form is kept
+  `UPDATE contacts SET phone_original = phone_number,
+     phone_number = '+' || CASE WHEN LENGTH(phone_number) = 10 THEN '1' || phone_number ELSE phone_number END
+   WHERE phone_number NOT LIKE '+%' AND NOT EXISTS (
+     SELECT 1 FROM contacts other WHERE other.phone_number =
+       '+' || CASE WHEN LENGTH(contacts.phone_number) = 10 THEN '1' || contacts.phone_number ELSE contacts.phone_number END
+   )`,
+  // Messages queued before jobs were recorded per message belong to their campaign's only job
+  `UPDATE messages SET job_id = (SELECT job_id FROM campaigns WHERE campaigns.id = messages.campaign_id)
+   WHERE job_id IS NULL`,
+  // Tested campaigns from before the test job was recorded sent their variants on their first job
+  `UPDATE campaigns SET test_job_id = (
+     SELECT job_id FROM messages WHERE messages.campaign_id = campaigns.id AND job_id IS NOT NULL ORDER BY id LIMIT 1
+   )
+   WHERE winner_test IS NOT NULL AND test_job_id IS NULL`
+]
+
+async function ensureColumn(table: string, column: string, definition: string): Promise<void> {
+  const columns = await all<{ name: string }>(`PRAGMA table_info(${table})`)
+  if (!columns.some(c => c.name === column)) {
+    await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  }
+}
+
+export async function initializeDatabase(): Promise<void> {
+  if (db) return
+
+  const dbPath = resolveDatabasePath()
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+
+  db = await new Promise<sqlite3.Database>((resolve, reject) => {
+    const connection = new sqlite3.Database(dbPath, (err) => {
+      if (err) reject(err)
+      else resolve(connection)
+    })
+  })
+
+  for (const statement of SCHEMA) {
+    await run(statement)
+  }
+  for (const { table, column, definition } of COLUMNS) {
+    await ensureColumn(table, column, definition)
+  }
+  for (const statement of INDEXES) {
+    await run(statement)
+  }
+  for (const statement of BACKFILLS) {
+    await run(statement)
+  }
+
+  console.log(`Connected to SQLite database at ${dbPath}`)
+}
+
+export function closeDatabase(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!db) return resolve()
+    db.close((err) => {
+      if (err) reject(err)
+      else {
+        db = null
+        resolve()
+      }
+    })
+  })
+}
@@ -0,0 +1,37 @@
+import { all, get, run } from './database'
+import { ColumnMapping, ImportMapping } from './types'
+
+type ImportMappingRow = Omit<ImportMapping, 'columns' | 'mapping'> & { columns: string, mapping: string }
+
+function toImportMapping(row: ImportMappingRow): ImportMapping {
+  let columns: string[] = []
+  let mapping: ColumnMapping = {}
+  try {
+    columns = JSON.parse(row.columns)
+    mapping = JSON.parse(row.mapping)
+  } catch (error) {
+    console.error(`Ignoring malformed import mapping ${row.id}`)
+  }
+  return { ...row, columns, mapping }
+}
+
+export async function listImportMappings(): Promise<ImportMapping[]> {
+  const rows = await all<ImportMappingRow>('SELECT * FROM import_mappings ORDER BY updated_at DESC, id DESC')
+  return rows.map(toImportMapping)
+}
+
+// Replaces the mapping saved under the same name, keeping its id
+export async function saveImportMapping(name: string, columns: string[], mapping: ColumnMapping): Promise<ImportMapping> {
+  await run(
+    `INSERT INTO import_mappings (name, columns, mapping) VALUES (?, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET columns = excluded.columns, mapping = excluded.mapping, updated_at = CURRENT_TIMESTAMP`,
+    [name, JSON.stringify(columns), JSON.stringify(mapping)]
+  )
+  const saved = await get<ImportMappingRow>('SELECT * FROM import_mappings WHERE name = ?', [name])
+  return toImportMapping(saved!)
+}
+
+export async function deleteImportMapping(id: number): Promise<boolean> {
+  const result = await run('DELETE FROM import_mappings WHERE id = ?', [id])
+  return result.changes > 0
+}
@@ -0,0 +1,177 @@
+import { all, get, run } from './database'
+import { Conversation, ConversationEntry, InboxMessage } from './types'
+
+export interface NewInboundMessage {
+  phone_number: string
+  contact_id: number | null
+  campaign_id: number | null
+  body: string
+  type: string
+  sender_name: string | null
+  wa_message_id: string
+  inbound_id: number
+  session_id: string | null
+  created_at: string
+}
+
+export interface NewOutboundMessage {
+  phone_number: string
+  contact_id: number | null
+  body: string
+  wa_message_id: string | null
+  session_id: string | null
+  status: 'sent' | 'failed'
+  error_message: string | null
+}
+
+// Latest message of each conversation, with the contact's name and the campaign they last replied to
+const CONVERSATION_SELECT = `
+  SELECT m.phone_number, m.contact_id, ct.name as contact_name,
+         m.body as last_body, m.type as last_type, m.direction as last_direction, m.created_at as last_at,
+         (SELECT s.sender_name FROM inbox_messages s
+          WHERE s.phone_number = m.phone_number AND s.sender_name IS NOT NULL
+          ORDER BY s.id DESC LIMIT 1) as sender_name,
+         (SELECT s.session_id FROM inbox_messages s
+          WHERE s.phone_number = m.phone_number AND s.direction = 'inbound' AND s.session_id IS NOT NULL
+          ORDER BY s.id DESC LIMIT 1) as session_id,
+         r.campaign_id, cp.name as campaign_name,
+         (SELECT COUNT(*) FROM inbox_messages u
+          WHERE u.phone_number = m.phone_number AND u.direction = 'inbound' AND u.read_at IS NULL) as unread_count,
+         EXISTS (SELECT 1 FROM suppressions x WHERE x.phone_number = m.phone_number) as opted_out
+  FROM inbox_messages m
+  LEFT JOIN contacts ct ON ct.id = m.contact_id
+  LEFT JOIN inbox_messages r ON r.id = (
+    SELECT MAX(id) FROM inbox_messages
+    WHERE phone_number = m.phone_number AND direction = 'inbound' AND campaign_id IS NOT NULL
+  )
+  LEFT JOIN campaigns cp ON cp.id = r.campaign_id
+  WHERE m.id = (SELECT MAX(id) FROM inbox_messages WHERE phone_number = m.phone_number)
+`
+
+export function listConversations(limit = 200): Promise<Conversation[]> {
+  return all<Conversation>(`${CONVERSATION_SELECT} ORDER BY m.id DESC LIMIT ?`, [limit])
+}
+
+export function getConversation(phoneNumber: string): Promise<Conversation | undefined> {
+  return get<Conversation>(`${CONVERSATION_SELECT} AND m.phone_number = ?`, [phoneNumber])
+}
+
+export async function countUnread(): Promise<number> {
+  const row = await get<{ count: number }>(
+    "SELECT COUNT(*) as count FROM inbox_messages WHERE direction = 'inbound' AND read_at IS NULL"
+  )
+  return row?.count || 0
+}
+
+// The conversation's inbox messages merged with the campaign messages its contact was sent, oldest first.
+// With includeUnsent, campaign messages that are still queued or failed are listed at their creation time.
+export async function listConversationEntries(
+  phoneNumber: string,
+  contactId: number | null,
+  includeUnsent = false
+): Promise<ConversationEntry[]> {
+  const inbox = await all<InboxMessage & { campaign_name: string | null }>(
+    `SELECT i.*, c.name as campaign_name FROM inbox_messages i
+     LEFT JOIN campaigns c ON c.id = i.campaign_id
+     WHERE i.phone_number = ? ORDER BY i.id`,
+    [phoneNumber]
+  )
+  const sent = contactId === null ? [] : await all<{
+    id: number
+    campaign_id: number
+    campaign_name: string | null
+    message: string
+    status: string
+    error_message: string | null
+    sent_at: string
+  }>(
+    `SELECT m.id, m.campaign_id, c.name as campaign_name, m.message, m.status, m.error_message,
+       COALESCE(m.sent_at, strftime('%Y-%m-%dT%H:%M:%SZ', m.created_at)) as sent_at
+     FROM messages m
+     LEFT JOIN campaigns c ON c.id = m.campaign_id
+     WHERE m.contact_id = ?${includeUnsent ? '' : ' AND m.sent_at IS NOT NULL'}`,
+    [contactId]
+  )
+
+  const entries: ConversationEntry[] = [
+    ...inbox.map(message => ({
+      key: `inbox-${message.id}`,
+      direction: message.direction,
+      body: message.body,
+      type: message.type,
+      status: message.status,
+      error_message: message.error_message,
+      campaign_id: message.campaign_id,
+      campaign_name: message.campaign_name,
+      created_at: message.created_at
+    })),
+    ...sent.map(message => ({
+      key: `campaign-${message.id}`,
+      direction: 'outbound' as const,
+      body: message.message,
+      type: 'chat',
+      status: message.status,
+      error_message: message.error_message,
+      campaign_id: message.campaign_id,
+      campaign_name: message.campaign_name,
+      created_at: message.sent_at
+    }))
+  ]
+  return entries.sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+}
+
+export async function markConversationRead(phoneNumber: string): Promise<number> {
+  const result = await run(
+    "UPDATE inbox_messages SET read_at = ? WHERE phone_number = ? AND direction = 'inbound' AND read_at IS NULL",
+    [new Date().toISOString(), phoneNumber]
+  )
+  return result.changes
+}
+
+// Returns the stored message, or undefined when the feed delivered it before
+export async function saveInboundMessage(message: NewInboundMessage): Promise<InboxMessage | undefined> {
+  const result = await run(
+    `INSERT OR IGNORE INTO inbox_messages
+     (phone_number, contact_id, campaign_id, direction, body, type, sender_name, wa_message_id, inbound_id, session_id, created_at)
+     VALUES (?, ?, ?, 'inbound', ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      message.phone_number,
+      message.contact_id,
+      message.campaign_id,
+      message.body,
+      message.type,
+      message.sender_name,
+      message.wa_message_id,
+      message.inbound_id,
+      message.session_id,
+      message.created_at
+    ]
+  )
+  if (result.changes === 0) return undefined
+  return get<InboxMessage>('SELECT * FROM inbox_messages WHERE id = ?', [result.lastID])
+}
+
+export async function saveOutboundMessage(message: NewOutboundMessage): Promise<InboxMessage> {
+  const result = await run(
+    `INSERT INTO inbox_messages
+     (phone_number, contact_id, direction, body, type, wa_message_id, session_id, status, error_message, created_at)
+     VALUES (?, ?, 'outbound', ?, 'chat', ?, ?, ?, ?, ?)`,
+    [
+      message.phone_number,
+      message.contact_id,
+      message.body,
+      message.wa_message_id,
+      message.session_id,
+      message.status,
+      message.error_message,
+      new Date().toISOString()
+    ]
+  )
+  return (await get<InboxMessage>('SELECT * FROM inbox_messages WHERE id = ?', [result.lastID]))!
+}
+
+// Position in whatsapp-server's inbound feed to continue from after a restart
+export async function latestInboundId(): Promise<number> {
+  const row = await get<{ latest: number | null }>('SELECT MAX(inbound_id) as latest FROM inbox_messages')
+  return row?.latest || 0
+}
@@ -0,0 +1,163 @@
+import { all, get, run } from './database'
+import { Message, MessageStatus, ReceiptStatus } from './types'
+
+const RECEIPT_ORDER: ReceiptStatus[] = ['sent', 'delivered', 'read', 'played']
+
+export interface MessageFilter {
+  campaignId?: number
+  status?: MessageStatus
+  limit?: number
+}
+
+export function listMessages(filter: MessageFilter = {}): Promise<Message[]> {
+  const clauses: string[] = []
+  const params: unknown[] = []
+
+  if (filter.campaignId !== undefined) {
+    clauses.push('campaign_id = ?')
+    params.push(filter.campaignId)
+  }
+  if (filter.status) {
+    clauses.push('status = ?')
+    params.push(filter.status)
+  }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+  params.push(filter.limit || 500)
+
+  return all<Message>(`SELECT * FROM messages ${where} ORDER BY created_at DESC, id DESC LIMIT ?`, params)
+}
+
+// Every message a campaign queued on a job in creation order, which is also the order they were queued in
+export function listCampaignMessages(campaignId: number, jobId: string): Promise<Message[]> {
+  return all<Message>('SELECT * FROM messages WHERE campaign_id = ? AND job_id = ? ORDER BY id', [campaignId, jobId])
+}
+
+// Failed messages of a campaign across all of its jobs
+export async function countFailedMessages(campaignId: number): Promise<number> {
+  const row = await get<{ failed: number }>(
+    "SELECT COUNT(*) as failed FROM messages WHERE campaign_id = ? AND status = 'failed'",
+    [campaignId]
+  )
+  return row?.failed || 0
+}
+
+export async function getMessageStats(): Promise<{ total: number, sent: number }> {
+  const row = await get<{ total: number, sent: number }>(
+    `SELECT COUNT(*) as total,
+            COUNT(CASE WHEN status = 'sent' THEN 1 END) as sent
+     FROM messages`
+  )
+  return { total: row?.total || 0, sent: row?.sent || 0 }
+}
+
+export async function createMessage(
+  campaignId: number,
+  contactId: number,
+  phoneNumber: string,
+  message: string,
+  variant: number | null = null
+): Promise<number> {
+  const result = await run(
+    'INSERT INTO messages (campaign_id, contact_id, phone_number, message, status, variant) VALUES (?, ?, ?, ?, ?, ?)',
+    [campaignId, contactId, phoneNumber, message, 'pending', variant]
+  )
+  return result.lastID
+}
+
+// Records the job a campaign's newly created messages were queued on
+export async function assignMessagesToJob(campaignId: number, jobId: string): Promise<void> {
+  await run('UPDATE messages SET job_id = ? WHERE campaign_id = ? AND job_id IS NULL', [jobId, campaignId])
+}
+
+// Marks whatever a cancelled campaign had not sent yet; returns how many messages that was
+export async function cancelPendingMessages(campaignId: number): Promise<number> {
+  const result = await run(
+    "UPDATE messages SET status = 'cancelled' WHERE campaign_id = ? AND status = 'pending'",
+    [campaignId]
+  )
+  return result.changes
+}
+
+// Marks what a campaign that stopped on an error had not sent, which no job is going to send now
+export async function failPendingMessages(campaignId: number, reason: string): Promise<number> {
+  const result = await run(
+    "UPDATE messages SET status = 'failed', error_message = ? WHERE campaign_id = ? AND status = 'pending'",
+    [reason, campaignId]
+  )
+  return result.changes
+}
+
+// Returns the failed messages a campaign queued on a job to pending for another attempt; returns how many there were
+export async function resetFailedMessages(campaignId: number, jobId: string): Promise<number> {
+  const result = await run(
+    "UPDATE messages SET status = 'pending', error_message = NULL WHERE campaign_id = ? AND job_id = ? AND status = 'failed'",
+    [campaignId, jobId]
+  )
+  return result.changes
+}
+
+// A sent message records WhatsApp's id for it and the receipt it had reached by the time it was reported
+export async function updateMessageStatus(
+  id: number,
+  status: MessageStatus,
+  errorMessage?: string,
+  sent: { waMessageId?: string, receipt?: ReceiptStatus } = {}
+): Promise<void> {
+  const now = new Date().toISOString()
+  const receipt = status === 'sent' ? sent.receipt || 'sent' : null
+  const rank = receipt ? RECEIPT_ORDER.indexOf(receipt) : -1
+  await run(
+    `UPDATE messages SET status = ?, sent_at = ?, error_message = ?, wa_message_id = ?,
+     receipt_status = ?, delivered_at = ?, read_at = ? WHERE id = ?`,
+    [
+      status,
+      status === 'sent' ? now : null,
+      errorMessage || null,
+      (status === 'sent' && sent.waMessageId) || null,
+      receipt,
+      rank >= 1 ? now : null,
+      rank >= 2 ? now : null,
+      id
+    ]
+  )
+}
+
+// Moves a message forward to `receipt` (acks may arrive out of order); returns its campaign if it changed
+export async function recordReceipt(waMessageId: string, receipt: ReceiptStatus, at: string): Promise<number | null> {
+  const message = await get<Pick<Message, 'id' | 'campaign_id' | 'receipt_status'>>(
+    'SELECT id, campaign_id, receipt_status FROM messages WHERE wa_message_id = ?',
+    [waMessageId]
+  )
+  const rank = RECEIPT_ORDER.indexOf(receipt)
+  if (!message || RECEIPT_ORDER.indexOf(message.receipt_status || 'sent') >= rank) return null
+
+  await run(
+    `UPDATE messages SET receipt_status = ?, delivered_at = COALESCE(delivered_at, ?),
+     read_at = CASE WHEN ? THEN COALESCE(read_at, ?) ELSE read_at END WHERE id = ?`,
+    [receipt, at, rank >= 2 ? 1 : 0, at, message.id]
+  )
+  return message.campaign_id
+}
+
+// The campaign a reply answers: the quoted message's campaign, else the last one sent to the contact before it
+export async function findRepliedCampaignId(
+  contactId: number | null,
+  quotedWaMessageId: string | null,
+  receivedAt: string
+): Promise<number | null> {
+  if (quotedWaMessageId) {
+    const quoted = await get<{ campaign_id: number }>(
+      'SELECT campaign_id FROM messages WHERE wa_message_id = ?',
+      [quotedWaMessageId]
+    )
+    if (quoted) return quoted.campaign_id
+  }
+  if (contactId === null) return null
+
+  const latest = await get<{ campaign_id: number }>(
+    "SELECT campaign_id FROM messages WHERE contact_id = ? AND status = 'sent' AND sent_at <= ? ORDER BY sent_at DESC LIMIT 1",
+    [contactId, receivedAt]
+  )
+  return latest?.campaign_id ?? null
+}
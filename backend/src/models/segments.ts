@@ -0,0 +1,105 @@
+import { all, get, run } from './database'
+import { ContactCondition } from './contacts'
+import { tagCondition } from './tags'
+import { Segment, SegmentRule } from './types'
+import { whatsAppNumberSql } from '../services/phone'
+
+type SegmentRow = Omit<Segment, 'rules'> & { rules: string }
+
+function toSegment(row: SegmentRow): Segment {
+  let rules: SegmentRule[] = []
+  try {
+    rules = JSON.parse(row.rules)
+  } catch (error) {
+    console.error(`Ignoring malformed rules on segment ${row.id}`)
+  }
+  return { ...row, rules }
+}
+
+export async function listSegments(): Promise<Segment[]> {
+  const rows = await all<SegmentRow>('SELECT * FROM segments ORDER BY name COLLATE NOCASE')
+  return rows.map(toSegment)
+}
+
+export async function getSegment(id: number): Promise<Segment | undefined> {
+  const row = await get<SegmentRow>('SELECT * FROM segments WHERE id = ?', [id])
+  return row && toSegment(row)
+}
+
+export async function getSegmentByName(name: string): Promise<Segment | undefined> {
+  const row = await get<SegmentRow>('SELECT * FROM segments WHERE name = ?', [name])
+  return row && toSegment(row)
+}
+
+export async function createSegment(name: string, rules: SegmentRule[]): Promise<Segment> {
+  const result = await run('INSERT INTO segments (name, rules) VALUES (?, ?)', [name, JSON.stringify(rules)])
+  return (await getSegment(result.lastID))!
+}
+
+export async function updateSegment(id: number, name: string, rules: SegmentRule[]): Promise<Segment | undefined> {
+  await run('UPDATE segments SET name = ?, rules = ? WHERE id = ?', [name, JSON.stringify(rules), id])
+  return getSegment(id)
+}
+
+export async function deleteSegment(id: number): Promise<boolean> {
+  const result = await run('DELETE FROM segments WHERE id = ?', [id])
+  return result.changes > 0
+}
+
+function ruleCondition(rule: SegmentRule): ContactCondition {
+  switch (rule.type) {
+    case 'tag':
+      return tagCondition(rule.tagId, rule.negate)
+    case 'attribute': {
+      const path = `$."${rule.key}"`
+      // Booleans read as true/false, as the values they are compared with are written
+      const text = `CASE json_type(contacts.attributes, ?) WHEN 'true' THEN 'true' WHEN 'false' THEN 'false'
+        ELSE json_extract(contacts.attributes, ?) END`
+      const value = rule.value || ''
+      // Numbers compare as numbers, including ones imported as text before their field was defined;
+      // dates compare as YYYY-MM-DD text
+      const ordered = value !== '' && isFinite(Number(value))
+        ? { sql: 'CAST(json_extract(contacts.attributes, ?) AS REAL)', value: Number(value) }
+        : { sql: 'json_extract(contacts.attributes, ?)', value }
+      switch (rule.operator) {
+        case 'equals':
+          return { sql: `LOWER(${text}) = LOWER(?)`, params: [path, path, value] }
+        case 'not_equals':
+          return { sql: `COALESCE(LOWER(${text}), '') != LOWER(?)`, params: [path, path, value] }
+        case 'contains':
+          return { sql: `INSTR(LOWER(${text}), LOWER(?)) > 0`, params: [path, path, value] }
+        case 'greater_than':
+          return { sql: `json_extract(contacts.attributes, ?) IS NOT NULL AND ${ordered.sql} > ?`, params: [path, path, ordered.value] }
+        case 'less_than':
+          return { sql: `json_extract(contacts.attributes, ?) IS NOT NULL AND ${ordered.sql} < ?`, params: [path, path, ordered.value] }
+        case 'is_set':
+          return { sql: `COALESCE(${text}, '') != ''`, params: [path, path] }
+        case 'is_not_set':
+          return { sql: `COALESCE(${text}, '') = ''`, params: [path, path] }
+      }
+      break
+    }
+    case 'replied':
+      return {
+        sql: `${rule.replied ? '' : 'NOT '}EXISTS (SELECT 1 FROM inbox_messages i
+          WHERE i.direction = 'inbound' AND i.phone_number = ${whatsAppNumberSql('contacts.phone_number')})`,
+        params: []
+      }
+    case 'last_messaged_before':
+      // sent_at is an ISO timestamp, so the date compares as its prefix
+      return {
+        sql: `(SELECT MAX(m.sent_at) FROM messages m WHERE m.contact_id = contacts.id AND m.status = 'sent') < ?`,
+        params: [rule.date]
+      }
+  }
+  throw new Error(`Unknown segment rule ${JSON.stringify(rule)}`)
+}
+
+// Contacts matching every rule; a segment without rules matches everyone
+export function segmentCondition(rules: SegmentRule[]): ContactCondition {
+  const conditions = rules.map(ruleCondition)
+  return {
+    sql: conditions.length > 0 ? conditions.map(condition => `(${condition.sql})`).join(' AND ') : '1 = 1',
+    params: conditions.flatMap(condition => condition.params)
+  }
+}
@@ -0,0 +1,17 @@
+import { get, run } from './database'
+
+// Operator-editable settings, stored as JSON under a key
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const row = await get<{ value: string }>('SELECT value FROM settings WHERE key = ?', [key])
+  if (!row) return fallback
+  try {
+    return JSON.parse(row.value) as T
+  } catch (error) {
+    console.error(`Ignoring malformed setting ${key}`)
+    return fallback
+  }
+}
+
+export async function setSetting(key: string, value: unknown): Promise<void> {
+  await run('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, JSON.stringify(value)])
+}
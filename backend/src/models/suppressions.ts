@@ -0,0 +1,29 @@
+import { all, get, run } from './database'
+import { Suppression, SuppressionSource } from './types'
+
+export function listSuppressions(): Promise<Suppression[]> {
+  return all<Suppression>('SELECT * FROM suppressions ORDER BY created_at DESC, phone_number')
+}
+
+export async function listSuppressedNumbers(): Promise<string[]> {
+  const rows = await all<{ phone_number: string }>('SELECT phone_number FROM suppressions ORDER BY phone_number')
+  return rows.map(row => row.phone_number)
+}
+
+export function getSuppression(phoneNumber: string): Promise<Suppression | undefined> {
+  return get<Suppression>('SELECT * FROM suppressions WHERE phone_number = ?', [phoneNumber])
+}
+
+// Keeps the original entry when the number is already suppressed; returns false in that case
+export async function addSuppression(phoneNumber: string, source: SuppressionSource, note: string | null): Promise<boolean> {
+  const result = await run(
+    'INSERT OR IGNORE INTO suppressions (phone_number, source, note) VALUES (?, ?, ?)',
+    [phoneNumber, source, note]
+  )
+  return result.changes > 0
+}
+
+export async function removeSuppression(phoneNumber: string): Promise<boolean> {
+  const result = await run('DELETE FROM suppressions WHERE phone_number = ?', [phoneNumber])
+  return result.changes > 0
+}
@@ -0,0 +1,93 @@
+import { all, get, run } from './database'
+import { ContactCondition } from './contacts'
+import { Tag } from './types'
+
+const TAG_SELECT = `
+  SELECT t.id, t.name, t.created_at, COUNT(ct.contact_id) as contact_count
+  FROM tags t
+  LEFT JOIN contact_tags ct ON ct.tag_id = t.id
+`
+
+export function listTags(): Promise<Tag[]> {
+  return all<Tag>(`${TAG_SELECT} GROUP BY t.id ORDER BY t.name COLLATE NOCASE`)
+}
+
+export function getTag(id: number): Promise<Tag | undefined> {
+  return get<Tag>(`${TAG_SELECT} WHERE t.id = ? GROUP BY t.id`, [id])
+}
+
+// Names compare without case, so "VIP" finds "vip"
+export function findTagByName(name: string): Promise<Tag | undefined> {
+  return get<Tag>(`${TAG_SELECT} WHERE t.name = ? GROUP BY t.id`, [name])
+}
+
+export async function findOrCreateTag(name: string): Promise<Tag> {
+  await run('INSERT OR IGNORE INTO tags (name) VALUES (?)', [name])
+  return (await findTagByName(name))!
+}
+
+export async function renameTag(id: number, name: string): Promise<boolean> {
+  const result = await run('UPDATE tags SET name = ? WHERE id = ?', [name, id])
+  return result.changes > 0
+}
+
+export async function deleteTag(id: number): Promise<boolean> {
+  await run('DELETE FROM contact_tags WHERE tag_id = ?', [id])
+  const result = await run('DELETE FROM tags WHERE id = ?', [id])
+  return result.changes > 0
+}
+
+// Returns how many of the contacts were not on the list yet; unknown ids are ignored
+export async function addContactsToTag(tagId: number, contactIds: number[]): Promise<number> {
+  let added = 0
+  for (const contactId of contactIds) {
+    const result = await run(
+      'INSERT OR IGNORE INTO contact_tags (contact_id, tag_id) SELECT id, ? FROM contacts WHERE id = ?',
+      [tagId, contactId]
+    )
+    added += result.changes
+  }
+  return added
+}
+
+export async function removeContactsFromTag(tagId: number, contactIds: number[]): Promise<number> {
+  let removed = 0
+  for (const contactId of contactIds) {
+    const result = await run('DELETE FROM contact_tags WHERE tag_id = ? AND contact_id = ?', [tagId, contactId])
+    removed += result.changes
+  }
+  return removed
+}
+
+export function listContactTags(contactId: number): Promise<Array<Pick<Tag, 'id' | 'name'>>> {
+  return all<Pick<Tag, 'id' | 'name'>>(
+    `SELECT t.id, t.name FROM tags t JOIN contact_tags ct ON ct.tag_id = t.id
+     WHERE ct.contact_id = ? ORDER BY t.name COLLATE NOCASE`,
+    [contactId]
+  )
+}
+
+// Puts the contact on exactly these lists; unknown list ids are ignored
+export async function setContactTags(contactId: number, tagIds: number[]): Promise<void> {
+  await run('DELETE FROM contact_tags WHERE contact_id = ?', [contactId])
+  for (const tagId of tagIds) {
+    await run('INSERT OR IGNORE INTO contact_tags (contact_id, tag_id) SELECT ?, id FROM tags WHERE id = ?', [contactId, tagId])
+  }
+}
+
+// For imports, where contacts are known by their (E.164) number
+export async function addNumbersToTag(tagId: number, phoneNumbers: string[]): Promise<void> {
+  for (const phoneNumber of phoneNumbers) {
+    await run(
+      'INSERT OR IGNORE INTO contact_tags (contact_id, tag_id) SELECT id, ? FROM contacts WHERE phone_number = ?',
+      [tagId, phoneNumber]
+    )
+  }
+}
+
+export function tagCondition(tagId: number, negate = false): ContactCondition {
+  return {
+    sql: `${negate ? 'NOT ' : ''}EXISTS (SELECT 1 FROM contact_tags ct WHERE ct.contact_id = contacts.id AND ct.tag_id = ?)`,
+    params: [tagId]
+  }
+}
@@ -0,0 +1,457 @@
+// Shared request/response models for the backend API
+
+export interface Contact {
+  id: number
+  // E.164, e.g. +447911123456
+  phone_number: string
+  // The number as entered or imported
+  phone_original: string | null
+  // ISO country the number belongs to, and libphonenumber's type for it (e.g. 'mobile')
+  phone_country: string | null
+  phone_type: string | null
+  name: string
+  email: string | null
+  // Custom fields and extra imported columns, keyed by normalized name and usable as template variables
+  attributes: Record<string, AttributeValue>
+  // Whether the number has WhatsApp as of whatsapp_checked_at; null until it is checked.
+  // Campaigns skip numbers found unregistered.
+  whatsapp_registered: boolean | null
+  whatsapp_checked_at: string | null
+  created_at: string
+}
+
+export interface NewContact {
+  phone_number: string
+  phone_original?: string | null
+  phone_country?: string | null
+  phone_type?: string | null
+  name?: string
+  email?: string | null
+  attributes?: Record<string, AttributeValue>
+}
+
+// A custom attribute's value: typed as its CustomField says (dates as YYYY-MM-DD, enums as one of
+// the options); attributes without a field are kept as imported text
+export type AttributeValue = string | number | boolean
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'enum'
+
+// A workspace-defined contact field, stored in contact attributes under its key
+export interface CustomField {
+  id: number
+  // Normalized like template variable names, e.g. signup_date for {{signup_date}}
+  key: string
+  label: string
+  type: CustomFieldType
+  // The allowed values of an enum field; empty for other types
+  options: string[]
+  created_at: string
+}
+
+// Narrows the contact list and exports; every condition given must hold
+export interface ContactFilter {
+  // true: only numbers on the suppression list; false: only numbers campaigns may message
+  optedOut?: boolean
+  // Contacts whose most recent campaign message came from this campaign
+  lastCampaignId?: number
+  // Contacts on this list
+  tagId?: number
+  // Text found in the name, phone number or email
+  search?: string
+  // Inclusive, YYYY-MM-DD in UTC
+  createdFrom?: string
+  createdTo?: string
+}
+
+// A contact as exported, with its opt-out status and the campaign that last messaged it
+export interface ExportedContact extends Contact {
+  opted_out: boolean
+  last_campaign: string | null
+}
+
+export type ContactExportFormat = 'csv' | 'xlsx' | 'vcf'
+
+// A contact with the lists it is on, its opt-out and every message exchanged with its number
+export interface ContactDetail extends Contact {
+  tags: Array<Pick<Tag, 'id' | 'name'>>
+  suppression: Suppression | null
+  timeline: ConversationEntry[]
+}
+
+// A named list of contacts; a contact can be on any number of them
+export interface Tag {
+  id: number
+  name: string
+  contact_count: number
+  created_at: string
+}
+
+// greater_than and less_than compare numbers, or YYYY-MM-DD dates
+export type AttributeOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_set'
+  | 'is_not_set'
+
+// One condition of a segment. 'replied' looks at inbound messages from the contact's number;
+// 'last_messaged_before' matches contacts last sent a campaign message before the date (YYYY-MM-DD),
+// not those never messaged.
+export type SegmentRule =
+  | { type: 'tag', tagId: number, negate?: boolean }
+  | { type: 'attribute', key: string, operator: AttributeOperator, value?: string }
+  | { type: 'replied', replied: boolean }
+  | { type: 'last_messaged_before', date: string }
+
+// Contacts matching every rule, evaluated whenever the segment is used
+export interface Segment {
+  id: number
+  name: string
+  rules: SegmentRule[]
+  created_at: string
+}
+
+// Who a campaign messages; null on a campaign means every contact
+export type CampaignAudience = { type: 'tag', id: number } | { type: 'segment', id: number }
+
+export type CampaignStatus =
+  | 'draft'
+  | 'scheduled'
+  | 'sending'
+  | 'paused'
+  | 'testing'
+  | 'cancelled'
+  | 'completed'
+  | 'completed_with_errors'
+  | 'failed'
+
+// One message of an A/B test; weight is its percentage of the recipients the variants go to
+export interface CampaignVariant {
+  label: string
+  message: string
+  weight: number
+}
+
+// Rate a test compares variants on, out of the messages each variant sent
+export type WinnerMetric = 'delivered' | 'read' | 'replied'
+
+// Test phase before the winning variant goes out: the variants are split over testPercent of the
+// audience, and waitHours after those are sent the variant with the best metric goes to the rest
+export interface WinnerTest {
+  testPercent: number
+  waitHours: number
+  metric: WinnerMetric
+}
+
+// How one variant has done so far; the winner's counts include the messages sent after its test,
+// unless they are limited to the test job
+export interface VariantStats {
+  variant: number
+  label: string
+  total_messages: number
+  sent_count: number
+  failed_count: number
+  delivered_count: number
+  read_count: number
+  // Sent messages whose contact replied to the campaign
+  replied_count: number
+}
+
+export interface AllowedHours {
+  // Local hour of day, 0-23; start is inclusive and end exclusive, and start > end wraps past midnight
+  start: number
+  end: number
+}
+
+// Per-campaign pacing, enforced by the whatsapp-server queue
+export interface ThrottleSettings {
+  minDelayMs: number
+  maxDelayMs: number
+  hourlyLimit: number | null
+  dailyLimit: number | null
+  allowedHours: AllowedHours | null
+  timezone: string
+}
+
+export interface Campaign {
+  id: number
+  name: string
+  message: string
+  status: CampaignStatus
+  sent_count: number
+  failed_count: number
+  // Sent messages with a delivery receipt, and those of them also read (or played, for voice notes)
+  delivered_count: number
+  read_count: number
+  total_messages: number
+  // Attachment stored in whatsapp-server and sent to every recipient, with the message as caption
+  media_id: string | null
+  media_filename: string | null
+  media_mimetype: string | null
+  throttle: ThrottleSettings
+  // whatsapp-server sessions that share the sending, or null for every connected session
+  senders: string[] | null
+  // The list or segment messaged, or null for every contact; opted-out numbers are always left out
+  audience: CampaignAudience | null
+  // ISO timestamp the scheduler launches the campaign at; kept for the record once it has started
+  scheduled_at: string | null
+  // whatsapp-server bulk job carrying the campaign's messages once sending starts; after a test
+  // phase, the job sending the winner
+  job_id: string | null
+  // Two or more messages split over the recipients, or null when everyone gets the message above
+  // (which then holds the first variant's)
+  variants: CampaignVariant[] | null
+  // Test phase the variants go through first, or null to split the whole audience between them
+  winner_test: WinnerTest | null
+  // Index of the variant sent after the test, and when the test phase ends ('testing' status)
+  winner_variant: number | null
+  test_ends_at: string | null
+  // Bulk job that sent the variants under test; job_id is the winner's once that goes out
+  test_job_id: string | null
+  created_at: string
+}
+
+export interface CampaignEstimate {
+  total: number
+  startsAt: string
+  completesAt: string
+  durationMs: number
+}
+
+export interface MediaAttachment {
+  id: string
+  filename: string
+  mimetype: string
+  size: number
+}
+
+export interface NewCampaign {
+  name: string
+  message: string
+  media?: MediaAttachment | null
+  throttle?: ThrottleSettings
+  senders?: string[] | null
+  audience?: CampaignAudience | null
+  scheduledAt?: string | null
+  variants?: CampaignVariant[] | null
+  winnerTest?: WinnerTest | null
+}
+
+// 'cancelled' marks messages left unsent when their campaign was cancelled
+export type MessageStatus = 'pending' | 'sent' | 'failed' | 'cancelled'
+
+// How far a sent message got, from WhatsApp's acks; each state implies the ones before it
+export type ReceiptStatus = 'sent' | 'delivered' | 'read' | 'played'
+
+export interface Message {
+  id: number
+  campaign_id: number
+  contact_id: number
+  phone_number: string
+  message: string
+  status: MessageStatus
+  sent_at: string | null
+  error_message: string | null
+  wa_message_id: string | null
+  receipt_status: ReceiptStatus | null
+  delivered_at: string | null
+  read_at: string | null
+  // Index of the campaign variant the message was rendered from, or null without variants
+  variant: number | null
+  // whatsapp-server bulk job the message was queued on
+  job_id: string | null
+  created_at: string
+}
+
+export interface Metrics {
+  totalContacts: number
+  totalCampaigns: number
+  totalMessages: number
+  sentMessages: number
+}
+
+export interface CampaignProgress {
+  campaignId: number
+  campaignName: string
+  status: CampaignStatus
+  isActive: boolean
+  total: number
+  sent: number
+  failed: number
+  cancelled: number
+  pending: number
+  percentage: number
+}
+
+// A single message moving through the send pipeline; 'sending' is transient and never persisted
+export interface MessageUpdate {
+  campaignId: number
+  messageId: number
+  contactId: number
+  phone_number: string
+  status: MessageStatus | 'sending'
+  error: string | null
+  timestamp: string
+}
+
+export type InboxDirection = 'inbound' | 'outbound'
+
+// A reply received from a contact, or an operator's answer sent from the inbox
+export interface InboxMessage {
+  id: number
+  // WhatsApp number in international digits, which keys the conversation
+  phone_number: string
+  contact_id: number | null
+  // For replies, the campaign whose message the contact was answering
+  campaign_id: number | null
+  direction: InboxDirection
+  body: string
+  // whatsapp-web.js message type, e.g. 'chat', 'image', 'ptt'
+  type: string
+  // The sender's WhatsApp profile name on inbound messages
+  sender_name: string | null
+  wa_message_id: string | null
+  // whatsapp-server session the message was received on or sent from
+  session_id: string | null
+  // Outbound only
+  status: 'sent' | 'failed' | null
+  error_message: string | null
+  // Inbound only: when an operator first opened the conversation after it arrived
+  read_at: string | null
+  created_at: string
+}
+
+export interface Conversation {
+  phone_number: string
+  contact_id: number | null
+  contact_name: string | null
+  sender_name: string | null
+  campaign_id: number | null
+  campaign_name: string | null
+  last_body: string
+  last_type: string
+  last_direction: InboxDirection
+  last_at: string
+  unread_count: number
+  // 1 when the number is on the suppression list
+  opted_out: number
+  // Session the contact last wrote to; replies go out from the same account
+  session_id: string | null
+}
+
+// One line of a conversation thread: inbox messages plus the campaign messages sent to the contact
+export interface ConversationEntry {
+  key: string
+  direction: InboxDirection
+  body: string
+  type: string
+  status: string | null
+  error_message: string | null
+  campaign_id: number | null
+  campaign_name: string | null
+  created_at: string
+}
+
+// 'keyword' entries come from replies matching an opt-out keyword
+export type SuppressionSource = 'keyword' | 'manual' | 'import'
+
+export interface Suppression {
+  phone_number: string
+  source: SuppressionSource
+  // The matched keyword, or the operator's note
+  note: string | null
+  created_at: string
+}
+
+// Campaigns whose delivery or read counts changed in the latest receipt sync
+export interface ReceiptUpdate {
+  campaignIds: number[]
+}
+
+// What an import does with a row whose number is already a contact, or appeared on an earlier row:
+// keep_existing leaves the contact as it is, overwrite replaces its values with the row's non-empty
+// ones, fill_blanks only sets the values it is missing
+export type DuplicateStrategy = 'keep_existing' | 'overwrite' | 'fill_blanks'
+
+// A mapped file row; row is its 1-based number in the file
+export interface ImportedContact extends NewContact {
+  row: number
+}
+
+// A number an import found more than once, on several rows or among the stored contacts
+export interface ContactMerge {
+  phone_number: string
+  // File rows with the number
+  rows: number[]
+  // Whether the number was already a contact
+  existing: boolean
+  // Contact fields and attribute keys the merge set; empty when the contact was kept as it was
+  changed: string[]
+}
+
+export interface ContactUploadResult {
+  success: boolean
+  message: string
+  inserted: number
+  // Contacts already stored whose values the duplicate strategy changed
+  updated: number
+  // Contacts already stored and left as they were
+  skipped: number
+  // Rows folded into an earlier row with the same number
+  duplicates: number
+  total: number
+  strategy: DuplicateStrategy
+  merges: ContactMerge[]
+  errors?: string[]
+}
+
+// Contact fields an imported column can fill; first and last name are joined when there is no name column
+export type ContactField = 'phone_number' | 'name' | 'first_name' | 'last_name' | 'email'
+
+// Where an imported column goes: a contact field, or a custom attribute under the given key
+export type ColumnTarget = { field: ContactField } | { attribute: string }
+
+// Keyed by CSV column header; columns left out are not imported
+export type ColumnMapping = Record<string, ColumnTarget>
+
+// A mapping saved under a name, with the columns of the file it was made for
+export interface ImportMapping {
+  id: number
+  name: string
+  columns: string[]
+  mapping: ColumnMapping
+  updated_at: string
+}
+
+// What an uploaded file holds, for the operator to map its columns before importing
+export interface ContactImportPreview {
+  columns: string[]
+  // The first rows, keyed by column
+  sample: Record<string, string>[]
+  totalRows: number
+  // From the saved mapping that best fits the columns, else guessed from their names
+  mapping: ColumnMapping
+  savedMapping: { id: number, name: string } | null
+}
+
+// Progress of the latest WhatsApp registration check of the contacts
+export interface VerificationProgress {
+  verificationId: string
+  isActive: boolean
+  total: number
+  checked: number
+  registered: number
+  unregistered: number
+  // Numbers whose lookup failed; they keep their previous status
+  failed: number
+  startedAt: string
+  completedAt: string | null
+}
+
+export interface SystemStatus {
+  backend: 'running'
+  whatsapp: 'connected' | 'disconnected'
+  authenticated: boolean
+}
@@ -1,65 +1,98 @@
 import { Router } from 'express'
+import { contactsRouter } from './contacts'
+import { campaignsRouter } from './campaigns'
+import { whatsappRouter } from './whatsapp'
+import { eventsRouter } from './events'
+import { inboxRouter } from './inbox'
+import { suppressionsRouter } from './suppressions'
+import { tagsRouter } from './tags'
+import { segmentsRouter } from './segments'
+import { customFieldsRouter } from './customFields'
+import { countContacts } from '../models/contacts'
+import { countCampaigns } from '../models/campaigns'
+import { getMessageStats, listMessages } from '../models/messages'
+import { Metrics, MessageStatus } from '../models/types'
+import { sendMessage, uploadMedia } from '../services/whatsappClient'
+import { optionalAttachment } from '../middleware/attachment'
+import { getSystemStatus } from '../services/statusMonitor'
+import { getDefaultCountry, normalizePhone, PhoneValidationError } from '../services/phone'
 
 export const apiRouter = Router()
 
 // Status endpoint
-apiRouter.get('/status', (req, res) => {
-  res.json({
-    message: 'AJ Sender Backend API is running',
-    timestamp: new Date().toISOString(),
-    endpoints: {
-      health: '/health',
-      users: '/api/users',
-      messages: '/api/messages',
-      whatsapp: '/api/whatsapp'
-    }
-  })
+apiRouter.get('/status', async (req, res) => {
+  res.json(await getSystemStatus())
 })
 
-// User management endpoints (placeholder)
-apiRouter.get('/users', (req, res) => {
-  res.json({
-    message: 'User management endpoints',
-    users: [],
-    total: 0
-  })
+// Metrics endpoint
+apiRouter.get('/metrics', async (req, res) => {
+  try {
+    const [totalContacts, totalCampaigns, messages] = await Promise.all([
+      countContacts(),
+      countCampaigns(),
+      getMessageStats()
+    ])
+    const metrics: Metrics = {
+      totalContacts,
+      totalCampaigns,
+      totalMessages: messages.total,
+      sentMessages: messages.sent
+    }
+    res.json(metrics)
+  } catch (error) {
+    console.error('Error fetching metrics:', error)
+    res.status(500).json({ error: 'Failed to fetch metrics' })
+  }
 })
 
-apiRouter.post('/users', (req, res) => {
-  res.json({
-    message: 'Create user endpoint',
-    status: 'not_implemented'
-  })
+// Message history, optionally filtered by campaign and status
+apiRouter.get('/messages', async (req, res) => {
+  try {
+    const campaignId = req.query.campaignId ? parseInt(String(req.query.campaignId), 10) : undefined
+    const status = req.query.status ? String(req.query.status) as MessageStatus : undefined
+    const messages = await listMessages({ campaignId, status })
+    res.json({ messages, total: messages.length })
+  } catch (error) {
+    console.error('Error fetching messages:', error)
+    res.status(500).json({ error: 'Failed to fetch messages' })
+  }
 })
 
-// Message endpoints (placeholder)
-apiRouter.get('/messages', (req, res) => {
-  res.json({
-    message: 'Message history endpoints',
-    messages: [],
-    total: 0
-  })
-})
+// Send a one-off message outside of any campaign, optionally with an "attachment" file
+apiRouter.post('/messages/send', optionalAttachment, async (req, res) => {
+  const { phone_number, name, message = '' } = req.body
 
-apiRouter.post('/messages/send', (req, res) => {
-  res.json({
-    message: 'Send message endpoint',
-    status: 'not_implemented'
-  })
-})
+  if (!phone_number || (!message && !req.file)) {
+    return res.status(400).json({ error: 'Phone number and a message or attachment are required' })
+  }
 
-// WhatsApp integration endpoints (placeholder)
-apiRouter.get('/whatsapp/status', (req, res) => {
-  res.json({
-    message: 'WhatsApp integration status',
-    connected: false,
-    status: 'not_connected'
-  })
-})
+  let phone: string
+  try {
+    phone = normalizePhone(String(phone_number), await getDefaultCountry()).e164
+  } catch (error) {
+    if (error instanceof PhoneValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error reading default country:', error)
+    return res.status(500).json({ error: 'Failed to send message' })
+  }
 
-apiRouter.post('/whatsapp/connect', (req, res) => {
-  res.json({
-    message: 'WhatsApp connect endpoint',
-    status: 'not_implemented'
-  })
+  try {
+    const media = req.file ? await uploadMedia(req.file) : null
+    const result = await sendMessage(phone, name, String(message), media?.id)
+    res.json({ success: true, result })
+  } catch (error) {
+    console.error('Error sending message:', error)
+    res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to send message' })
+  }
 })
+
+apiRouter.use('/contacts', contactsRouter)
+apiRouter.use('/campaigns', campaignsRouter)
+apiRouter.use('/whatsapp', whatsappRouter)
+apiRouter.use('/events', eventsRouter)
+apiRouter.use('/inbox', inboxRouter)
+apiRouter.use('/suppressions', suppressionsRouter)
+apiRouter.use('/tags', tagsRouter)
+apiRouter.use('/segments', segmentsRouter)
+apiRouter.use('/custom-fields', customFieldsRouter)
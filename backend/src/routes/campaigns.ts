@@ -0,0 +1,372 @@
+import { Router } from 'express'
+import { createCampaign, deleteCampaign, getCampaign, listCampaigns, listVariantStats, scheduleCampaign } from '../models/campaigns'
+import { countSendableContacts } from '../models/contacts'
+import { Campaign, CampaignAudience, CampaignVariant, MediaAttachment, NewCampaign, VariantStats, WinnerTest } from '../models/types'
+import { optionalAttachment } from '../middleware/attachment'
+import { estimateCompletion, uploadMedia, WhatsAppServerError } from '../services/whatsappClient'
+import { parseThrottle, ThrottleValidationError } from '../services/throttle'
+import { audienceCondition, AudienceValidationError, parseAudience } from '../services/audiences'
+import { parseVariants, parseWinnerTest, VariantValidationError } from '../services/variants'
+import {
+  CampaignAction,
+  CampaignSendError,
+  controlCampaign,
+  getActiveCampaignId,
+  getCampaignProgress,
+  listCampaignProgress,
+  retryFailedMessages,
+  sendWinner,
+  startCampaign
+} from '../services/campaignSender'
+
+export const campaignsRouter = Router()
+
+const MAX_MESSAGE_LENGTH = 1000
+
+// Returns why a requested schedule time is unusable, or null when it is a future timestamp
+function validateScheduledAt(value: unknown): string | null {
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    return 'scheduledAt must be an ISO 8601 timestamp'
+  }
+  if (Date.parse(value) <= Date.now()) {
+    return 'scheduledAt must be in the future'
+  }
+  return null
+}
+
+// Sender session ids as an array or (in multipart) a JSON string; empty means every session
+function parseSenders(value: unknown): string[] | null | undefined {
+  if (value === undefined || value === null || value === '') return null
+  let senders = value
+  if (typeof value === 'string') {
+    try {
+      senders = JSON.parse(value)
+    } catch (error) {
+      return undefined
+    }
+  }
+  if (!Array.isArray(senders) || senders.some(id => typeof id !== 'string' || !id)) return undefined
+  return senders.length > 0 ? [...new Set(senders as string[])] : null
+}
+
+// Contacts an audience would message now; 0 when its list or segment was deleted
+async function countRecipients(audience: CampaignAudience | null): Promise<number> {
+  try {
+    return await countSendableContacts(await audienceCondition(audience))
+  } catch (error) {
+    if (error instanceof AudienceValidationError) return 0
+    throw error
+  }
+}
+
+// Campaigns with variants carry each variant's counters as "variant_stats"; once a test's winner has
+// gone out, "test_stats" keeps the test phase's own counters, which the winner was picked on
+async function withVariantStats(
+  campaign: Campaign
+): Promise<Campaign & { variant_stats?: VariantStats[], test_stats?: VariantStats[] }> {
+  if (!campaign.variants) return campaign
+  const variantStats = await listVariantStats(campaign)
+  if (!campaign.test_job_id || campaign.winner_variant === null) {
+    return { ...campaign, variant_stats: variantStats }
+  }
+  return { ...campaign, variant_stats: variantStats, test_stats: await listVariantStats(campaign, campaign.test_job_id) }
+}
+
+// List campaigns with message counters; drafts include the projected completion if sent now,
+// scheduled campaigns the projection from their scheduled time, both for their audience.
+// The projection is left out while whatsapp-server is unreachable.
+campaignsRouter.get('/', async (req, res) => {
+  try {
+    const campaigns = await listCampaigns()
+    const counts = new Map<string, number>()
+    const result = []
+    for (const listed of campaigns) {
+      const campaign = await withVariantStats(listed)
+      if (campaign.status !== 'draft' && campaign.status !== 'scheduled') {
+        result.push(campaign)
+        continue
+      }
+      const key = JSON.stringify(campaign.audience)
+      if (!counts.has(key)) counts.set(key, await countRecipients(campaign.audience))
+      const estimate = await estimateCompletion(
+        campaign.throttle,
+        counts.get(key)!,
+        campaign.scheduled_at ? Date.parse(campaign.scheduled_at) : Date.now(),
+        campaign.senders
+      ).catch(() => undefined)
+      result.push({ ...campaign, estimate })
+    }
+    res.json(result)
+  } catch (error) {
+    console.error('Error fetching campaigns:', error)
+    res.status(500).json({ error: 'Failed to fetch campaigns' })
+  }
+})
+
+// Progress of campaigns that are sending or finished recently; live updates are on /api/events
+campaignsRouter.get('/progress', (req, res) => {
+  res.json(listCampaignProgress())
+})
+
+// Projected completion for sending to every contact not opted out (or those of an optional "audience")
+// with the given throttle settings and optional "senders", starting now or at an optional "startAt" timestamp
+campaignsRouter.post('/estimate', async (req, res) => {
+  const senders = parseSenders(req.body.senders)
+  if (senders === undefined) {
+    return res.status(400).json({ error: 'senders must be an array of session ids' })
+  }
+
+  try {
+    const throttle = parseThrottle(req.body.throttle)
+    const audience = await audienceCondition(parseAudience(req.body.audience))
+    const startAt = Date.parse(req.body.startAt)
+    const total = await countSendableContacts(audience)
+    res.json(await estimateCompletion(throttle, total, isNaN(startAt) ? Date.now() : startAt, senders))
+  } catch (error) {
+    if (error instanceof ThrottleValidationError || error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    // Such as an audience larger than whatsapp-server will project
+    if (error instanceof WhatsAppServerError && error.statusCode === 400) {
+      return res.status(400).json({ error: error.message })
+    }
+    if (error instanceof WhatsAppServerError) {
+      console.error('Error estimating campaign:', error)
+      return res.status(502).json({ error: 'Failed to reach WhatsApp server' })
+    }
+    console.error('Error estimating campaign:', error)
+    res.status(500).json({ error: 'Failed to estimate campaign' })
+  }
+})
+
+// Create campaign; accepts JSON or multipart with an optional "attachment" file.
+// "throttle" holds the sending limits, as an object or (in multipart) a JSON string.
+// With "scheduledAt" the campaign is created as scheduled and launched by the scheduler.
+// "senders" lists the whatsapp-server sessions to spread the sending over (all of them if omitted).
+// "audience" picks a contact list or segment as { type: 'tag' | 'segment', id } (every contact if omitted).
+// "variants" replaces the message with 2 or more { label, message, weight } split over the audience by
+// weight (a percentage); "winnerTest" ({ testPercent, waitHours, metric }) sends them to a sample first
+// and the best variant on the metric to everyone else after waitHours.
+campaignsRouter.post('/', optionalAttachment, async (req, res) => {
+  const { name, scheduledAt } = req.body as Partial<NewCampaign>
+
+  let variants: CampaignVariant[] | null
+  let winnerTest: WinnerTest | null
+  try {
+    variants = parseVariants(req.body.variants, MAX_MESSAGE_LENGTH)
+    winnerTest = variants ? parseWinnerTest(req.body.winnerTest) : null
+  } catch (error) {
+    if (error instanceof VariantValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error creating campaign:', error)
+    return res.status(500).json({ error: 'Failed to create campaign' })
+  }
+  // The first variant stands in for the message wherever a campaign is shown by its message
+  const message: string = variants ? variants[0].message : req.body.message || ''
+
+  if (!name || (!message && !req.file)) {
+    return res.status(400).json({ error: 'Name and a message or attachment are required' })
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return res.status(400).json({ error: `Message too long (max ${MAX_MESSAGE_LENGTH} characters)` })
+  }
+  const scheduleError = scheduledAt ? validateScheduledAt(scheduledAt) : null
+  if (scheduleError) {
+    return res.status(400).json({ error: scheduleError })
+  }
+  const senders = parseSenders(req.body.senders)
+  if (senders === undefined) {
+    return res.status(400).json({ error: 'senders must be an array of session ids' })
+  }
+
+  try {
+    const throttle = parseThrottle(req.body.throttle)
+    const audience = parseAudience(req.body.audience)
+    await audienceCondition(audience)
+
+    let media: MediaAttachment | null = null
+    if (req.file) {
+      media = await uploadMedia(req.file)
+    }
+
+    const campaign = await createCampaign({
+      name,
+      message,
+      media,
+      throttle,
+      senders,
+      audience,
+      scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+      variants,
+      winnerTest
+    })
+    res.json({ ...campaign, success: true })
+  } catch (error) {
+    if (error instanceof ThrottleValidationError || error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    if (error instanceof WhatsAppServerError && error.statusCode && error.statusCode < 500) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    console.error('Error creating campaign:', error)
+    res.status(500).json({ error: 'Failed to create campaign' })
+  }
+})
+
+campaignsRouter.get('/:id', async (req, res) => {
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id, 10))
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+    res.json(await withVariantStats(campaign))
+  } catch (error) {
+    console.error('Error fetching campaign:', error)
+    res.status(500).json({ error: 'Failed to fetch campaign' })
+  }
+})
+
+campaignsRouter.get('/:id/progress', (req, res) => {
+  const progress = getCampaignProgress(parseInt(req.params.id, 10))
+  if (!progress) {
+    return res.status(404).json({ error: 'No progress recorded for this campaign' })
+  }
+  res.json(progress)
+})
+
+// Schedule or reschedule a draft or scheduled campaign
+campaignsRouter.put('/:id/schedule', async (req, res) => {
+  const scheduleError = validateScheduledAt(req.body.scheduledAt)
+  if (scheduleError) {
+    return res.status(400).json({ error: scheduleError })
+  }
+
+  try {
+    const campaignId = parseInt(req.params.id, 10)
+    if (!(await getCampaign(campaignId))) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+    if (!(await scheduleCampaign(campaignId, new Date(req.body.scheduledAt).toISOString()))) {
+      return res.status(409).json({ error: 'Only draft or scheduled campaigns can be scheduled' })
+    }
+    res.json({ ...(await getCampaign(campaignId)), success: true })
+  } catch (error) {
+    console.error('Error scheduling campaign:', error)
+    res.status(500).json({ error: 'Failed to schedule campaign' })
+  }
+})
+
+// Cancel a schedule, returning the campaign to draft
+campaignsRouter.delete('/:id/schedule', async (req, res) => {
+  try {
+    const campaignId = parseInt(req.params.id, 10)
+    const campaign = await getCampaign(campaignId)
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+    if (campaign.status !== 'scheduled' || !(await scheduleCampaign(campaignId, null))) {
+      return res.status(409).json({ error: 'Campaign is not scheduled' })
+    }
+    res.json({ ...(await getCampaign(campaignId)), success: true })
+  } catch (error) {
+    console.error('Error cancelling campaign schedule:', error)
+    res.status(500).json({ error: 'Failed to cancel schedule' })
+  }
+})
+
+// Start sending a campaign in the background
+campaignsRouter.post('/:id/send', async (req, res) => {
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id, 10))
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    const { total } = await startCampaign(campaign)
+    res.json({ success: true, total, message: `Campaign started for ${total} contacts` })
+  } catch (error) {
+    if (error instanceof CampaignSendError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    console.error('Error sending campaign:', error)
+    res.status(500).json({ error: 'Failed to send campaign' })
+  }
+})
+
+// Resend the failed messages of a campaign that completed with errors
+campaignsRouter.post('/:id/retry', async (req, res) => {
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id, 10))
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    const { total } = await retryFailedMessages(campaign)
+    res.json({ success: true, total, message: `Retrying ${total} failed messages` })
+  } catch (error) {
+    if (error instanceof CampaignSendError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    console.error('Error retrying campaign:', error)
+    res.status(500).json({ error: 'Failed to retry campaign' })
+  }
+})
+
+// End a campaign's variant test early, sending the best variant so far to the rest of its audience
+campaignsRouter.post('/:id/winner', async (req, res) => {
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id, 10))
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    const { winner, total } = await sendWinner(campaign)
+    const label = campaign.variants![winner].label
+    res.json({ success: true, winner, total, message: `Sending variant ${label} to ${total} remaining contacts` })
+  } catch (error) {
+    if (error instanceof CampaignSendError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    console.error('Error sending winning variant:', error)
+    res.status(500).json({ error: 'Failed to send winning variant' })
+  }
+})
+
+// Pause, resume or cancel the campaign that is sending; progress updates follow on /api/events
+campaignsRouter.post('/:id/:action(pause|resume|cancel)', async (req, res) => {
+  const action = req.params.action as CampaignAction
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id, 10))
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+
+    const progress = await controlCampaign(campaign, action)
+    res.json({ success: true, progress })
+  } catch (error) {
+    if (error instanceof CampaignSendError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    console.error(`Error running ${action} on campaign:`, error)
+    res.status(500).json({ error: `Failed to ${action} campaign` })
+  }
+})
+
+campaignsRouter.delete('/:id', async (req, res) => {
+  const campaignId = parseInt(req.params.id, 10)
+
+  if (getActiveCampaignId() === campaignId) {
+    return res.status(409).json({ error: 'Cannot delete a campaign while it is sending' })
+  }
+
+  try {
+    if (!(await deleteCampaign(campaignId))) {
+      return res.status(404).json({ error: 'Campaign not found' })
+    }
+    res.json({ success: true, message: 'Campaign deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting campaign:', error)
+    res.status(500).json({ error: 'Failed to delete campaign' })
+  }
+})
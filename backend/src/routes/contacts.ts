@@ -0,0 +1,375 @@
+import fs from 'fs'
+import path from 'path'
+import { Router } from 'express'
+import multer from 'multer'
+import {
+  deleteContact,
+  getContact,
+  getContactByPhone,
+  listContacts,
+  listExportContacts,
+  saveContact,
+  updateContact,
+  updateContactAttributes
+} from '../models/contacts'
+import { listCustomFields } from '../models/customFields'
+import { deleteImportMapping, listImportMappings } from '../models/importMappings'
+import { listConversationEntries } from '../models/inbox'
+import { getSuppression } from '../models/suppressions'
+import { addNumbersToTag, findOrCreateTag, listContactTags, setContactTags } from '../models/tags'
+import { ContactDetail, ContactUploadResult, NewContact } from '../models/types'
+import {
+  ContactImportError,
+  guessMapping,
+  importContacts,
+  mapRows,
+  parseDuplicateStrategy,
+  parseMapping,
+  previewImport,
+  saveMapping
+} from '../services/contactImport'
+import { ContactFileError, readContactFile } from '../services/contactFiles'
+import { ContactExportError, exportContacts, parseContactFilter, parseExportFormat } from '../services/contactExport'
+import { AudienceValidationError, parseListNames } from '../services/audiences'
+import { getVerificationProgress, startVerification, VerificationError } from '../services/contactVerification'
+import { applyAttributes, CustomFieldError } from '../services/customFields'
+import { WhatsAppServerError } from '../services/whatsappClient'
+import {
+  getDefaultCountry,
+  listCountries,
+  normalizePhone,
+  parseCountry,
+  PhoneValidationError,
+  setDefaultCountry,
+  toWhatsAppNumber
+} from '../services/phone'
+
+export const contactsRouter = Router()
+
+const upload = multer({
+  dest: path.join(process.cwd(), 'uploads'),
+  limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
+})
+
+// List contacts, narrowed by the optedOut, lastCampaignId, tagId, search, createdFrom and createdTo query parameters
+contactsRouter.get('/', async (req, res) => {
+  try {
+    res.json(await listContacts(parseContactFilter(req.query)))
+  } catch (error) {
+    if (error instanceof ContactExportError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error fetching contacts:', error)
+    res.status(500).json({ error: 'Failed to fetch contacts' })
+  }
+})
+
+// Download the contacts the list filters match, as ?format=csv (default), xlsx or vcf
+contactsRouter.get('/export', async (req, res) => {
+  try {
+    const format = parseExportFormat(req.query.format)
+    const file = await exportContacts(await listExportContacts(parseContactFilter(req.query)), format)
+    res.setHeader('Content-Type', file.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`)
+    res.send(file.body)
+  } catch (error) {
+    if (error instanceof ContactExportError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error exporting contacts:', error)
+    res.status(500).json({ error: 'Failed to export contacts' })
+  }
+})
+
+// The country numbers without a country code are read as, plus the countries to choose from
+contactsRouter.get('/default-country', async (req, res) => {
+  try {
+    res.json({ country: await getDefaultCountry(), countries: listCountries() })
+  } catch (error) {
+    console.error('Error fetching default country:', error)
+    res.status(500).json({ error: 'Failed to fetch default country' })
+  }
+})
+
+contactsRouter.put('/default-country', async (req, res) => {
+  try {
+    res.json({ country: await setDefaultCountry(req.body.country) })
+  } catch (error) {
+    if (error instanceof PhoneValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error saving default country:', error)
+    res.status(500).json({ error: 'Failed to save default country' })
+  }
+})
+
+// Create or update a single contact; "country" overrides the default country for a national number.
+// Values in "attributes" of custom fields must fit the field's type.
+contactsRouter.post('/', async (req, res) => {
+  const { phone_number, name, email, attributes } = req.body as Partial<NewContact>
+
+  if (!phone_number) {
+    return res.status(400).json({ error: 'Phone number is required' })
+  }
+
+  try {
+    const country = req.body.country ? parseCountry(req.body.country) : await getDefaultCountry()
+    const phone = normalizePhone(String(phone_number), country)
+    const contact = await saveContact({
+      phone_number: phone.e164,
+      phone_original: phone.original,
+      phone_country: phone.country,
+      phone_type: phone.type,
+      name,
+      email,
+      attributes: applyAttributes({}, attributes, await listCustomFields())
+    })
+    res.json({ ...contact, message: 'Contact saved successfully' })
+  } catch (error) {
+    if (error instanceof PhoneValidationError || error instanceof CustomFieldError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error saving contact:', error)
+    res.status(500).json({ error: 'Failed to save contact' })
+  }
+})
+
+// Progress of the latest WhatsApp registration check since the backend started, or null
+contactsRouter.get('/verify', (req, res) => {
+  res.json({ progress: getVerificationProgress() })
+})
+
+// Check in the background which numbers have WhatsApp: those unchecked for 30 days, or every number
+// when "all" is true. Campaigns then skip the numbers found unregistered.
+contactsRouter.post('/verify', async (req, res) => {
+  try {
+    res.status(202).json({ success: true, progress: await startVerification(req.body.all === true) })
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    console.error('Error starting number check:', error)
+    if (error instanceof WhatsAppServerError) {
+      return res.status(502).json({ error: 'Failed to reach WhatsApp server' })
+    }
+    res.status(500).json({ error: 'Failed to start number check' })
+  }
+})
+
+// A contact with its lists, opt-out and the timeline of campaign messages, replies and inbox answers
+contactsRouter.get('/:id(\\d+)', async (req, res) => {
+  try {
+    const contact = await getContact(parseInt(req.params.id, 10))
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' })
+    }
+
+    const phone = toWhatsAppNumber(contact.phone_number, await getDefaultCountry())
+    const [tags, suppression, timeline] = await Promise.all([
+      listContactTags(contact.id),
+      getSuppression(phone),
+      listConversationEntries(phone, contact.id, true)
+    ])
+    const detail: ContactDetail = { ...contact, tags, suppression: suppression || null, timeline }
+    res.json(detail)
+  } catch (error) {
+    console.error('Error fetching contact:', error)
+    res.status(500).json({ error: 'Failed to fetch contact' })
+  }
+})
+
+// Edit a contact: phone_number, name, email and "country" as on creation. "attributes", when given,
+// replaces the custom field values; "tagIds", when given, the lists the contact is on.
+contactsRouter.put('/:id(\\d+)', async (req, res) => {
+  const { phone_number, name, email, attributes } = req.body as Partial<NewContact>
+  const { tagIds } = req.body
+
+  if (!phone_number) {
+    return res.status(400).json({ error: 'Phone number is required' })
+  }
+  if (tagIds !== undefined && (!Array.isArray(tagIds) || tagIds.some(id => !Number.isInteger(id)))) {
+    return res.status(400).json({ error: 'tagIds must be an array of list ids' })
+  }
+
+  try {
+    const contact = await getContact(parseInt(req.params.id, 10))
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' })
+    }
+
+    const country = req.body.country ? parseCountry(req.body.country) : await getDefaultCountry()
+    const phone = normalizePhone(String(phone_number), country)
+    const existing = await getContactByPhone(phone.e164)
+    if (existing && existing.id !== contact.id) {
+      return res.status(409).json({ error: `${phone.e164} belongs to another contact` })
+    }
+
+    const updated = await updateContact(contact.id, {
+      phone_number: phone.e164,
+      phone_original: phone.original,
+      phone_country: phone.country,
+      phone_type: phone.type,
+      name,
+      email,
+      attributes: attributes === undefined ? contact.attributes : applyAttributes({}, attributes, await listCustomFields())
+    })
+    if (tagIds !== undefined) {
+      await setContactTags(contact.id, tagIds)
+    }
+    res.json({ ...updated, message: 'Contact saved successfully' })
+  } catch (error) {
+    if (error instanceof PhoneValidationError || error instanceof CustomFieldError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error updating contact:', error)
+    res.status(500).json({ error: 'Failed to update contact' })
+  }
+})
+
+// Deletes the contact and takes it off its lists; its number's opt-out and message history are kept
+contactsRouter.delete('/:id(\\d+)', async (req, res) => {
+  try {
+    if (!(await deleteContact(parseInt(req.params.id, 10)))) {
+      return res.status(404).json({ error: 'Contact not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting contact:', error)
+    res.status(500).json({ error: 'Failed to delete contact' })
+  }
+})
+
+// Change some of a contact's custom field values; "attributes" holds only the changed ones, with an
+// empty value or null removing one
+contactsRouter.patch('/:id(\\d+)/attributes', async (req, res) => {
+  try {
+    const contact = await getContact(parseInt(req.params.id, 10))
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' })
+    }
+    const attributes = applyAttributes(contact.attributes, req.body.attributes, await listCustomFields())
+    await updateContactAttributes(contact.id, attributes)
+    res.json({ ...contact, attributes })
+  } catch (error) {
+    if (error instanceof CustomFieldError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error updating contact fields:', error)
+    res.status(500).json({ error: 'Failed to update contact fields' })
+  }
+})
+
+// Columns, first rows and a suggested mapping of an uploaded file; nothing is imported
+contactsRouter.post('/upload/preview', upload.single('csvFile'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' })
+  }
+
+  try {
+    res.json(await previewImport(req.file.path, req.file.originalname))
+  } catch (error) {
+    if (error instanceof ContactImportError || error instanceof ContactFileError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error previewing CSV:', error)
+    if (error instanceof WhatsAppServerError) {
+      return res.status(502).json({ error: 'Failed to reach WhatsApp server' })
+    }
+    res.status(500).json({ error: 'Failed to read contact file' })
+  } finally {
+    fs.promises.unlink(req.file.path).catch(() => undefined)
+  }
+})
+
+// Upload contacts in the "csvFile" field: CSV (including Google and Outlook exports), Excel .xlsx or
+// vCard .vcf, told apart by the file name. Numbers are stored in E.164; those without a country code
+// are read as numbers of the "country" field, or of the default country when it is omitted. Columns go
+// where the "mapping" field (JSON, as returned by the preview) says, or are guessed from their names;
+// "saveMappingAs" stores the mapping under that name for later files. Every valid contact in the file,
+// including ones already stored, is put on the lists named in "tags" (created when missing).
+// Rows are matched on their E.164 number; "duplicates" says how one matching a stored contact or an
+// earlier row is merged (keep_existing, the default, overwrite or fill_blanks), and "merges" in the
+// result lists every number merged that way.
+contactsRouter.post('/upload', upload.single('csvFile'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' })
+  }
+
+  const filePath = req.file.path
+
+  try {
+    const country = req.body.country ? parseCountry(req.body.country) : await getDefaultCountry()
+    const { columns, rows } = await readContactFile(filePath, req.file.originalname)
+    const customFields = await listCustomFields()
+    const mapping = req.body.mapping ? parseMapping(req.body.mapping, columns) : guessMapping(columns, customFields)
+    const tagNames = parseListNames(req.body.tags)
+    const strategy = parseDuplicateStrategy(req.body.duplicates)
+    const { contacts, errors } = mapRows(rows, mapping, country, customFields)
+
+    if (contacts.length === 0) {
+      return res.status(400).json({
+        error: 'No valid contacts found in CSV',
+        errors,
+        totalRows: rows.length
+      })
+    }
+
+    if (req.body.saveMappingAs) {
+      await saveMapping(req.body.saveMappingAs, columns, mapping)
+    }
+
+    const outcome = await importContacts(contacts, strategy)
+    for (const name of tagNames) {
+      const tag = await findOrCreateTag(name)
+      await addNumbersToTag(tag.id, contacts.map(contact => contact.phone_number))
+    }
+
+    const result: ContactUploadResult = {
+      success: true,
+      message: 'Successfully processed CSV file',
+      ...outcome,
+      total: contacts.length,
+      strategy,
+      errors: errors.length > 0 ? errors : undefined
+    }
+    res.json(result)
+  } catch (error) {
+    if (
+      error instanceof PhoneValidationError ||
+      error instanceof ContactImportError ||
+      error instanceof ContactFileError ||
+      error instanceof AudienceValidationError
+    ) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error processing CSV:', error)
+    if (error instanceof WhatsAppServerError) {
+      return res.status(502).json({ error: 'Failed to reach WhatsApp server' })
+    }
+    res.status(500).json({ error: 'Failed to process CSV file' })
+  } finally {
+    fs.promises.unlink(filePath).catch(() => undefined)
+  }
+})
+
+// Column mappings saved from earlier imports
+contactsRouter.get('/mappings', async (req, res) => {
+  try {
+    res.json(await listImportMappings())
+  } catch (error) {
+    console.error('Error fetching import mappings:', error)
+    res.status(500).json({ error: 'Failed to fetch import mappings' })
+  }
+})
+
+contactsRouter.delete('/mappings/:id', async (req, res) => {
+  try {
+    if (!(await deleteImportMapping(Number(req.params.id)))) {
+      return res.status(404).json({ error: 'Import mapping not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting import mapping:', error)
+    res.status(500).json({ error: 'Failed to delete import mapping' })
+  }
+})
@@ -0,0 +1,85 @@
+import { Router } from 'express'
+import {
+  createCustomField,
+  deleteCustomField,
+  getCustomField,
+  getCustomFieldByKey,
+  listCustomFields,
+  updateCustomField
+} from '../models/customFields'
+import {
+  CustomFieldError,
+  parseFieldKey,
+  parseFieldLabel,
+  parseFieldOptions,
+  parseFieldType,
+  retypeValues
+} from '../services/customFields'
+
+export const customFieldsRouter = Router()
+
+customFieldsRouter.get('/', async (req, res) => {
+  try {
+    res.json(await listCustomFields())
+  } catch (error) {
+    console.error('Error fetching custom fields:', error)
+    res.status(500).json({ error: 'Failed to fetch custom fields' })
+  }
+})
+
+// Define a field from { label, type, options (enum only), key (defaults to the label) }. Values
+// contacts already have under the key are converted to the type; "invalid" counts those that
+// could not be and were left as they are.
+customFieldsRouter.post('/', async (req, res) => {
+  try {
+    const label = parseFieldLabel(req.body.label)
+    const key = parseFieldKey(req.body.key, label)
+    const type = parseFieldType(req.body.type)
+    const options = parseFieldOptions(type, req.body.options)
+    if (await getCustomFieldByKey(key)) {
+      return res.status(409).json({ error: `A field with the key ${key} already exists` })
+    }
+    const field = await createCustomField(key, label, type, options)
+    res.json({ ...field, ...(await retypeValues(field)) })
+  } catch (error) {
+    if (error instanceof CustomFieldError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error creating custom field:', error)
+    res.status(500).json({ error: 'Failed to create custom field' })
+  }
+})
+
+// Change a field's label, type or options; stored values are converted as on creation
+customFieldsRouter.put('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10)
+    const label = parseFieldLabel(req.body.label)
+    const type = parseFieldType(req.body.type)
+    const options = parseFieldOptions(type, req.body.options)
+    if (!(await getCustomField(id))) {
+      return res.status(404).json({ error: 'Custom field not found' })
+    }
+    const field = (await updateCustomField(id, label, type, options))!
+    res.json({ ...field, ...(await retypeValues(field)) })
+  } catch (error) {
+    if (error instanceof CustomFieldError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error updating custom field:', error)
+    res.status(500).json({ error: 'Failed to update custom field' })
+  }
+})
+
+// Removes the definition only; contacts keep their values as plain attributes
+customFieldsRouter.delete('/:id', async (req, res) => {
+  try {
+    if (!(await deleteCustomField(parseInt(req.params.id, 10)))) {
+      return res.status(404).json({ error: 'Custom field not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting custom field:', error)
+    res.status(500).json({ error: 'Failed to delete custom field' })
+  }
+})
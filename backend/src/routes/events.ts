@@ -0,0 +1,44 @@
+import { Router } from 'express'
+import { ServerEvent, subscribe } from '../services/events'
+import { listCampaignProgress } from '../services/campaignSender'
+import { getSystemStatus, watchStatus } from '../services/statusMonitor'
+
+export const eventsRouter = Router()
+
+// Keeps idle connections open through proxies that drop silent streams
+const HEARTBEAT_INTERVAL_MS = 25000
+
+// Server-Sent Events stream of campaign progress, message transitions and WhatsApp status
+eventsRouter.get('/', async (req, res) => {
+  const status = await getSystemStatus()
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable nginx response buffering for this stream
+    'X-Accel-Buffering': 'no'
+  })
+
+  const send = (event: ServerEvent | { type: 'snapshot', data: unknown }) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`)
+  }
+
+  const unsubscribe = subscribe(send)
+  const unwatch = watchStatus()
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unwatch()
+    unsubscribe()
+  })
+
+  send({
+    type: 'snapshot',
+    data: {
+      progress: listCampaignProgress(),
+      status
+    }
+  })
+})
@@ -1,4 +1,5 @@
 import { Router } from 'express'
+import { isDatabaseReady } from '../models/database'
 
 export const healthRouter = Router()
 
@@ -7,6 +8,7 @@ healthRouter.get('/', (req, res) => {
     status: 'ok',
     service: 'ajsender-backend',
     timestamp: new Date().toISOString(),
+    database: isDatabaseReady() ? 'connected' : 'connecting',
     uptime: process.uptime(),
     memory: process.memoryUsage(),
     env: process.env.NODE_ENV || 'development'
@@ -0,0 +1,100 @@
+import { Router } from 'express'
+import {
+  countUnread,
+  getConversation,
+  listConversationEntries,
+  listConversations,
+  markConversationRead,
+  saveOutboundMessage
+} from '../models/inbox'
+import { publish } from '../services/events'
+import { listSessions, sendMessage } from '../services/whatsappClient'
+
+export const inboxRouter = Router()
+
+const MAX_REPLY_LENGTH = 4096
+
+// Conversations with at least one reply or inbox answer, most recent first
+inboxRouter.get('/conversations', async (req, res) => {
+  try {
+    const [conversations, unread] = await Promise.all([listConversations(), countUnread()])
+    res.json({ conversations, unread })
+  } catch (error) {
+    console.error('Error fetching conversations:', error)
+    res.status(500).json({ error: 'Failed to fetch conversations' })
+  }
+})
+
+// A conversation's full thread, including the campaign messages that prompted it; opening it marks it read
+inboxRouter.get('/conversations/:phone(\\d+)', async (req, res) => {
+  try {
+    const { phone } = req.params
+    const conversation = await getConversation(phone)
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+
+    const [messages] = await Promise.all([
+      listConversationEntries(phone, conversation.contact_id),
+      markConversationRead(phone)
+    ])
+    res.json({ conversation: { ...conversation, unread_count: 0 }, messages })
+  } catch (error) {
+    console.error('Error fetching conversation:', error)
+    res.status(500).json({ error: 'Failed to fetch conversation' })
+  }
+})
+
+// Answers a conversation from the account the contact wrote to (any account if that one was removed);
+// the reply is recorded in the thread whether or not the send succeeds
+inboxRouter.post('/conversations/:phone(\\d+)/reply', async (req, res) => {
+  const { phone } = req.params
+  const message = typeof req.body.message === 'string' ? req.body.message.trim() : ''
+
+  if (!message) {
+    return res.status(400).json({ error: 'Message is required' })
+  }
+  if (message.length > MAX_REPLY_LENGTH) {
+    return res.status(400).json({ error: `Message must be ${MAX_REPLY_LENGTH} characters or fewer` })
+  }
+
+  try {
+    const conversation = await getConversation(phone)
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+
+    const name = conversation.contact_name || conversation.sender_name || undefined
+    let sent: { wa_message_id: string | null, session_id: string | null, error_message: string | null }
+    try {
+      const sessionId = conversation.session_id && (await listSessions()).some(s => s.id === conversation.session_id)
+        ? conversation.session_id
+        : null
+      const result = await sendMessage(phone, name, message, null, sessionId)
+      sent = { wa_message_id: result.messageId || null, session_id: result.senderId || sessionId, error_message: null }
+    } catch (error) {
+      sent = {
+        wa_message_id: null,
+        session_id: null,
+        error_message: error instanceof Error ? error.message : 'Failed to send message'
+      }
+    }
+
+    const saved = await saveOutboundMessage({
+      phone_number: phone,
+      contact_id: conversation.contact_id,
+      body: message,
+      status: sent.error_message ? 'failed' : 'sent',
+      ...sent
+    })
+    publish({ type: 'inbox', data: saved })
+
+    if (sent.error_message) {
+      return res.status(502).json({ error: sent.error_message, message: saved })
+    }
+    res.json({ success: true, message: saved })
+  } catch (error) {
+    console.error('Error sending reply:', error)
+    res.status(500).json({ error: 'Failed to send reply' })
+  }
+})
@@ -0,0 +1,93 @@
+import { Router } from 'express'
+import { countSendableContacts } from '../models/contacts'
+import {
+  createSegment,
+  deleteSegment,
+  getSegment,
+  getSegmentByName,
+  listSegments,
+  segmentCondition,
+  updateSegment
+} from '../models/segments'
+import { AudienceValidationError, parseListName, parseSegmentRules } from '../services/audiences'
+
+export const segmentsRouter = Router()
+
+// Saved segments, each with how many contacts it would message right now
+segmentsRouter.get('/', async (req, res) => {
+  try {
+    const segments = await listSegments()
+    res.json(await Promise.all(segments.map(async segment => ({
+      ...segment,
+      recipients: await countSendableContacts(segmentCondition(segment.rules))
+    }))))
+  } catch (error) {
+    console.error('Error fetching segments:', error)
+    res.status(500).json({ error: 'Failed to fetch segments' })
+  }
+})
+
+// Recipient count for rules that are still being edited
+segmentsRouter.post('/preview', async (req, res) => {
+  try {
+    const rules = parseSegmentRules(req.body.rules)
+    res.json({ recipients: await countSendableContacts(segmentCondition(rules)) })
+  } catch (error) {
+    if (error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error previewing segment:', error)
+    res.status(500).json({ error: 'Failed to preview segment' })
+  }
+})
+
+segmentsRouter.post('/', async (req, res) => {
+  try {
+    const name = parseListName(req.body.name, 'Segment')
+    const rules = parseSegmentRules(req.body.rules)
+    if (await getSegmentByName(name)) {
+      return res.status(409).json({ error: 'A segment with this name already exists' })
+    }
+    res.json(await createSegment(name, rules))
+  } catch (error) {
+    if (error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error creating segment:', error)
+    res.status(500).json({ error: 'Failed to create segment' })
+  }
+})
+
+segmentsRouter.put('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10)
+    const name = parseListName(req.body.name, 'Segment')
+    const rules = parseSegmentRules(req.body.rules)
+    if (!(await getSegment(id))) {
+      return res.status(404).json({ error: 'Segment not found' })
+    }
+    const existing = await getSegmentByName(name)
+    if (existing && existing.id !== id) {
+      return res.status(409).json({ error: 'A segment with this name already exists' })
+    }
+    res.json(await updateSegment(id, name, rules))
+  } catch (error) {
+    if (error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error updating segment:', error)
+    res.status(500).json({ error: 'Failed to update segment' })
+  }
+})
+
+segmentsRouter.delete('/:id', async (req, res) => {
+  try {
+    if (!(await deleteSegment(parseInt(req.params.id, 10)))) {
+      return res.status(404).json({ error: 'Segment not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting segment:', error)
+    res.status(500).json({ error: 'Failed to delete segment' })
+  }
+})
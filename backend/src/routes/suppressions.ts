@@ -0,0 +1,112 @@
+import fs from 'fs'
+import path from 'path'
+import { Router } from 'express'
+import multer from 'multer'
+import { getSuppression, listSuppressions } from '../models/suppressions'
+import { getDefaultCountry } from '../services/phone'
+import {
+  getOptOutKeywords,
+  importSuppressions,
+  setOptOutKeywords,
+  suppressionKey,
+  suppressNumber,
+  SuppressionValidationError,
+  unsuppressNumber
+} from '../services/suppressions'
+
+export const suppressionsRouter = Router()
+
+const upload = multer({
+  dest: path.join(process.cwd(), 'uploads'),
+  limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+})
+
+// One number per line, optionally the first column of a CSV; header and blank lines are skipped
+function readNumbers(filePath: string): string[] {
+  return fs.readFileSync(filePath, 'utf-8')
+    .split(/\r?\n/)
+    .map(line => line.split(/[,;\t]/)[0].replace(/"/g, '').trim())
+    .filter(value => /\d/.test(value))
+}
+
+suppressionsRouter.get('/', async (req, res) => {
+  try {
+    res.json(await listSuppressions())
+  } catch (error) {
+    console.error('Error fetching suppressions:', error)
+    res.status(500).json({ error: 'Failed to fetch suppression list' })
+  }
+})
+
+suppressionsRouter.get('/keywords', async (req, res) => {
+  try {
+    res.json({ keywords: await getOptOutKeywords() })
+  } catch (error) {
+    console.error('Error fetching opt-out keywords:', error)
+    res.status(500).json({ error: 'Failed to fetch opt-out keywords' })
+  }
+})
+
+suppressionsRouter.put('/keywords', async (req, res) => {
+  try {
+    res.json({ keywords: await setOptOutKeywords(req.body.keywords) })
+  } catch (error) {
+    if (error instanceof SuppressionValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error saving opt-out keywords:', error)
+    res.status(500).json({ error: 'Failed to save opt-out keywords' })
+  }
+})
+
+// Suppress a single number by hand; without a country code it is read as the default country's
+suppressionsRouter.post('/', async (req, res) => {
+  try {
+    const { phone_number, note } = req.body
+    const key = suppressionKey(phone_number, await getDefaultCountry())
+    const added = await suppressNumber(key, 'manual', typeof note === 'string' && note.trim() ? note.trim() : null)
+    const suppression = await getSuppression(key)
+    res.status(added ? 201 : 200).json({ success: true, added, suppression })
+  } catch (error) {
+    if (error instanceof SuppressionValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error adding suppression:', error)
+    res.status(500).json({ error: 'Failed to add number to suppression list' })
+  }
+})
+
+// Import a list of numbers in the "csvFile" field
+suppressionsRouter.post('/import', upload.single('csvFile'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' })
+  }
+
+  try {
+    const numbers = readNumbers(req.file.path)
+    if (numbers.length === 0) {
+      return res.status(400).json({ error: 'No phone numbers found in file' })
+    }
+    res.json({ success: true, ...(await importSuppressions(numbers)) })
+  } catch (error) {
+    console.error('Error importing suppressions:', error)
+    res.status(500).json({ error: 'Failed to import suppression list' })
+  } finally {
+    fs.promises.unlink(req.file.path).catch(() => undefined)
+  }
+})
+
+suppressionsRouter.delete('/:phone', async (req, res) => {
+  try {
+    if (!(await unsuppressNumber(req.params.phone))) {
+      return res.status(404).json({ error: 'Number is not on the suppression list' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof SuppressionValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error removing suppression:', error)
+    res.status(500).json({ error: 'Failed to remove number from suppression list' })
+  }
+})
@@ -0,0 +1,115 @@
+import { Router } from 'express'
+import {
+  addContactsToTag,
+  deleteTag,
+  findOrCreateTag,
+  findTagByName,
+  getTag,
+  listTags,
+  removeContactsFromTag,
+  renameTag
+} from '../models/tags'
+import { AudienceValidationError, parseListName } from '../services/audiences'
+
+export const tagsRouter = Router()
+
+// Contact ids from a request body's "contactIds" array, or null when it is not one
+function parseContactIds(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.some(id => !Number.isInteger(id) || id <= 0)) return null
+  return [...new Set(value as number[])]
+}
+
+// Contact lists with how many contacts are on each
+tagsRouter.get('/', async (req, res) => {
+  try {
+    res.json(await listTags())
+  } catch (error) {
+    console.error('Error fetching contact lists:', error)
+    res.status(500).json({ error: 'Failed to fetch contact lists' })
+  }
+})
+
+// Create a list; returns the existing one when the name (ignoring case) is taken
+tagsRouter.post('/', async (req, res) => {
+  try {
+    res.json(await findOrCreateTag(parseListName(req.body.name, 'List')))
+  } catch (error) {
+    if (error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error creating contact list:', error)
+    res.status(500).json({ error: 'Failed to create contact list' })
+  }
+})
+
+tagsRouter.put('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10)
+    const name = parseListName(req.body.name, 'List')
+    const existing = await findTagByName(name)
+    if (existing && existing.id !== id) {
+      return res.status(409).json({ error: 'Another list already has this name' })
+    }
+    if (!(await renameTag(id, name))) {
+      return res.status(404).json({ error: 'Contact list not found' })
+    }
+    res.json(await getTag(id))
+  } catch (error) {
+    if (error instanceof AudienceValidationError) {
+      return res.status(400).json({ error: error.message })
+    }
+    console.error('Error renaming contact list:', error)
+    res.status(500).json({ error: 'Failed to rename contact list' })
+  }
+})
+
+// Deletes the list only; its contacts stay. Campaigns targeting it can no longer be sent.
+tagsRouter.delete('/:id', async (req, res) => {
+  try {
+    if (!(await deleteTag(parseInt(req.params.id, 10)))) {
+      return res.status(404).json({ error: 'Contact list not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting contact list:', error)
+    res.status(500).json({ error: 'Failed to delete contact list' })
+  }
+})
+
+// Add the contacts in "contactIds" to the list
+tagsRouter.post('/:id/contacts', async (req, res) => {
+  const contactIds = parseContactIds(req.body.contactIds)
+  if (!contactIds) {
+    return res.status(400).json({ error: 'contactIds must be an array of contact ids' })
+  }
+
+  try {
+    const tagId = parseInt(req.params.id, 10)
+    if (!(await getTag(tagId))) {
+      return res.status(404).json({ error: 'Contact list not found' })
+    }
+    res.json({ success: true, added: await addContactsToTag(tagId, contactIds) })
+  } catch (error) {
+    console.error('Error adding contacts to list:', error)
+    res.status(500).json({ error: 'Failed to add contacts to list' })
+  }
+})
+
+// Remove the contacts in "contactIds" from the list
+tagsRouter.delete('/:id/contacts', async (req, res) => {
+  const contactIds = parseContactIds(req.body.contactIds)
+  if (!contactIds) {
+    return res.status(400).json({ error: 'contactIds must be an array of contact ids' })
+  }
+
+  try {
+    const tagId = parseInt(req.params.id, 10)
+    if (!(await getTag(tagId))) {
+      return res.status(404).json({ error: 'Contact list not found' })
+    }
+    res.json({ success: true, removed: await removeContactsFromTag(tagId, contactIds) })
+  } catch (error) {
+    console.error('Error removing contacts from list:', error)
+    res.status(500).json({ error: 'Failed to remove contacts from list' })
+  }
+})
@@ -0,0 +1,88 @@
+import { Response, Router } from 'express'
+import {
+  createSession,
+  getHealth,
+  getQRCode,
+  listSessions,
+  removeSession,
+  WhatsAppServerError
+} from '../services/whatsappClient'
+
+export const whatsappRouter = Router()
+
+// whatsapp-server's validation errors (unknown session, bad id...) are passed on; anything else is a 502
+function sendServerError(res: Response, error: unknown, action: string) {
+  if (error instanceof WhatsAppServerError && error.statusCode && error.statusCode < 500) {
+    return res.status(error.statusCode).json({ error: error.message })
+  }
+  console.error(`Error ${action}:`, error)
+  res.status(502).json({ error: 'Failed to reach WhatsApp server' })
+}
+
+// WhatsApp session status as reported by whatsapp-server; connected once any account is
+whatsappRouter.get('/status', async (req, res) => {
+  const health = await getHealth()
+  res.json({
+    connected: health.waReady,
+    status: health.waReady ? 'ready' : health.hasQRCode ? 'qr_received' : 'disconnected',
+    hasQRCode: health.hasQRCode,
+    queueLength: health.queueLength,
+    sessions: health.sessions || []
+  })
+})
+
+// whatsapp-server initializes its client on boot, so connecting means scanning the pending QR code
+whatsappRouter.post('/connect', async (req, res) => {
+  try {
+    const health = await getHealth()
+    if (health.waReady) {
+      return res.json({ success: true, status: 'ready', qrCode: null })
+    }
+    const qrCode = await getQRCode()
+    res.json({ success: true, status: qrCode ? 'qr_received' : 'initializing', qrCode })
+  } catch (error) {
+    console.error('Error connecting to WhatsApp:', error)
+    res.status(502).json({ error: 'Failed to reach WhatsApp server' })
+  }
+})
+
+// The WhatsApp accounts campaigns can send from
+whatsappRouter.get('/sessions', async (req, res) => {
+  try {
+    res.json(await listSessions())
+  } catch (error) {
+    sendServerError(res, error, 'listing WhatsApp sessions')
+  }
+})
+
+whatsappRouter.post('/sessions', async (req, res) => {
+  const { id, name } = req.body
+  if (typeof id !== 'string' || !id.trim()) {
+    return res.status(400).json({ error: 'Session id is required' })
+  }
+
+  try {
+    const session = await createSession(id.trim(), typeof name === 'string' ? name : undefined)
+    res.status(201).json(session)
+  } catch (error) {
+    sendServerError(res, error, 'creating WhatsApp session')
+  }
+})
+
+// Polled while the account waits to be linked; null once it is
+whatsappRouter.get('/sessions/:id/qr', async (req, res) => {
+  try {
+    res.json({ qrCode: await getQRCode(req.params.id) })
+  } catch (error) {
+    sendServerError(res, error, 'fetching QR code')
+  }
+})
+
+whatsappRouter.delete('/sessions/:id', async (req, res) => {
+  try {
+    await removeSession(req.params.id)
+    res.json({ success: true })
+  } catch (error) {
+    sendServerError(res, error, 'removing WhatsApp session')
+  }
+})
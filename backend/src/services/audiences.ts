@@ -0,0 +1,141 @@
+import { ContactCondition } from '../models/contacts'
+import { getSegment, segmentCondition } from '../models/segments'
+import { getTag, tagCondition } from '../models/tags'
+import { AttributeOperator, CampaignAudience, SegmentRule } from '../models/types'
+import { normalizeVariableName } from './template'
+
+const OPERATORS: AttributeOperator[] = ['equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'is_set', 'is_not_set']
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const MAX_NAME_LENGTH = 64
+const MAX_RULES = 20
+
+export class AudienceValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AudienceValidationError'
+  }
+}
+
+export function parseListName(value: unknown, what: string): string {
+  const name = typeof value === 'string' ? value.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new AudienceValidationError(`${what} name must be 1 to ${MAX_NAME_LENGTH} characters`)
+  }
+  return name
+}
+
+// Lists to put imported contacts on: a JSON array of names, or a single name
+export function parseListNames(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return []
+  const names = typeof value === 'string' && !value.trim().startsWith('[') ? [value] : parseJson(value, 'tags')
+  if (!Array.isArray(names)) {
+    throw new AudienceValidationError('tags must be an array of list names')
+  }
+  return [...new Set(names.map(name => parseListName(name, 'List')))]
+}
+
+function parseId(value: unknown, what: string): number {
+  const id = Number(value)
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AudienceValidationError(`${what} must be an id`)
+  }
+  return id
+}
+
+// Accepts a JSON string too, as multipart forms send it
+function parseJson(value: unknown, what: string): unknown {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    throw new AudienceValidationError(`${what} must be valid JSON`)
+  }
+}
+
+function isNumber(value: string): boolean {
+  return value !== '' && isFinite(Number(value))
+}
+
+function parseRule(input: unknown, index: number): SegmentRule {
+  const rule = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const where = `Rule ${index + 1}`
+
+  switch (rule.type) {
+    case 'tag':
+      return { type: 'tag', tagId: parseId(rule.tagId, `${where}: tagId`), negate: rule.negate === true }
+    case 'attribute': {
+      const key = typeof rule.key === 'string' ? normalizeVariableName(rule.key) : ''
+      if (!key || key.includes('"')) {
+        throw new AudienceValidationError(`${where}: a custom field name is required`)
+      }
+      if (!OPERATORS.includes(rule.operator as AttributeOperator)) {
+        throw new AudienceValidationError(`${where}: operator must be one of ${OPERATORS.join(', ')}`)
+      }
+      const operator = rule.operator as AttributeOperator
+      if (operator === 'is_set' || operator === 'is_not_set') {
+        return { type: 'attribute', key, operator }
+      }
+      if (typeof rule.value !== 'string') {
+        throw new AudienceValidationError(`${where}: a value to compare with is required`)
+      }
+      const value = rule.value.trim()
+      if ((operator === 'greater_than' || operator === 'less_than') && !isNumber(value) && !DATE.test(value)) {
+        throw new AudienceValidationError(`${where}: ${operator} compares with a number or a YYYY-MM-DD date`)
+      }
+      return { type: 'attribute', key, operator, value }
+    }
+    case 'replied':
+      if (typeof rule.replied !== 'boolean') {
+        throw new AudienceValidationError(`${where}: replied must be true or false`)
+      }
+      return { type: 'replied', replied: rule.replied }
+    case 'last_messaged_before':
+      if (typeof rule.date !== 'string' || !DATE.test(rule.date) || isNaN(Date.parse(rule.date))) {
+        throw new AudienceValidationError(`${where}: date must be in YYYY-MM-DD form`)
+      }
+      return { type: 'last_messaged_before', date: rule.date }
+    default:
+      throw new AudienceValidationError(`${where}: type must be tag, attribute, replied or last_messaged_before`)
+  }
+}
+
+export function parseSegmentRules(value: unknown): SegmentRule[] {
+  const rules = parseJson(value, 'rules')
+  if (!Array.isArray(rules)) {
+    throw new AudienceValidationError('rules must be an array')
+  }
+  if (rules.length > MAX_RULES) {
+    throw new AudienceValidationError(`A segment can have at most ${MAX_RULES} rules`)
+  }
+  return rules.map(parseRule)
+}
+
+// A campaign audience as { type: 'tag' | 'segment', id }; empty means every contact
+export function parseAudience(value: unknown): CampaignAudience | null {
+  if (value === undefined || value === null || value === '') return null
+  const audience = parseJson(value, 'audience') as Record<string, unknown> | null
+  if (!audience || typeof audience !== 'object') {
+    throw new AudienceValidationError('audience must be an object with a type and id')
+  }
+  if (audience.type !== 'tag' && audience.type !== 'segment') {
+    throw new AudienceValidationError('audience type must be tag or segment')
+  }
+  return { type: audience.type, id: parseId(audience.id, 'audience id') }
+}
+
+// The condition selecting an audience's contacts; undefined for every contact. Segments are read
+// now, so edits made after a campaign was created apply when it sends.
+export async function audienceCondition(audience: CampaignAudience | null): Promise<ContactCondition | undefined> {
+  if (!audience) return undefined
+  if (audience.type === 'tag') {
+    if (!(await getTag(audience.id))) {
+      throw new AudienceValidationError('The contact list this campaign targets no longer exists')
+    }
+    return tagCondition(audience.id)
+  }
+  const segment = await getSegment(audience.id)
+  if (!segment) {
+    throw new AudienceValidationError('The segment this campaign targets no longer exists')
+  }
+  return segmentCondition(segment.rules)
+}
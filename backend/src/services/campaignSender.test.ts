@@ -0,0 +1,141 @@
+import assert from 'assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, before, describe, it, mock } from 'node:test'
+import { closeDatabase, initializeDatabase, run } from '../models/database'
+import { createCampaign, getCampaign } from '../models/campaigns'
+import { Campaign } from '../models/types'
+import { getActiveCampaignId, sendWinner, startCampaign } from './campaignSender'
+import { BulkContact } from './whatsappClient'
+import { DEFAULT_THROTTLE } from './throttle'
+
+// Stands in for whatsapp-server: every bulk job completes at once with all of its messages sent
+function fakeWhatsAppServer(jobs: Map<string, BulkContact[]>) {
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status })
+  const job = (id: string) => {
+    const total = jobs.get(id)!.length
+    const now = new Date().toISOString()
+    return {
+      id, status: 'completed', total, pending: 0, sent: total, failed: 0, cancelled: 0,
+      throttle: DEFAULT_THROTTLE, senders: null, createdAt: now, completedAt: now
+    }
+  }
+
+  return async (url: string, init?: RequestInit): Promise<Response> => {
+    const { pathname } = new URL(url)
+    if (pathname === '/send-bulk') {
+      const { jobId, contacts } = JSON.parse(String(init?.body))
+      jobs.set(jobId, contacts)
+      return json({ success: true, jobId, job: job(jobId) }, 202)
+    }
+    const [, jobId, results] = pathname.match(/^\/jobs\/([^/]+)(?:\/(results))?$/) || []
+    if (!jobId || !jobs.has(jobId)) return json({ error: 'Job not found' }, 404)
+    if (!results) return json(job(jobId))
+    return json({
+      jobId,
+      results: jobs.get(jobId)!.map((contact, index) => ({
+        phone: contact.phone,
+        status: 'sent',
+        messageId: `${jobId}-${index}`,
+        timestamp: new Date().toISOString()
+      }))
+    })
+  }
+}
+
+async function sendingFinished(): Promise<void> {
+  while (getActiveCampaignId() !== null) {
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+describe('campaignSender', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'campaign-sender-'))
+  const jobs = new Map<string, BulkContact[]>()
+  const contactIds: number[] = []
+
+  before(async () => {
+    process.env.DATABASE_URL = `sqlite://${path.join(dir, 'test.sqlite')}`
+    await initializeDatabase()
+    for (const phone of ['+12127365000', '+12127365001', '+12127365002', '+12127365003']) {
+      contactIds.push((await run('INSERT INTO contacts (phone_number, name) VALUES (?, ?)', [phone, 'Test'])).lastID)
+    }
+    mock.method(globalThis, 'fetch', fakeWhatsAppServer(jobs))
+  })
+
+  after(async () => {
+    mock.restoreAll()
+    await closeDatabase()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('startCampaign', () => {
+    it('refuses a second start made while the first is still reading the audience', async () => {
+      jobs.clear()
+      const campaign = await createCampaign({ name: 'Double click', message: 'Hello' })
+
+      const first = startCampaign(campaign)
+      await assert.rejects(startCampaign(campaign), { name: 'CampaignSendError', message: 'Another campaign is already sending' })
+
+      assert.equal((await first).total, contactIds.length)
+      await sendingFinished()
+      assert.equal(jobs.size, 1)
+      assert.equal((await getCampaign(campaign.id))!.status, 'completed')
+    })
+
+    it('refuses a campaign another request already moved to sending, and releases the lock', async () => {
+      jobs.clear()
+      const campaign = await createCampaign({ name: 'Stale', message: 'Hello' })
+      await run("UPDATE campaigns SET status = 'sending' WHERE id = ?", [campaign.id])
+
+      await assert.rejects(startCampaign(campaign), { name: 'CampaignSendError', message: 'Campaign is already sending' })
+      assert.equal(getActiveCampaignId(), null)
+      assert.equal(jobs.size, 0)
+    })
+  })
+
+  describe('sendWinner', () => {
+    // A campaign whose variants went to the first two contacts on 'test-job', the second one failing
+    // when testFailed is set
+    async function testedCampaign(name: string, testFailed: boolean): Promise<Campaign> {
+      const campaign = await createCampaign({
+        name,
+        message: 'A',
+        variants: [{ label: 'A', message: 'A', weight: 50 }, { label: 'B', message: 'B', weight: 50 }],
+        winnerTest: { testPercent: 50, waitHours: 1, metric: 'delivered' }
+      })
+      await run(
+        `INSERT INTO messages (campaign_id, contact_id, phone_number, message, status, variant, job_id)
+         VALUES (?, ?, '+12127365000', 'A', 'sent', 0, 'test-job'), (?, ?, '+12127365001', 'B', ?, 1, 'test-job')`,
+        [campaign.id, contactIds[0], campaign.id, contactIds[1], testFailed ? 'failed' : 'sent']
+      )
+      await run("UPDATE campaigns SET status = 'testing', job_id = 'test-job', test_job_id = 'test-job' WHERE id = ?", [campaign.id])
+      return (await getCampaign(campaign.id))!
+    }
+
+    it('completes with errors when only the test phase had failures, so they can be retried', async () => {
+      jobs.clear()
+      const campaign = await testedCampaign('Failed test', true)
+
+      assert.equal((await sendWinner(campaign)).total, 2)
+      await sendingFinished()
+
+      const finished = (await getCampaign(campaign.id))!
+      assert.equal(finished.status, 'completed_with_errors')
+      assert.equal(finished.failed_count, 1)
+      assert.equal(finished.test_job_id, 'test-job')
+      assert.notEqual(finished.job_id, 'test-job')
+    })
+
+    it('completes when neither phase had failures', async () => {
+      jobs.clear()
+      const campaign = await testedCampaign('Clean test', false)
+
+      await sendWinner(campaign)
+      await sendingFinished()
+
+      assert.equal((await getCampaign(campaign.id))!.status, 'completed')
+    })
+  })
+})
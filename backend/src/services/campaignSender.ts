@@ -0,0 +1,558 @@
+import { randomUUID } from 'crypto'
+import { listSendableContacts, notMessagedCondition } from '../models/contacts'
+import {
+  claimCampaignStatus,
+  finalizeCampaign,
+  listCampaignsByStatus,
+  listVariantStats,
+  setCampaignJob,
+  setCampaignWinner,
+  setTestEnd,
+  setTestJob,
+  updateCampaignStatus
+} from '../models/campaigns'
+import {
+  assignMessagesToJob,
+  cancelPendingMessages,
+  countFailedMessages,
+  createMessage,
+  failPendingMessages,
+  listCampaignMessages,
+  resetFailedMessages,
+  updateMessageStatus
+} from '../models/messages'
+import {
+  Campaign,
+  CampaignProgress,
+  CampaignStatus,
+  Contact,
+  Message,
+  MessageStatus,
+  MessageUpdate,
+  ReceiptStatus
+} from '../models/types'
+import { publish } from './events'
+import {
+  BulkContact,
+  BulkJob,
+  controlJob,
+  createBulkJob,
+  getJob,
+  getJobResults,
+  WhatsAppServerError
+} from './whatsappClient'
+import { contactVariables, renderTemplate } from './template'
+import { audienceCondition, AudienceValidationError } from './audiences'
+import { pickWinner, shuffle, splitByWeight } from './variants'
+
+// How long a finished campaign's progress stays available to late subscribers
+const FINISHED_PROGRESS_TTL_MS = 60000
+const JOB_POLL_INTERVAL_MS = 3000
+const HOUR_MS = 60 * 60 * 1000
+// Statuses a campaign can be started (or sent again) from
+const STARTABLE_STATUSES: CampaignStatus[] = ['draft', 'scheduled', 'cancelled', 'completed', 'completed_with_errors', 'failed']
+
+const progressByCampaign = new Map<number, CampaignProgress>()
+let activeCampaignId: number | null = null
+// Jobs of the active campaign being followed, which pause, resume and cancel apply to
+let activeJobIds: string[] = []
+
+// A contact to message and the campaign variant they get, or null for the campaign message
+interface Recipient {
+  contact: Contact
+  variant: number | null
+}
+
+// A bulk job of the campaign and the message rows queued on it, in queue order
+interface CampaignJob {
+  jobId: string
+  messages: Message[]
+}
+
+export class CampaignSendError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message)
+    this.name = 'CampaignSendError'
+  }
+}
+
+export function getCampaignProgress(campaignId: number): CampaignProgress | null {
+  const progress = progressByCampaign.get(campaignId)
+  return progress ? { ...progress } : null
+}
+
+export function listCampaignProgress(): CampaignProgress[] {
+  return Array.from(progressByCampaign.values()).map(progress => ({ ...progress }))
+}
+
+export function getActiveCampaignId(): number | null {
+  return activeCampaignId
+}
+
+function updateProgress(campaignId: number, changes: Partial<CampaignProgress>): void {
+  const progress = progressByCampaign.get(campaignId)
+  if (!progress) return
+
+  Object.assign(progress, changes)
+  const processed = progress.sent + progress.failed + progress.cancelled
+  progress.pending = progress.total - processed
+  progress.percentage = progress.total > 0 ? Math.round((processed / progress.total) * 100) : 0
+  publish({ type: 'campaign', data: { ...progress } })
+}
+
+function finishProgress(campaignId: number, status: CampaignStatus): void {
+  updateProgress(campaignId, { status, isActive: false })
+  // Cleanup only, so it does not hold the process open on shutdown
+  setTimeout(() => {
+    if (progressByCampaign.get(campaignId)?.isActive === false) {
+      progressByCampaign.delete(campaignId)
+    }
+  }, FINISHED_PROGRESS_TTL_MS).unref()
+}
+
+function publishMessage(update: Omit<MessageUpdate, 'timestamp'>): void {
+  publish({ type: 'message', data: { ...update, timestamp: new Date().toISOString() } })
+}
+
+// Queues one message row per contact in the campaign's audience and hands them to whatsapp-server
+// as a single bulk job. The job's queue applies the campaign's throttle settings; we poll it and
+// mirror results back. A campaign with a variant test only messages the test's share of the audience
+// here; sendWinner messages the rest.
+export async function startCampaign(campaign: Campaign): Promise<{ total: number }> {
+  if (activeCampaignId !== null) {
+    throw new CampaignSendError('Another campaign is already sending', 409)
+  }
+  if (campaign.status === 'sending' || campaign.status === 'paused') {
+    throw new CampaignSendError('Campaign is already sending', 409)
+  }
+  if (campaign.status === 'testing') {
+    throw new CampaignSendError('Campaign is testing its variants', 409)
+  }
+
+  // Claimed before the first await, so a second start (a double click, or the scheduler firing
+  // meanwhile) is refused above; the status update then catches a campaign object gone stale
+  activeCampaignId = campaign.id
+  let recipients: Recipient[]
+  try {
+    let audience
+    try {
+      audience = await audienceCondition(campaign.audience)
+    } catch (error) {
+      if (error instanceof AudienceValidationError) throw new CampaignSendError(error.message, 409)
+      throw error
+    }
+    const contacts = await listSendableContacts(audience)
+    if (contacts.length === 0) {
+      throw new CampaignSendError(campaign.audience ? 'No contacts in this audience can be messaged' : 'No contacts available to send to')
+    }
+    if (!await claimCampaignStatus(campaign.id, STARTABLE_STATUSES, 'sending')) {
+      throw new CampaignSendError('Campaign is already sending', 409)
+    }
+    recipients = assignVariants(campaign, contacts)
+  } catch (error) {
+    activeCampaignId = null
+    throw error
+  }
+
+  trackProgress(campaign, recipients.length)
+  runCampaign(campaign, recipients).catch(error => failCampaign(campaign.id, error))
+
+  return { total: recipients.length }
+}
+
+// Ends a campaign's test phase: the variant with the best rate on the test's metric goes to every
+// contact in the audience the test did not message, as a new job
+export async function sendWinner(campaign: Campaign): Promise<{ winner: number, total: number }> {
+  if (activeCampaignId !== null) {
+    throw new CampaignSendError('Another campaign is already sending', 409)
+  }
+  if (campaign.status !== 'testing' || !campaign.variants || !campaign.winner_test) {
+    throw new CampaignSendError('Campaign is not testing variants', 409)
+  }
+
+  // Claimed before the first await, as in startCampaign
+  activeCampaignId = campaign.id
+  let winner: number
+  let contacts: Contact[]
+  try {
+    let audience
+    try {
+      audience = await audienceCondition(campaign.audience)
+    } catch (error) {
+      if (error instanceof AudienceValidationError) throw new CampaignSendError(error.message, 409)
+      throw error
+    }
+    winner = pickWinner(await listVariantStats(campaign, campaign.test_job_id), campaign.winner_test.metric)
+    contacts = await listSendableContacts(notMessagedCondition(campaign.id, audience))
+    if (!await claimCampaignStatus(campaign.id, ['testing'], contacts.length === 0 ? 'completed' : 'sending')) {
+      throw new CampaignSendError('Campaign is not testing variants', 409)
+    }
+    await setCampaignWinner(campaign.id, winner)
+
+    // The test already reached the whole audience
+    if (contacts.length === 0) {
+      await finalizeCampaign(campaign.id, await completedStatus(campaign.id))
+      activeCampaignId = null
+      return { winner, total: 0 }
+    }
+  } catch (error) {
+    activeCampaignId = null
+    throw error
+  }
+
+  const sending = { ...campaign, winner_variant: winner }
+  trackProgress(sending, contacts.length)
+  runCampaign(sending, contacts.map(contact => ({ contact, variant: winner })))
+    .catch(error => failCampaign(campaign.id, error))
+
+  return { winner, total: contacts.length }
+}
+
+// Everyone gets the campaign message, or one of its variants by weight. With a variant test, only a
+// random testPercent of the audience is picked now, though no fewer contacts than there are variants.
+function assignVariants(campaign: Campaign, contacts: Contact[]): Recipient[] {
+  if (!campaign.variants) return contacts.map(contact => ({ contact, variant: null }))
+
+  let sample = shuffle(contacts)
+  if (campaign.winner_test) {
+    const size = Math.ceil(contacts.length * campaign.winner_test.testPercent / 100)
+    sample = sample.slice(0, Math.max(size, campaign.variants.length))
+  }
+  return splitByWeight(sample, campaign.variants).map(({ recipient, variant }) => ({ contact: recipient, variant }))
+}
+
+// The campaign's bulk jobs: the variant test's, if it had one, then the job sending the rest
+function campaignJobIds(campaign: Campaign): string[] {
+  return [...new Set([campaign.test_job_id, campaign.job_id].filter((jobId): jobId is string => jobId !== null))]
+}
+
+// Requeues the failed messages of a finished campaign on the jobs they were queued on (the test's and
+// the winner's) and follows those jobs again. whatsapp-server already retried transient failures
+// automatically; this is the manual second chance.
+export async function retryFailedMessages(campaign: Campaign): Promise<{ total: number }> {
+  if (activeCampaignId !== null) {
+    throw new CampaignSendError('Another campaign is already sending', 409)
+  }
+  if (campaign.status !== 'completed_with_errors' || !campaign.job_id) {
+    throw new CampaignSendError('Only campaigns that completed with errors can retry failed messages', 409)
+  }
+
+  activeCampaignId = campaign.id
+  const retried: string[] = []
+  let total = 0
+  let refusal: WhatsAppServerError | null = null
+  let claimed = false
+  try {
+    claimed = await claimCampaignStatus(campaign.id, ['completed_with_errors'], 'sending')
+    if (!claimed) {
+      throw new CampaignSendError('Only campaigns that completed with errors can retry failed messages', 409)
+    }
+    for (const jobId of campaignJobIds(campaign)) {
+      try {
+        await controlJob(jobId, 'retry')
+      } catch (error) {
+        // A job with nothing to retry refuses; the other may still have failures
+        if (error instanceof WhatsAppServerError && error.statusCode === 409) {
+          refusal = error
+          continue
+        }
+        throw error
+      }
+      retried.push(jobId)
+      total += await resetFailedMessages(campaign.id, jobId)
+    }
+    if (retried.length === 0) {
+      throw new CampaignSendError(refusal?.message || 'No failed messages to retry', 409)
+    }
+  } catch (error) {
+    if (claimed && retried.length === 0) {
+      await updateCampaignStatus(campaign.id, 'completed_with_errors').catch(() => undefined)
+    }
+    activeCampaignId = null
+    throw error
+  }
+
+  const jobs = await listCampaignJobs(campaign, retried)
+  trackProgress(campaign, jobs.reduce((sum, job) => sum + job.messages.length, 0))
+  followJobs(campaign, jobs).catch(error => failCampaign(campaign.id, error))
+
+  return { total }
+}
+
+async function listCampaignJobs(campaign: Campaign, jobIds: string[]): Promise<CampaignJob[]> {
+  const jobs: CampaignJob[] = []
+  for (const jobId of jobIds) {
+    jobs.push({ jobId, messages: await listCampaignMessages(campaign.id, jobId) })
+  }
+  return jobs
+}
+
+export type CampaignAction = 'pause' | 'resume' | 'cancel'
+
+// Pauses, resumes or cancels the sending campaign's jobs. whatsapp-server applies it before its next
+// message; a cancelled campaign is finalized by followJobs once the jobs report they have stopped.
+// A job that already finished refuses the action, which only fails when every job does.
+export async function controlCampaign(campaign: Campaign, action: CampaignAction): Promise<CampaignProgress> {
+  if (activeCampaignId !== campaign.id) {
+    throw new CampaignSendError('Campaign is not sending', 409)
+  }
+  if (activeJobIds.length === 0) {
+    throw new CampaignSendError('Campaign is still being queued; try again shortly', 409)
+  }
+
+  let applied = 0
+  let refusal: WhatsAppServerError | null = null
+  for (const jobId of activeJobIds) {
+    try {
+      await controlJob(jobId, action)
+      applied++
+    } catch (error) {
+      if (error instanceof WhatsAppServerError && error.statusCode === 409) {
+        refusal = error
+        continue
+      }
+      throw error
+    }
+  }
+  if (applied === 0 && refusal) {
+    throw new CampaignSendError(refusal.message, 409)
+  }
+
+  if (action !== 'cancel') {
+    const status: CampaignStatus = action === 'pause' ? 'paused' : 'sending'
+    await updateCampaignStatus(campaign.id, status)
+    updateProgress(campaign.id, { status })
+  }
+  return getCampaignProgress(campaign.id)!
+}
+
+// Picks up campaigns that were sending when the backend last stopped; their jobs kept running in whatsapp-server
+export async function resumeCampaigns(): Promise<void> {
+  const interrupted = [...await listCampaignsByStatus('sending'), ...await listCampaignsByStatus('paused')]
+  for (const campaign of interrupted) {
+    if (!campaign.job_id || activeCampaignId !== null) {
+      console.error(`Campaign ${campaign.id} was interrupted before it could be resumed`)
+      await updateCampaignStatus(campaign.id, 'failed')
+      await failPendingMessages(campaign.id, 'Campaign was interrupted before it could be resumed')
+      continue
+    }
+
+    // A retry may have requeued messages on the test job as well as on the winner's
+    const jobs = (await listCampaignJobs(campaign, campaignJobIds(campaign)))
+      .filter(job => job.jobId === campaign.job_id || job.messages.some(message => message.status === 'pending'))
+    console.log(`Resuming campaign ${campaign.id} (job ${jobs.map(job => job.jobId).join(', ')})`)
+    activeCampaignId = campaign.id
+    trackProgress(campaign, jobs.reduce((sum, job) => sum + job.messages.length, 0))
+    followJobs(campaign, jobs).catch(error => failCampaign(campaign.id, error))
+  }
+}
+
+function trackProgress(campaign: Campaign, total: number): void {
+  progressByCampaign.set(campaign.id, {
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    status: campaign.status === 'paused' ? 'paused' : 'sending',
+    isActive: true,
+    total,
+    sent: 0,
+    failed: 0,
+    cancelled: 0,
+    pending: total,
+    percentage: 0
+  })
+  updateProgress(campaign.id, {})
+}
+
+async function failCampaign(campaignId: number, error: unknown): Promise<void> {
+  console.error(`Campaign ${campaignId} failed:`, error)
+  await updateCampaignStatus(campaignId, 'failed').catch(() => undefined)
+  await failPendingMessages(campaignId, `Campaign failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    .catch(() => undefined)
+  activeCampaignId = null
+  activeJobIds = []
+  finishProgress(campaignId, 'failed')
+}
+
+async function runCampaign(campaign: Campaign, recipients: Recipient[]): Promise<void> {
+  // The campaign message (or variant) is a template; each message row stores the text rendered for its contact
+  const jobId = randomUUID()
+  const messages: Message[] = []
+  const jobContacts: BulkContact[] = []
+  for (const { contact, variant } of recipients) {
+    const template = variant === null ? campaign.message : campaign.variants![variant].message
+    const text = renderTemplate(template, contactVariables(contact))
+    const messageId = await createMessage(campaign.id, contact.id, contact.phone_number, text, variant)
+    messages.push({
+      id: messageId,
+      campaign_id: campaign.id,
+      contact_id: contact.id,
+      phone_number: contact.phone_number,
+      message: text,
+      status: 'pending',
+      sent_at: null,
+      error_message: null,
+      wa_message_id: null,
+      receipt_status: null,
+      delivered_at: null,
+      read_at: null,
+      variant,
+      job_id: jobId,
+      created_at: new Date().toISOString()
+    })
+    jobContacts.push({ phone: contact.phone_number, name: contact.name || undefined, message: text })
+  }
+
+  // The job's id is recorded before the job is created, so a backend that stops in between resumes
+  // the job, or fails the campaign if it was never created, instead of losing track of it
+  await assignMessagesToJob(campaign.id, jobId)
+  await setCampaignJob(campaign.id, jobId)
+  if (campaign.winner_test && campaign.winner_variant === null) {
+    await setTestJob(campaign.id, jobId)
+  }
+  try {
+    await createBulkJob(jobContacts, {
+      jobId,
+      mediaId: campaign.media_id,
+      throttle: campaign.throttle,
+      senders: campaign.senders
+    })
+  } catch (error) {
+    // The request may have failed after whatsapp-server created the job
+    await controlJob(jobId, 'cancel').catch(() => undefined)
+    throw error
+  }
+  await followJobs(campaign, [{ jobId, messages }])
+}
+
+// Follows the campaign's jobs one after another until whatsapp-server has processed or dropped every
+// message on them, then finalizes the campaign; progress counts the messages of all of them
+async function followJobs(campaign: Campaign, jobs: CampaignJob[]): Promise<void> {
+  const statuses = new Map(jobs.flatMap(({ messages }) => messages.map(message => [message.id, message.status])))
+  activeJobIds = jobs.map(job => job.jobId)
+  let cancelled = false
+  for (const { jobId, messages } of jobs) {
+    const job = await followJob(campaign, jobId, messages, statuses)
+    if (job.status === 'cancelled') cancelled = true
+  }
+
+  if (cancelled) {
+    // Results recorded already include the message that was mid-send when the cancel landed
+    await cancelPendingMessages(campaign.id)
+    statuses.forEach((status, id) => {
+      if (status === 'pending') statuses.set(id, 'cancelled')
+    })
+    updateProgress(campaign.id, countStatuses(statuses))
+  }
+
+  const progress = progressByCampaign.get(campaign.id)
+  let finalStatus: CampaignStatus = cancelled ? 'cancelled' : await completedStatus(campaign.id)
+  // Sent variants under test wait for the scheduler to send the winner
+  if (finalStatus !== 'cancelled' && campaign.winner_test && campaign.winner_variant === null) {
+    await setTestEnd(campaign.id, new Date(Date.now() + campaign.winner_test.waitHours * HOUR_MS).toISOString())
+    finalStatus = 'testing'
+  }
+  await finalizeCampaign(campaign.id, finalStatus)
+  console.log(
+    `Campaign ${campaign.id} ${finalStatus === 'cancelled' ? 'cancelled' : finalStatus === 'testing' ? 'sent its variants' : 'completed'}: ` +
+    `${progress?.sent || 0} sent, ${progress?.failed || 0} failed, ${progress?.cancelled || 0} cancelled`
+  )
+
+  activeCampaignId = null
+  activeJobIds = []
+  finishProgress(campaign.id, finalStatus)
+}
+
+// Counts the failures of every job the campaign sent, so a winner send that went through cleanly
+// still leaves its test phase's failures open to a retry
+async function completedStatus(campaignId: number): Promise<CampaignStatus> {
+  return await countFailedMessages(campaignId) > 0 ? 'completed_with_errors' : 'completed'
+}
+
+// Polls one job until it completes or is cancelled, recording each result as it lands and mirroring
+// pauses made while the backend was down
+async function followJob(
+  campaign: Campaign,
+  jobId: string,
+  messages: Message[],
+  statuses: Map<number, MessageStatus>
+): Promise<BulkJob> {
+  let lastProcessed = -1
+  let job: BulkJob
+
+  while (true) {
+    try {
+      job = await getJob(jobId)
+    } catch (error) {
+      // A restarting whatsapp-server keeps the job; only a missing job is fatal
+      if (error instanceof WhatsAppServerError && error.statusCode === 404) throw error
+      console.error(`Could not poll job ${jobId} for campaign ${campaign.id}:`, error instanceof Error ? error.message : error)
+      await delay(JOB_POLL_INTERVAL_MS)
+      continue
+    }
+
+    const processed = job.sent + job.failed
+    if (processed !== lastProcessed) {
+      await recordResults(campaign, jobId, messages, statuses)
+      lastProcessed = processed
+    }
+
+    const status: CampaignStatus = job.status === 'paused' ? 'paused' : 'sending'
+    if (job.status !== 'completed' && job.status !== 'cancelled' && progressByCampaign.get(campaign.id)?.status !== status) {
+      await updateCampaignStatus(campaign.id, status)
+      updateProgress(campaign.id, { status })
+    }
+
+    if (job.status === 'completed' || job.status === 'cancelled') return job
+    await delay(JOB_POLL_INTERVAL_MS)
+  }
+}
+
+// Copies newly finished results from the job onto the campaign's message rows (results follow queue order)
+async function recordResults(
+  campaign: Campaign,
+  jobId: string,
+  messages: Message[],
+  statuses: Map<number, MessageStatus>
+): Promise<void> {
+  const results = await getJobResults(jobId)
+  for (let i = 0; i < results.length && i < messages.length; i++) {
+    const { status: result, error, messageId } = results[i]
+    const message = messages[i]
+    // Receipts beyond 'sent' are already in when the ack beat this poll; later ones come from the receipt sync
+    const status = result === 'failed' ? 'failed' : result === 'pending' || result === 'cancelled' ? null : 'sent'
+    if (!status || statuses.get(message.id) === status) continue
+
+    const reason = status === 'failed' ? error || 'Unknown error' : null
+    if (reason) {
+      console.error(`Failed to send campaign ${campaign.id} message to ${message.phone_number}:`, reason)
+    }
+    await updateMessageStatus(message.id, status, reason || undefined, {
+      waMessageId: messageId,
+      receipt: status === 'sent' ? result as ReceiptStatus : undefined
+    })
+    statuses.set(message.id, status)
+    publishMessage({
+      campaignId: campaign.id,
+      messageId: message.id,
+      contactId: message.contact_id,
+      phone_number: message.phone_number,
+      status,
+      error: reason
+    })
+  }
+
+  updateProgress(campaign.id, countStatuses(statuses))
+}
+
+function countStatuses(statuses: Map<number, MessageStatus>): Pick<CampaignProgress, 'sent' | 'failed' | 'cancelled'> {
+  const counts = Array.from(statuses.values())
+  return {
+    sent: counts.filter(status => status === 'sent').length,
+    failed: counts.filter(status => status === 'failed').length,
+    cancelled: counts.filter(status => status === 'cancelled').length
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
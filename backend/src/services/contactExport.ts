@@ -0,0 +1,173 @@
+import ExcelJS from 'exceljs'
+import { ContactExportFormat, ContactFilter, ExportedContact } from '../models/types'
+import { attributeText } from './template'
+
+const FORMATS: Record<ContactExportFormat, { contentType: string, extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  vcf: { contentType: 'text/vcard; charset=utf-8', extension: 'vcf' }
+}
+
+// Fixed columns of CSV and Excel exports; attributes follow under their own names. The first
+// three match what the importer maps by name, so an export can be imported again as is.
+const COLUMNS: Array<{ header: string, value: (contact: ExportedContact) => string }> = [
+  { header: 'phone_number', value: contact => contact.phone_number },
+  { header: 'name', value: contact => contact.name || '' },
+  { header: 'email', value: contact => contact.email || '' },
+  { header: 'country', value: contact => contact.phone_country || '' },
+  { header: 'phone_type', value: contact => contact.phone_type || '' },
+  { header: 'opted_out', value: contact => (contact.opted_out ? 'yes' : 'no') },
+  // Blank until the number has been checked
+  { header: 'on_whatsapp', value: contact => (contact.whatsapp_registered === null ? '' : contact.whatsapp_registered ? 'yes' : 'no') },
+  { header: 'last_campaign', value: contact => contact.last_campaign || '' },
+  { header: 'created_at', value: contact => contact.created_at }
+]
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+// vCard lines are folded at 75 octets; counting characters keeps multi-byte text a little over, which readers accept
+const VCARD_LINE = 75
+
+export class ContactExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContactExportError'
+  }
+}
+
+export interface ContactExport {
+  body: Buffer
+  contentType: string
+  fileName: string
+}
+
+function parseDate(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === '') return undefined
+  if (typeof value !== 'string' || !DATE.test(value) || isNaN(Date.parse(value))) {
+    throw new ContactExportError(`${name} must be a date in YYYY-MM-DD form`)
+  }
+  return value
+}
+
+function parseId(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined
+  const id = Number(value)
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ContactExportError(`${name} must be an id`)
+  }
+  return id
+}
+
+// Reads the filter from query parameters: optedOut=true|false, lastCampaignId, tagId, search, createdFrom, createdTo
+export function parseContactFilter(query: Record<string, unknown>): ContactFilter {
+  const filter: ContactFilter = {}
+  if (typeof query.search === 'string' && query.search.trim()) {
+    filter.search = query.search.trim()
+  }
+
+  if (query.optedOut !== undefined && query.optedOut !== '') {
+    if (query.optedOut !== 'true' && query.optedOut !== 'false') {
+      throw new ContactExportError('optedOut must be true or false')
+    }
+    filter.optedOut = query.optedOut === 'true'
+  }
+  filter.lastCampaignId = parseId('lastCampaignId', query.lastCampaignId)
+  filter.tagId = parseId('tagId', query.tagId)
+  filter.createdFrom = parseDate('createdFrom', query.createdFrom)
+  filter.createdTo = parseDate('createdTo', query.createdTo)
+  return filter
+}
+
+export function parseExportFormat(value: unknown): ContactExportFormat {
+  if (value === undefined || value === '') return 'csv'
+  if (typeof value !== 'string' || !Object.keys(FORMATS).includes(value)) {
+    throw new ContactExportError(`format must be one of ${Object.keys(FORMATS).join(', ')}`)
+  }
+  return value as ContactExportFormat
+}
+
+// Attribute keys in the order contacts first use them
+function attributeKeys(contacts: ExportedContact[]): string[] {
+  const keys = new Set<string>()
+  for (const contact of contacts) {
+    Object.keys(contact.attributes).forEach(key => keys.add(key))
+  }
+  return [...keys].filter(key => !COLUMNS.some(column => column.header === key))
+}
+
+function toTable(contacts: ExportedContact[]): string[][] {
+  const attributes = attributeKeys(contacts)
+  return [
+    [...COLUMNS.map(column => column.header), ...attributes],
+    ...contacts.map(contact => [
+      ...COLUMNS.map(column => column.value(contact)),
+      ...attributes.map(key => attributeText(contact.attributes[key]))
+    ])
+  ]
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// RFC 4180, with a byte order mark so Excel opens it as UTF-8
+function toCsv(contacts: ExportedContact[]): Buffer {
+  const lines = toTable(contacts).map(row => row.map(csvField).join(','))
+  return Buffer.from(`\ufeff${lines.join('\r\n')}\r\n`, 'utf8')
+}
+
+// Numbers are written as text so Excel neither drops the + nor shows them in scientific notation
+async function toXlsx(contacts: ExportedContact[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  const sheet = workbook.addWorksheet('Contacts')
+  const [header, ...rows] = toTable(contacts)
+  sheet.addRow(header).font = { bold: true }
+  sheet.addRows(rows)
+  sheet.columns.forEach(column => {
+    column.width = 18
+    column.numFmt = '@'
+  })
+  sheet.views = [{ state: 'frozen', ySplit: 1 }]
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+function escapeVcard(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\r?\n/g, '\\n')
+}
+
+function foldVcardLine(line: string): string {
+  const parts = [line.slice(0, VCARD_LINE)]
+  for (let i = VCARD_LINE; i < line.length; i += VCARD_LINE - 1) {
+    parts.push(` ${line.slice(i, i + VCARD_LINE - 1)}`)
+  }
+  return parts.join('\r\n')
+}
+
+// vCard 3.0, which phones and address books import; the name is split at its last space into given and family name
+function toVcard(contacts: ExportedContact[]): Buffer {
+  const cards = contacts.map(contact => {
+    const name = (contact.name || '').trim()
+    const split = name.lastIndexOf(' ')
+    const [given, family] = split === -1 ? [name, ''] : [name.slice(0, split), name.slice(split + 1)]
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${escapeVcard(name || contact.phone_number)}`,
+      `N:${escapeVcard(family)};${escapeVcard(given)};;;`,
+      `TEL;TYPE=CELL:${contact.phone_number}`
+    ]
+    if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeVcard(contact.email)}`)
+    lines.push('END:VCARD')
+    return lines.map(foldVcardLine).join('\r\n')
+  })
+  return Buffer.from(cards.length > 0 ? `${cards.join('\r\n')}\r\n` : '', 'utf8')
+}
+
+export async function exportContacts(contacts: ExportedContact[], format: ContactExportFormat): Promise<ContactExport> {
+  const body = format === 'xlsx' ? await toXlsx(contacts) : format === 'vcf' ? toVcard(contacts) : toCsv(contacts)
+  const date = new Date().toISOString().slice(0, 10)
+  return {
+    body,
+    contentType: FORMATS[format].contentType,
+    fileName: `contacts-${date}.${FORMATS[format].extension}`
+  }
+}
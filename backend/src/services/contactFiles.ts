@@ -0,0 +1,250 @@
+import fs from 'fs'
+import path from 'path'
+import { TextDecoder } from 'util'
+import ExcelJS from 'exceljs'
+import { parseCsv } from './whatsappClient'
+
+// Reads the files contacts are exported in (CSV from spreadsheets, Google and Outlook; Excel
+// workbooks; vCards from phones) into one shape: named columns and rows of text keyed by them
+
+export interface ContactTable {
+  columns: string[]
+  rows: Record<string, string>[]
+}
+
+export class ContactFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContactFileError'
+  }
+}
+
+// Parsed by whatsapp-server, which owns the CSV parser. The first record names the columns. A quoted
+// field that is never closed swallows the rest of the file, so that is reported rather than
+// importing part of it.
+async function readCsvFile(filePath: string): Promise<ContactTable> {
+  const { records, errors } = await parseCsv(await fs.promises.readFile(filePath), path.basename(filePath))
+  if (errors.length > 0) {
+    throw new ContactFileError(`Line ${errors[0].line}: ${errors[0].message}`)
+  }
+  if (records.length === 0) return { columns: [], rows: [] }
+
+  const columns: string[] = []
+  records[0].fields.forEach((header, index) => {
+    columns.push(uniqueColumn(columns, header || `Column ${index + 1}`))
+  })
+  const rows = records.slice(1)
+    .map(record => Object.fromEntries(columns.map((column, index) => [column, record.fields[index] || ''])))
+    .filter(row => Object.values(row).some(Boolean))
+  return { columns, rows }
+}
+
+// The text a cell shows, except numbers: Excel may display a phone number as 4.47912E+11
+function cellText(cell: ExcelJS.Cell): string {
+  const value = cell.value
+  if (typeof value === 'number') return String(value)
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if (value && typeof value === 'object' && 'result' in value) {
+    const result = value.result
+    return result instanceof Date ? result.toISOString().slice(0, 10) : String(result ?? '')
+  }
+  return cell.text.trim()
+}
+
+// The first sheet with data; its first non-empty row names the columns
+async function readXlsxFile(filePath: string): Promise<ContactTable> {
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.readFile(filePath)
+  } catch (error) {
+    throw new ContactFileError('The file is not a readable Excel workbook')
+  }
+
+  const sheet = workbook.worksheets.find(worksheet => worksheet.actualRowCount > 0)
+  if (!sheet) return { columns: [], rows: [] }
+
+  const columns: string[] = []
+  const rows: Record<string, string>[] = []
+  sheet.eachRow(row => {
+    if (columns.length === 0) {
+      for (let index = 1; index <= row.cellCount; index++) {
+        columns.push(uniqueColumn(columns, cellText(row.getCell(index)) || `Column ${index}`))
+      }
+      return
+    }
+
+    const record: Record<string, string> = {}
+    columns.forEach((column, index) => {
+      record[column] = cellText(row.getCell(index + 1))
+    })
+    if (Object.values(record).some(Boolean)) rows.push(record)
+  })
+  return { columns, rows }
+}
+
+// Repeated headers get a number so no column overwrites another
+function uniqueColumn(columns: string[], name: string): string {
+  let unique = name
+  for (let n = 2; columns.includes(unique); n++) unique = `${name} (${n})`
+  return unique
+}
+
+// Byte order marks first (some phones export UTF-16), then strict UTF-8, falling back to Latin-1,
+// which older vCard 2.1 exports without a CHARSET use
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8')
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le')
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    const swapped = Buffer.from(buffer.subarray(2, buffer.length - (buffer.length % 2)))
+    return swapped.swap16().toString('utf16le')
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch (error) {
+    return buffer.toString('latin1')
+  }
+}
+
+interface VcardProperty {
+  name: string
+  params: string[]
+  value: string
+}
+
+const VCARD_COLUMNS = ['Name', 'First Name', 'Last Name', 'Phone', 'Other Phones', 'Email', 'Organization', 'Title', 'Birthday', 'Note']
+
+function isQuotedPrintable(line: string): boolean {
+  return /QUOTED-PRINTABLE/i.test(line.slice(0, line.indexOf(':')))
+}
+
+// Folded lines continue with a space or tab; vCard 2.1 quoted-printable values end lines with "=" instead
+function unfoldVcard(text: string): string[] {
+  const lines: string[] = []
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    const last = lines.length - 1
+    if (last >= 0 && isQuotedPrintable(lines[last]) && lines[last].endsWith('=')) {
+      lines[last] = lines[last].slice(0, -1) + line
+    } else if (last >= 0 && /^[ \t]/.test(line)) {
+      lines[last] += line.slice(1)
+    } else {
+      lines.push(line)
+    }
+  }
+  return lines
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = []
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16))
+      i += 2
+    } else {
+      bytes.push(value.charCodeAt(i))
+    }
+  }
+  return Buffer.from(bytes).toString('utf8')
+}
+
+function unescapeVcard(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_match, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch))
+}
+
+// "item1.TEL;TYPE=CELL,pref:+44..." -> TEL, [CELL, PREF], "+44..."
+function parseVcardLine(line: string): VcardProperty | null {
+  const colon = line.indexOf(':')
+  if (colon === -1) return null
+  const [name, ...params] = line.slice(0, colon).split(';')
+  let value = line.slice(colon + 1)
+  if (isQuotedPrintable(line)) value = decodeQuotedPrintable(value)
+  return {
+    name: name.replace(/^.*\./, '').toUpperCase(),
+    params: params.flatMap(param => param.toUpperCase().replace(/^TYPE=/, '').split(',')),
+    value
+  }
+}
+
+// The number to message: a preferred mobile, then any mobile, then the preferred, then the first
+function pickPhone(phones: VcardProperty[]): VcardProperty | undefined {
+  const isMobile = (phone: VcardProperty) => phone.params.includes('CELL')
+  const isPreferred = (phone: VcardProperty) => phone.params.includes('PREF') || phone.params.includes('PREF=1')
+  return phones.find(phone => isMobile(phone) && isPreferred(phone))
+    || phones.find(isMobile)
+    || phones.find(isPreferred)
+    || phones[0]
+}
+
+function vcardToRow(properties: VcardProperty[]): Record<string, string> {
+  const first = (name: string) => properties.find(property => property.name === name)
+  const text = (name: string) => unescapeVcard(first(name)?.value || '').trim()
+
+  const [lastName = '', firstName = ''] = (first('N')?.value || '').split(/(?<!\\);/).map(part => unescapeVcard(part).trim())
+  const phones = properties.filter(property => property.name === 'TEL' && property.value.trim())
+  const phone = pickPhone(phones)
+
+  return {
+    'Name': text('FN') || [firstName, lastName].filter(Boolean).join(' '),
+    'First Name': firstName,
+    'Last Name': lastName,
+    'Phone': phone ? phone.value.replace(/^tel:/i, '').trim() : '',
+    'Other Phones': phones.filter(other => other !== phone).map(other => other.value.replace(/^tel:/i, '').trim()).join(', '),
+    'Email': text('EMAIL'),
+    'Organization': (first('ORG')?.value || '').split(/(?<!\\);/).map(unescapeVcard).filter(Boolean).join(', '),
+    'Title': text('TITLE'),
+    'Birthday': text('BDAY'),
+    'Note': text('NOTE')
+  }
+}
+
+// One row per card; columns nothing was found for are left out, except the phone
+async function readVcardFile(filePath: string): Promise<ContactTable> {
+  const rows: Record<string, string>[] = []
+  let card: VcardProperty[] | null = null
+
+  for (const line of unfoldVcard(decodeText(fs.readFileSync(filePath)))) {
+    const property = parseVcardLine(line.trim())
+    if (!property) continue
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VCARD') {
+      card = []
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VCARD') {
+      if (card) rows.push(vcardToRow(card))
+      card = null
+    } else if (card) {
+      card.push(property)
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new ContactFileError('The file has no vCards in it')
+  }
+  const columns = VCARD_COLUMNS.filter(column => column === 'Phone' || rows.some(row => row[column]))
+  return {
+    columns,
+    rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row[column]])))
+  }
+}
+
+const READERS: Record<string, (filePath: string) => Promise<ContactTable>> = {
+  '.csv': readCsvFile,
+  '.txt': readCsvFile,
+  '.xlsx': readXlsxFile,
+  '.vcf': readVcardFile,
+  '.vcard': readVcardFile
+}
+
+export const CONTACT_FILE_EXTENSIONS = Object.keys(READERS)
+
+// Picks the reader by the uploaded file's name, since uploads are stored without an extension
+export function readContactFile(filePath: string, fileName: string): Promise<ContactTable> {
+  const extension = path.extname(fileName).toLowerCase()
+  const reader = READERS[extension]
+  if (!reader) {
+    const hint = extension === '.xls' ? ' Save old .xls workbooks as .xlsx first.' : ''
+    throw new ContactFileError(`Unsupported file type ${extension || 'without an extension'}: upload a CSV, Excel (.xlsx) or vCard (.vcf) file.${hint}`)
+  }
+  return reader(filePath)
+}
@@ -0,0 +1,324 @@
+import { CountryCode } from 'libphonenumber-js/max'
+import { getContactByPhone, insertContactIfNew, updateContact } from '../models/contacts'
+import { listImportMappings, saveImportMapping } from '../models/importMappings'
+import { listCustomFields } from '../models/customFields'
+import {
+  AttributeValue,
+  ColumnMapping,
+  ColumnTarget,
+  ContactField,
+  ContactImportPreview,
+  ContactMerge,
+  ContactUploadResult,
+  CustomField,
+  DuplicateStrategy,
+  ImportedContact,
+  ImportMapping,
+  NewContact
+} from '../models/types'
+import { readContactFile } from './contactFiles'
+import { coerceValue, CustomFieldError } from './customFields'
+import { normalizePhone } from './phone'
+import { normalizeVariableName } from './template'
+
+const CONTACT_FIELDS: ContactField[] = ['phone_number', 'name', 'first_name', 'last_name', 'email']
+
+// Normalized column names each field is guessed from, in order of preference
+const GUESSES: Record<ContactField, string[]> = {
+  phone_number: [
+    'phone_number', 'phone', 'number', 'mobile', 'mobile_number', 'whatsapp', 'whatsapp_number', 'cell',
+    // Outlook, then Google Contacts ("Phone 1 - Value"), then other address books
+    'mobile_phone', 'primary_phone', 'phone_1_value', 'telephone', 'home_phone', 'business_phone'
+  ],
+  name: ['name', 'full_name', 'contact_name', 'display_name'],
+  first_name: ['first_name', 'firstname', 'given_name'],
+  last_name: ['last_name', 'lastname', 'surname', 'family_name'],
+  email: ['email', 'email_address', 'e_mail', 'e_mail_address', 'e_mail_1_value']
+}
+
+const DUPLICATE_STRATEGIES: DuplicateStrategy[] = ['keep_existing', 'overwrite', 'fill_blanks']
+
+const SAMPLE_ROWS = 5
+const MAX_MAPPING_NAME = 64
+
+export class ContactImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContactImportError'
+  }
+}
+
+// Contact fields from well-known column names; every other column becomes an attribute (the custom
+// field it is named after, by key or label), except further phone columns, which would only
+// duplicate the number
+export function guessMapping(columns: string[], fields: CustomField[] = []): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const names = columns.map(normalizeVariableName)
+
+  for (const field of CONTACT_FIELDS) {
+    for (const guess of GUESSES[field]) {
+      const index = names.indexOf(guess)
+      if (index !== -1 && !mapping[columns[index]]) {
+        mapping[columns[index]] = { field }
+        break
+      }
+    }
+  }
+
+  columns.forEach((column, index) => {
+    if (mapping[column] || GUESSES.phone_number.includes(names[index]) || !names[index]) return
+    const field = fields.find(candidate => normalizeVariableName(candidate.label) === names[index])
+    mapping[column] = { attribute: field ? field.key : names[index] }
+  })
+  return mapping
+}
+
+function parseTarget(column: string, input: unknown): ColumnTarget {
+  const target = input as Partial<{ field: unknown, attribute: unknown }> | null
+  if (!target || typeof target !== 'object') {
+    throw new ContactImportError(`Column "${column}" has no target`)
+  }
+  if (target.field !== undefined) {
+    if (!CONTACT_FIELDS.includes(target.field as ContactField)) {
+      throw new ContactImportError(`Column "${column}" maps to unknown field ${String(target.field)}`)
+    }
+    return { field: target.field as ContactField }
+  }
+  if (typeof target.attribute === 'string') {
+    const attribute = normalizeVariableName(target.attribute)
+    if (!attribute) {
+      throw new ContactImportError(`Column "${column}" needs an attribute name`)
+    }
+    return { attribute }
+  }
+  throw new ContactImportError(`Column "${column}" must map to a field or an attribute`)
+}
+
+// Checks a mapping, given as an object or its JSON, against the columns of the file it is for:
+// exactly one phone column, no field or attribute filled twice
+export function parseMapping(input: unknown, columns: string[]): ColumnMapping {
+  let value = input
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input)
+    } catch (error) {
+      throw new ContactImportError('mapping must be valid JSON')
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ContactImportError('mapping must be an object keyed by column')
+  }
+
+  const mapping: ColumnMapping = {}
+  const filled = new Set<string>()
+  for (const [column, target] of Object.entries(value as Record<string, unknown>)) {
+    if (!columns.includes(column)) {
+      throw new ContactImportError(`Column "${column}" is not in the file`)
+    }
+    const parsed = parseTarget(column, target)
+    const key = 'field' in parsed ? `field:${parsed.field}` : `attribute:${parsed.attribute}`
+    if (filled.has(key)) {
+      const what = 'field' in parsed ? `The ${parsed.field} field` : `Attribute ${parsed.attribute}`
+      throw new ContactImportError(`${what} is mapped from more than one column`)
+    }
+    filled.add(key)
+    mapping[column] = parsed
+  }
+
+  if (!filled.has('field:phone_number')) {
+    throw new ContactImportError('One column must be mapped to the phone number')
+  }
+  return mapping
+}
+
+// Turns rows into contacts per the mapping, typing values of custom fields; rows without a usable
+// number or with a value its field cannot take are reported by their 1-based position among the data rows
+export function mapRows(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  country: CountryCode,
+  customFields: CustomField[] = []
+): { contacts: ImportedContact[], errors: string[] } {
+  const contacts: ImportedContact[] = []
+  const errors: string[] = []
+  const entries = Object.entries(mapping)
+
+  rows.forEach((row, index) => {
+    const fields: Partial<Record<ContactField, string>> = {}
+    const attributes: Record<string, AttributeValue> = {}
+    for (const [column, target] of entries) {
+      const value = (row[column] || '').trim()
+      if (!value) continue
+      if ('field' in target) {
+        fields[target.field] = value
+        continue
+      }
+      const field = customFields.find(candidate => candidate.key === target.attribute)
+      try {
+        attributes[target.attribute] = field ? coerceValue(field, value)! : value
+      } catch (error) {
+        if (!(error instanceof CustomFieldError)) throw error
+        errors.push(`Row ${index + 1}: ${error.message}`)
+        return
+      }
+    }
+
+    if (!fields.phone_number) {
+      errors.push(`Row ${index + 1}: Missing phone number`)
+      return
+    }
+
+    let phone
+    try {
+      // Google Contacts puts every number of a kind in one cell, separated by " ::: "
+      phone = normalizePhone(fields.phone_number.split(':::')[0], country)
+    } catch (error) {
+      errors.push(`Row ${index + 1}: ${(error as Error).message}`)
+      return
+    }
+
+    contacts.push({
+      phone_number: phone.e164,
+      phone_original: phone.original,
+      phone_country: phone.country,
+      phone_type: phone.type,
+      name: fields.name || [fields.first_name, fields.last_name].filter(Boolean).join(' '),
+      email: fields.email || null,
+      attributes,
+      row: index + 1
+    })
+  })
+
+  return { contacts, errors }
+}
+
+// The "duplicates" field of an upload; keeping the stored contact when it is omitted
+export function parseDuplicateStrategy(input: unknown): DuplicateStrategy {
+  if (input === undefined || input === '') return 'keep_existing'
+  if (!DUPLICATE_STRATEGIES.includes(input as DuplicateStrategy)) {
+    throw new ContactImportError(`Duplicate strategy must be one of ${DUPLICATE_STRATEGIES.join(', ')}`)
+  }
+  return input as DuplicateStrategy
+}
+
+const isBlank = (value: AttributeValue | null | undefined): boolean =>
+  value === undefined || value === null || value === ''
+
+// Applies a later row for the same number to a contact; an empty cell never clears a value.
+// changed lists the contact fields and attribute keys that were set.
+function mergeContact(
+  current: NewContact,
+  incoming: NewContact,
+  strategy: DuplicateStrategy
+): { contact: NewContact, changed: string[] } {
+  if (strategy === 'keep_existing') return { contact: current, changed: [] }
+
+  const takes = (currentValue: AttributeValue | null | undefined, incomingValue: AttributeValue | null | undefined) =>
+    !isBlank(incomingValue) && (strategy === 'overwrite' ? currentValue !== incomingValue : isBlank(currentValue))
+  const contact: NewContact = { ...current, attributes: { ...current.attributes } }
+  const changed: string[] = []
+
+  if (takes(current.name, incoming.name)) {
+    contact.name = incoming.name
+    changed.push('name')
+  }
+  if (takes(current.email, incoming.email)) {
+    contact.email = incoming.email
+    changed.push('email')
+  }
+  for (const [key, value] of Object.entries(incoming.attributes || {})) {
+    if (takes(current.attributes?.[key], value)) {
+      contact.attributes![key] = value
+      changed.push(key)
+    }
+  }
+  if (changed.length > 0 && strategy === 'overwrite' && incoming.phone_original) {
+    contact.phone_original = incoming.phone_original
+  }
+  return { contact, changed }
+}
+
+// Stores mapped rows, one contact per number: rows repeating a number are merged into its first row,
+// and a number that is already a contact is merged into it, both as the strategy says
+export async function importContacts(
+  contacts: ImportedContact[],
+  strategy: DuplicateStrategy
+): Promise<Pick<ContactUploadResult, 'inserted' | 'updated' | 'skipped' | 'duplicates' | 'merges'>> {
+  const byNumber = new Map<string, { contact: NewContact, rows: number[], changed: Set<string> }>()
+  for (const { row, ...contact } of contacts) {
+    const seen = byNumber.get(contact.phone_number)
+    if (!seen) {
+      byNumber.set(contact.phone_number, { contact, rows: [row], changed: new Set() })
+      continue
+    }
+    const merged = mergeContact(seen.contact, contact, strategy)
+    seen.contact = merged.contact
+    seen.rows.push(row)
+    merged.changed.forEach(key => seen.changed.add(key))
+  }
+
+  let inserted = 0
+  let updated = 0
+  let skipped = 0
+  const merges: ContactMerge[] = []
+  for (const [phone, { contact, rows, changed }] of byNumber) {
+    const existing = await getContactByPhone(phone)
+    if (!existing && (await insertContactIfNew(contact))) {
+      inserted++
+      if (rows.length > 1) merges.push({ phone_number: phone, rows, existing: false, changed: [...changed] })
+      continue
+    }
+
+    // Stored since the lookup, by a send or another import running alongside
+    const stored = existing || (await getContactByPhone(phone))!
+    const merged = mergeContact(stored, contact, strategy)
+    if (merged.changed.length > 0) {
+      await updateContact(stored.id, merged.contact)
+      updated++
+    } else {
+      skipped++
+    }
+    merges.push({ phone_number: phone, rows, existing: true, changed: merged.changed })
+  }
+
+  return { inserted, updated, skipped, duplicates: contacts.length - byNumber.size, merges }
+}
+
+// The saved mapping that uses the most of the file's columns; ties go to the most recently saved.
+// One naming a column the file lacks was made for another layout, so is not offered.
+function bestSavedMapping(columns: string[], saved: ImportMapping[]): ImportMapping | null {
+  let best: ImportMapping | null = null
+  let bestCount = 0
+  for (const candidate of saved) {
+    const mapped = Object.keys(candidate.mapping)
+    if (mapped.length <= bestCount || !mapped.every(column => columns.includes(column))) continue
+    if (!Object.values(candidate.mapping).some(target => 'field' in target && target.field === 'phone_number')) continue
+    best = candidate
+    bestCount = mapped.length
+  }
+  return best
+}
+
+export async function previewImport(filePath: string, fileName: string): Promise<ContactImportPreview> {
+  const { columns, rows } = await readContactFile(filePath, fileName)
+  if (columns.length === 0) {
+    throw new ContactImportError('The file has no header row')
+  }
+
+  const saved = bestSavedMapping(columns, await listImportMappings())
+  return {
+    columns,
+    sample: rows.slice(0, SAMPLE_ROWS),
+    totalRows: rows.length,
+    mapping: saved ? saved.mapping : guessMapping(columns, await listCustomFields()),
+    savedMapping: saved && { id: saved.id, name: saved.name }
+  }
+}
+
+export async function saveMapping(name: unknown, columns: string[], mapping: ColumnMapping): Promise<ImportMapping> {
+  const trimmed = typeof name === 'string' ? name.trim() : ''
+  if (!trimmed || trimmed.length > MAX_MAPPING_NAME) {
+    throw new ContactImportError(`Mapping name must be 1 to ${MAX_MAPPING_NAME} characters`)
+  }
+  return saveImportMapping(trimmed, columns, mapping)
+}
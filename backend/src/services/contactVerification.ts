@@ -0,0 +1,137 @@
+import { listNumbersToVerify, recordWhatsAppCheck } from '../models/contacts'
+import { getSetting, setSetting } from '../models/settings'
+import { VerificationProgress } from '../models/types'
+import { publish } from './events'
+import { createVerification, getVerification, getVerificationResults, Verification, WhatsAppServerError } from './whatsappClient'
+
+// whatsapp-server looks the numbers up in spaced-out batches; we follow its verification and copy
+// each outcome onto the contact, so campaigns can leave out numbers without WhatsApp up front
+const VERIFICATION_POLL_INTERVAL_MS = 5000
+const RESULT_BATCH_SIZE = 500
+// Numbers checked more recently than this are skipped unless every number is asked for
+const RECHECK_AFTER_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+// The verification being followed and the last result applied, so a restart carries on from there
+const VERIFICATION_SETTING = 'whatsapp_verification'
+
+interface VerificationState {
+  verificationId: string
+  cursor: number
+}
+
+let progress: VerificationProgress | null = null
+let following = false
+
+export class VerificationError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message)
+    this.name = 'VerificationError'
+  }
+}
+
+export function getVerificationProgress(): VerificationProgress | null {
+  return progress ? { ...progress } : null
+}
+
+// Checks the numbers not checked in the last RECHECK_AFTER_DAYS days, or every number when `all` is set
+export async function startVerification(all: boolean): Promise<VerificationProgress> {
+  if (following) {
+    throw new VerificationError('Numbers are already being checked', 409)
+  }
+
+  following = true
+  try {
+    const checkedBefore = all ? null : new Date(Date.now() - RECHECK_AFTER_DAYS * DAY_MS).toISOString()
+    const phones = await listNumbersToVerify(checkedBefore)
+    if (phones.length === 0) {
+      throw new VerificationError(all ? 'There are no contacts to check' : `Every number was checked in the last ${RECHECK_AFTER_DAYS} days`)
+    }
+
+    const verification = await createVerification(phones)
+    await setSetting(VERIFICATION_SETTING, { verificationId: verification.id, cursor: 0 })
+    updateProgress(verification)
+    followVerification(verification.id, 0).catch(failVerification)
+    return getVerificationProgress()!
+  } catch (error) {
+    following = false
+    throw error
+  }
+}
+
+// Picks up a check that was running when the backend last stopped; whatsapp-server kept working on it
+export async function resumeVerification(): Promise<void> {
+  const state = await getSetting<VerificationState | null>(VERIFICATION_SETTING, null)
+  if (!state || following) return
+
+  console.log(`Resuming WhatsApp number check ${state.verificationId}`)
+  following = true
+  followVerification(state.verificationId, state.cursor).catch(failVerification)
+}
+
+function updateProgress(verification: Verification): void {
+  progress = {
+    verificationId: verification.id,
+    isActive: verification.status === 'running',
+    total: verification.total,
+    checked: verification.total - verification.pending,
+    registered: verification.registered,
+    unregistered: verification.unregistered,
+    failed: verification.failed,
+    // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+    startedAt: new Date(verification.createdAt.replace(' ', 'T') + 'Z').toISOString(),
+    completedAt: verification.completedAt
+  }
+  publish({ type: 'verification', data: { ...progress } })
+}
+
+async function failVerification(error: unknown): Promise<void> {
+  console.error('WhatsApp number check failed:', error)
+  following = false
+  if (progress) {
+    progress = { ...progress, isActive: false }
+    publish({ type: 'verification', data: { ...progress } })
+  }
+  await setSetting(VERIFICATION_SETTING, null).catch(() => undefined)
+}
+
+// Polls until every number is checked, applying outcomes as they land. A failed lookup leaves the
+// contact's previous status, as it says nothing about the number.
+async function followVerification(verificationId: string, cursor: number): Promise<void> {
+  while (true) {
+    let verification: Verification
+    try {
+      // Read before the results, so a completed verification's results are all applied below
+      verification = await getVerification(verificationId)
+
+      let results
+      do {
+        results = await getVerificationResults(verificationId, cursor, RESULT_BATCH_SIZE)
+        for (const result of results) {
+          if (result.registered !== null) await recordWhatsAppCheck(result.phone, result.registered, result.checkedAt)
+        }
+        if (results.length > 0) {
+          cursor = results[results.length - 1].id
+          await setSetting(VERIFICATION_SETTING, { verificationId, cursor })
+        }
+      } while (results.length === RESULT_BATCH_SIZE)
+    } catch (error) {
+      // A restarting whatsapp-server keeps the verification; only a missing one is fatal
+      if (error instanceof WhatsAppServerError && error.statusCode === 404) throw error
+      console.error(`Could not poll number check ${verificationId}:`, error instanceof Error ? error.message : error)
+      await delay(VERIFICATION_POLL_INTERVAL_MS)
+      continue
+    }
+
+    updateProgress(verification)
+    if (verification.status === 'completed') break
+    await delay(VERIFICATION_POLL_INTERVAL_MS)
+  }
+
+  await setSetting(VERIFICATION_SETTING, null)
+  following = false
+  console.log(`WhatsApp number check ${verificationId} finished`)
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
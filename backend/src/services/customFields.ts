@@ -0,0 +1,166 @@
+import { listContactsWithAttribute, updateContactAttributes } from '../models/contacts'
+import { AttributeValue, CustomField, CustomFieldType } from '../models/types'
+import { normalizeVariableName } from './template'
+
+const TYPES: CustomFieldType[] = ['text', 'number', 'date', 'boolean', 'enum']
+// Template variables every contact has; a custom field may not shadow them
+const RESERVED_KEYS = ['name', 'first_name', 'last_name', 'phone', 'phone_number', 'email']
+const KEY = /^[a-z0-9_.]+$/
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on']
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off']
+const MAX_LABEL_LENGTH = 64
+const MAX_OPTIONS = 50
+const MAX_TEXT_LENGTH = 1000
+
+export class CustomFieldError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CustomFieldError'
+  }
+}
+
+export function parseFieldLabel(value: unknown): string {
+  const label = typeof value === 'string' ? value.trim() : ''
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    throw new CustomFieldError(`Field label must be 1 to ${MAX_LABEL_LENGTH} characters`)
+  }
+  return label
+}
+
+// The key defaults to the label in template variable form ("Signup date" becomes signup_date)
+export function parseFieldKey(value: unknown, label: string): string {
+  const key = normalizeVariableName(typeof value === 'string' && value.trim() ? value : label)
+  if (!KEY.test(key)) {
+    throw new CustomFieldError('Field key may only use letters, digits, underscores and dots')
+  }
+  if (RESERVED_KEYS.includes(key)) {
+    throw new CustomFieldError(`${key} is a built-in contact field`)
+  }
+  return key
+}
+
+export function parseFieldType(value: unknown): CustomFieldType {
+  if (!TYPES.includes(value as CustomFieldType)) {
+    throw new CustomFieldError(`Field type must be one of ${TYPES.join(', ')}`)
+  }
+  return value as CustomFieldType
+}
+
+// Enum options as an array or a comma-separated string; other types have none
+export function parseFieldOptions(type: CustomFieldType, value: unknown): string[] {
+  if (type !== 'enum') return []
+  const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : []
+  const options: string[] = []
+  for (const item of items) {
+    const option = String(item).trim()
+    if (option && !options.some(existing => existing.toLowerCase() === option.toLowerCase())) {
+      options.push(option)
+    }
+  }
+  if (options.length === 0 || options.length > MAX_OPTIONS) {
+    throw new CustomFieldError(`An enum field needs 1 to ${MAX_OPTIONS} options`)
+  }
+  return options
+}
+
+function toDate(text: string): string | null {
+  if (DATE.test(text)) return isNaN(Date.parse(text)) ? null : text
+  // Full ISO timestamps keep their date; other formats are read as local dates
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text) && !isNaN(Date.parse(text))) return text.slice(0, 10)
+  const date = new Date(text)
+  if (isNaN(date.getTime())) return null
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// The value as the field stores it, or null for an empty one; throws when it does not fit the type
+export function coerceValue(field: CustomField, value: unknown): AttributeValue | null {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'boolean' && field.type === 'boolean') return value
+  if (typeof value === 'number' && field.type === 'number') {
+    if (!isFinite(value)) throw new CustomFieldError(`${field.label} must be a number`)
+    return value
+  }
+
+  const text = String(value).trim()
+  if (!text) return null
+
+  switch (field.type) {
+    case 'text':
+      if (text.length > MAX_TEXT_LENGTH) {
+        throw new CustomFieldError(`${field.label} must be at most ${MAX_TEXT_LENGTH} characters`)
+      }
+      return text
+    case 'number': {
+      // Thousands separators and spaces are dropped; the decimal separator is a point
+      const number = Number(text.replace(/[\s,]/g, ''))
+      if (!isFinite(number)) throw new CustomFieldError(`${field.label} must be a number, not "${text}"`)
+      return number
+    }
+    case 'date': {
+      const date = toDate(text)
+      if (!date) throw new CustomFieldError(`${field.label} must be a date, not "${text}"`)
+      return date
+    }
+    case 'boolean': {
+      const word = text.toLowerCase()
+      if (TRUE_WORDS.includes(word)) return true
+      if (FALSE_WORDS.includes(word)) return false
+      throw new CustomFieldError(`${field.label} must be yes or no, not "${text}"`)
+    }
+    case 'enum': {
+      const option = field.options.find(candidate => candidate.toLowerCase() === text.toLowerCase())
+      if (!option) throw new CustomFieldError(`${field.label} must be one of ${field.options.join(', ')}, not "${text}"`)
+      return option
+    }
+  }
+}
+
+// Applies attribute changes (an object keyed by attribute name) to a contact's attributes. Values of
+// defined fields are typed; other attributes are kept as text. Empty or null values remove the attribute.
+export function applyAttributes(
+  current: Record<string, AttributeValue>,
+  changes: unknown,
+  fields: CustomField[]
+): Record<string, AttributeValue> {
+  if (changes === undefined || changes === null) return current
+  if (typeof changes !== 'object' || Array.isArray(changes)) {
+    throw new CustomFieldError('attributes must be an object keyed by field')
+  }
+
+  const attributes = { ...current }
+  for (const [name, value] of Object.entries(changes as Record<string, unknown>)) {
+    const key = normalizeVariableName(name)
+    if (!key) continue
+    const field = fields.find(candidate => candidate.key === key)
+    const coerced = field ? coerceValue(field, value) : value === null || String(value).trim() === '' ? null : String(value).trim()
+    if (coerced === null) delete attributes[key]
+    else attributes[key] = coerced
+  }
+  return attributes
+}
+
+// Rewrites the values contacts already have under a field's key in its type. Values that do not
+// fit are left as they are and counted.
+export async function retypeValues(field: CustomField): Promise<{ converted: number, invalid: number }> {
+  let converted = 0
+  let invalid = 0
+  for (const contact of await listContactsWithAttribute(field.key)) {
+    const current = contact.attributes[field.key]
+    let value: AttributeValue | null
+    try {
+      value = coerceValue(field, current)
+    } catch (error) {
+      invalid++
+      continue
+    }
+    if (value === current) continue
+    const attributes = { ...contact.attributes }
+    if (value === null) delete attributes[field.key]
+    else attributes[field.key] = value
+    await updateContactAttributes(contact.id, attributes)
+    converted++
+  }
+  return { converted, invalid }
+}
@@ -0,0 +1,33 @@
+import { EventEmitter } from 'events'
+import {
+  CampaignProgress,
+  InboxMessage,
+  MessageUpdate,
+  ReceiptUpdate,
+  SystemStatus,
+  VerificationProgress
+} from '../models/types'
+
+// Events pushed to dashboard subscribers over /api/events
+export type ServerEvent =
+  | { type: 'campaign', data: CampaignProgress }
+  | { type: 'message', data: MessageUpdate }
+  | { type: 'status', data: SystemStatus }
+  | { type: 'receipts', data: ReceiptUpdate }
+  | { type: 'inbox', data: InboxMessage }
+  | { type: 'verification', data: VerificationProgress }
+
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0)
+
+export function publish(event: ServerEvent): void {
+  emitter.emit('event', event)
+}
+
+// Returns an unsubscribe function
+export function subscribe(listener: (event: ServerEvent) => void): () => void {
+  emitter.on('event', listener)
+  return () => {
+    emitter.off('event', listener)
+  }
+}
@@ -0,0 +1,72 @@
+import { findContactByWhatsAppNumber } from '../models/contacts'
+import { latestInboundId, saveInboundMessage } from '../models/inbox'
+import { findRepliedCampaignId } from '../models/messages'
+import { publish } from './events'
+import { matchOptOutKeyword, suppressNumber } from './suppressions'
+import { getInbound, InboundMessage } from './whatsappClient'
+
+// Replies are pulled from whatsapp-server's inbound feed, which keeps them across restarts of either side
+const INBOX_SYNC_INTERVAL_MS = 5000
+const INBOX_BATCH_SIZE = 200
+
+let timer: NodeJS.Timeout | null = null
+let syncing = false
+// Feed position of the last message stored; undefined until read back from the database
+let cursor: number | undefined
+
+export function startInboxSync(): void {
+  if (timer) return
+  timer = setInterval(syncInbox, INBOX_SYNC_INTERVAL_MS)
+  syncInbox()
+}
+
+export function stopInboxSync(): void {
+  if (timer) clearInterval(timer)
+  timer = null
+}
+
+async function storeInbound(inbound: InboundMessage): Promise<void> {
+  const contact = await findContactByWhatsAppNumber(inbound.phone)
+  const campaignId = await findRepliedCampaignId(contact?.id ?? null, inbound.quotedMessageId, inbound.receivedAt)
+  const message = await saveInboundMessage({
+    phone_number: inbound.phone,
+    contact_id: contact?.id ?? null,
+    campaign_id: campaignId,
+    body: inbound.body,
+    type: inbound.type,
+    sender_name: inbound.name,
+    wa_message_id: inbound.messageId,
+    inbound_id: inbound.id,
+    session_id: inbound.sessionId,
+    created_at: inbound.receivedAt
+  })
+  if (!message) return
+
+  const keyword = await matchOptOutKeyword(inbound.body)
+  if (keyword && await suppressNumber(inbound.phone, 'keyword', keyword)) {
+    console.log(`${inbound.phone} opted out by replying "${inbound.body.trim()}"`)
+  }
+  publish({ type: 'inbox', data: message })
+}
+
+async function syncInbox(): Promise<void> {
+  if (syncing) return
+  syncing = true
+
+  try {
+    if (cursor === undefined) cursor = await latestInboundId()
+
+    let messages
+    do {
+      messages = await getInbound(cursor, INBOX_BATCH_SIZE)
+      for (const inbound of messages) {
+        await storeInbound(inbound)
+        cursor = inbound.id
+      }
+    } while (messages.length === INBOX_BATCH_SIZE)
+  } catch (error) {
+    console.error('Error syncing inbound messages:', error instanceof Error ? error.message : error)
+  } finally {
+    syncing = false
+  }
+}
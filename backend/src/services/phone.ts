@@ -0,0 +1,104 @@
+import { CountryCode, getCountries, getCountryCallingCode, parsePhoneNumberWithError, ParseError } from 'libphonenumber-js/max'
+import { getSetting, setSetting } from '../models/settings'
+
+const DEFAULT_COUNTRY_SETTING = 'default_country'
+// Numbers were read as North American before the default country was configurable
+const FALLBACK_COUNTRY: CountryCode = 'US'
+
+export class PhoneValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PhoneValidationError'
+  }
+}
+
+export interface NormalizedPhone {
+  // E.164, e.g. +447911123456
+  e164: string
+  // As entered
+  original: string
+  country: CountryCode | null
+  // libphonenumber's number type in lower case, e.g. 'mobile', 'fixed_line'; null when it cannot tell
+  type: string | null
+}
+
+const PARSE_ERRORS: Record<string, string> = {
+  INVALID_COUNTRY: 'no country code, and no default country to read it with',
+  NOT_A_NUMBER: 'not a phone number',
+  TOO_SHORT: 'too short',
+  TOO_LONG: 'too long',
+  INVALID_LENGTH: 'wrong length'
+}
+
+// Reads an entered number as international, or as a national number of the default country,
+// and rejects numbers that cannot exist there (wrong length or unassigned prefix)
+export function normalizePhone(value: string, defaultCountry: CountryCode): NormalizedPhone {
+  const original = value.trim()
+  let parsed
+  try {
+    // "00" is the international prefix in most of the world
+    parsed = parsePhoneNumberWithError(original.replace(/^00(?=[1-9])/, '+'), { defaultCountry })
+  } catch (error) {
+    const reason = error instanceof ParseError ? PARSE_ERRORS[error.message] || error.message : 'not a phone number'
+    throw new PhoneValidationError(`Invalid phone number ${original}: ${reason}`)
+  }
+
+  if (!parsed.isValid()) {
+    const region = parsed.country || `+${parsed.countryCallingCode}`
+    throw new PhoneValidationError(`Invalid phone number ${original}: not a valid ${region} number`)
+  }
+
+  const type = parsed.getType()
+  return {
+    e164: parsed.number,
+    original,
+    country: parsed.country || null,
+    type: type ? type.toLowerCase() : null
+  }
+}
+
+export function isCountryCode(value: unknown): value is CountryCode {
+  return typeof value === 'string' && (getCountries() as string[]).includes(value)
+}
+
+// Accepts an ISO 3166 alpha-2 code in any case; throws for anything libphonenumber has no metadata for
+export function parseCountry(value: unknown): CountryCode {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : value
+  if (!isCountryCode(code)) {
+    throw new PhoneValidationError('country must be a two-letter ISO country code, e.g. GB')
+  }
+  return code
+}
+
+// Every supported country with its calling code, for pickers
+export function listCountries(): Array<{ code: CountryCode, callingCode: string }> {
+  return getCountries().map(code => ({ code, callingCode: getCountryCallingCode(code) }))
+}
+
+export async function getDefaultCountry(): Promise<CountryCode> {
+  const stored = await getSetting<string>(DEFAULT_COUNTRY_SETTING, FALLBACK_COUNTRY)
+  return isCountryCode(stored) ? stored : FALLBACK_COUNTRY
+}
+
+export async function setDefaultCountry(value: unknown): Promise<CountryCode> {
+  const country = parseCountry(value)
+  await setSetting(DEFAULT_COUNTRY_SETTING, country)
+  return country
+}
+
+// The number whatsapp-server dials for a phone number: its E.164 digits, without the +, reading it
+// with the default country when it has no country code. WhatsApp reports senders in the same form.
+// A number normalizePhone rejects keeps its digits as they are.
+export function toWhatsAppNumber(phone: string, defaultCountry: CountryCode): string {
+  try {
+    return normalizePhone(phone, defaultCountry).e164.slice(1)
+  } catch (error) {
+    if (error instanceof PhoneValidationError) return phone.replace(/\D/g, '')
+    throw error
+  }
+}
+
+// SQL twin of toWhatsAppNumber for a column of stored contact numbers, which are already E.164
+export function whatsAppNumberSql(column: string): string {
+  return `REPLACE(${column}, '+', '')`
+}
@@ -0,0 +1,56 @@
+import { recordReceipt } from '../models/messages'
+import { getSetting, setSetting } from '../models/settings'
+import { publish } from './events'
+import { getReceipts } from './whatsappClient'
+
+// Receipts keep arriving long after a campaign's job has finished (a message can be read days
+// later), so they are pulled from whatsapp-server's receipt feed rather than from job results
+const RECEIPT_SYNC_INTERVAL_MS = 15000
+const RECEIPT_BATCH_SIZE = 500
+// The feed position reached, kept so a restart resumes where it left off
+const CURSOR_SETTING = 'receipt_cursor'
+
+let timer: NodeJS.Timeout | null = null
+let syncing = false
+// Feed position of the last receipt applied; undefined until read back from the database
+let cursor: number | undefined
+
+export function startReceiptSync(): void {
+  if (timer) return
+  timer = setInterval(syncReceipts, RECEIPT_SYNC_INTERVAL_MS)
+  syncReceipts()
+}
+
+export function stopReceiptSync(): void {
+  if (timer) clearInterval(timer)
+  timer = null
+}
+
+async function syncReceipts(): Promise<void> {
+  if (syncing) return
+  syncing = true
+
+  try {
+    if (cursor === undefined) cursor = await getSetting(CURSOR_SETTING, 0)
+
+    let receipts
+    do {
+      receipts = await getReceipts(cursor, RECEIPT_BATCH_SIZE)
+      const campaignIds = new Set<number>()
+      for (const receipt of receipts) {
+        const campaignId = await recordReceipt(receipt.messageId, receipt.status, receipt.timestamp)
+        if (campaignId !== null) campaignIds.add(campaignId)
+      }
+
+      if (receipts.length > 0) {
+        cursor = receipts[receipts.length - 1].seq
+        await setSetting(CURSOR_SETTING, cursor)
+      }
+      if (campaignIds.size > 0) publish({ type: 'receipts', data: { campaignIds: [...campaignIds] } })
+    } while (receipts.length === RECEIPT_BATCH_SIZE)
+  } catch (error) {
+    console.error('Error syncing delivery receipts:', error instanceof Error ? error.message : error)
+  } finally {
+    syncing = false
+  }
+}
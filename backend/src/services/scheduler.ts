@@ -0,0 +1,61 @@
+import { listDueCampaigns, listDueTests, updateCampaignStatus } from '../models/campaigns'
+import { CampaignSendError, sendWinner, startCampaign } from './campaignSender'
+
+// Schedules live in the campaigns table, so polling it is all it takes to survive restarts;
+// a campaign due while the backend was down starts on the first check after boot. Variant tests
+// that are over get their winner sent the same way.
+const SCHEDULER_INTERVAL_MS = 15000
+
+let timer: NodeJS.Timeout | null = null
+let checking = false
+
+export function startScheduler(): void {
+  if (timer) return
+  timer = setInterval(launchDueCampaigns, SCHEDULER_INTERVAL_MS)
+  launchDueCampaigns()
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer)
+  timer = null
+}
+
+async function launchDueCampaigns(): Promise<void> {
+  if (checking) return
+  checking = true
+
+  try {
+    await sendDueWinners()
+    for (const campaign of await listDueCampaigns(new Date())) {
+      try {
+        const { total } = await startCampaign(campaign)
+        console.log(`Started scheduled campaign ${campaign.id} for ${total} contacts`)
+      } catch (error) {
+        // Another campaign is still sending; this one stays scheduled and is retried on the next check
+        if (error instanceof CampaignSendError && error.statusCode === 409) break
+
+        console.error(`Scheduled campaign ${campaign.id} could not start:`, error)
+        await updateCampaignStatus(campaign.id, 'failed')
+      }
+    }
+  } catch (error) {
+    console.error('Error checking scheduled campaigns:', error)
+  } finally {
+    checking = false
+  }
+}
+
+async function sendDueWinners(): Promise<void> {
+  for (const campaign of await listDueTests(new Date())) {
+    try {
+      const { winner, total } = await sendWinner(campaign)
+      console.log(`Sending variant ${campaign.variants![winner].label} of campaign ${campaign.id} to ${total} remaining contacts`)
+    } catch (error) {
+      // Another campaign is still sending; the winner goes out on a later check
+      if (error instanceof CampaignSendError && error.statusCode === 409) break
+
+      console.error(`Campaign ${campaign.id} could not send its winning variant:`, error)
+      await updateCampaignStatus(campaign.id, 'failed')
+    }
+  }
+}
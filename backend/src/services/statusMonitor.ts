@@ -0,0 +1,45 @@
+import { SystemStatus } from '../models/types'
+import { publish } from './events'
+import { getHealth } from './whatsappClient'
+
+const POLL_INTERVAL_MS = 10000
+
+let timer: NodeJS.Timeout | null = null
+let watchers = 0
+let lastStatus: SystemStatus | null = null
+
+export async function getSystemStatus(): Promise<SystemStatus> {
+  const health = await getHealth()
+  return {
+    backend: 'running',
+    whatsapp: health.waReady ? 'connected' : 'disconnected',
+    authenticated: health.waReady
+  }
+}
+
+async function poll(): Promise<void> {
+  const status = await getSystemStatus()
+  if (!lastStatus || lastStatus.whatsapp !== status.whatsapp || lastStatus.authenticated !== status.authenticated) {
+    lastStatus = status
+    publish({ type: 'status', data: status })
+  }
+}
+
+// whatsapp-server has no push channel of its own, so poll it only while someone is listening
+export function watchStatus(): () => void {
+  watchers++
+  if (!timer) {
+    timer = setInterval(() => {
+      poll().catch(error => console.error('Status poll failed:', error))
+    }, POLL_INTERVAL_MS)
+  }
+
+  return () => {
+    watchers--
+    if (watchers === 0 && timer) {
+      clearInterval(timer)
+      timer = null
+      lastStatus = null
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import assert from 'assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, before, describe, it, mock } from 'node:test'
+import { closeDatabase, initializeDatabase } from '../models/database'
+import { pushSuppressions, suppressionKey, suppressNumber } from './suppressions'
+
+describe('suppressions', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'suppressions-'))
+  const pushed: string[][] = []
+
+  before(async () => {
+    process.env.DATABASE_URL = `sqlite://${path.join(dir, 'test.sqlite')}`
+    await initializeDatabase()
+    mock.method(globalThis, 'fetch', async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/suppressions')) pushed.push(JSON.parse(String(init?.body)).phones)
+      return new Response(JSON.stringify({ success: true }), { status: 200 })
+    })
+  })
+
+  after(async () => {
+    mock.restoreAll()
+    await closeDatabase()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('keys a number by its international digits, in any format', () => {
+    assert.equal(suppressionKey('+65 9123 4567', 'US'), '6591234567')
+    assert.equal(suppressionKey('9123 4567', 'SG'), '6591234567')
+    assert.equal(suppressionKey('(212) 736-5000', 'US'), '12127365000')
+  })
+
+  it('rejects what is not a phone number', () => {
+    assert.throws(() => suppressionKey('not a number', 'US'), { name: 'SuppressionValidationError' })
+    assert.throws(() => suppressionKey(null, 'US'), { name: 'SuppressionValidationError' })
+  })
+
+  // whatsapp-server reads a bare 10-digit number as North American (1 + the digits), so a 10-digit
+  // E.164 number like Singapore's +65 9123 4567 only matches its own sends when pushed with its +
+  it('pushes 10-digit international numbers in E.164 so whatsapp-server matches them', async () => {
+    await suppressNumber(suppressionKey('+65 9123 4567', 'US'), 'manual')
+    await suppressNumber(suppressionKey('+1 212 736 5000', 'US'), 'manual')
+    await pushSuppressions()
+
+    assert.deepEqual(pushed[pushed.length - 1], ['+12127365000', '+6591234567'])
+  })
+})
@@ -0,0 +1,132 @@
+import { getSetting, setSetting } from '../models/settings'
+import { addSuppression, listSuppressedNumbers, removeSuppression } from '../models/suppressions'
+import { SuppressionSource } from '../models/types'
+import { CountryCode } from 'libphonenumber-js/max'
+import { getDefaultCountry, normalizePhone, PhoneValidationError } from './phone'
+import { replaceSuppressions } from './whatsappClient'
+
+const KEYWORDS_SETTING = 'opt_out_keywords'
+
+// Replies consisting of just one of these (ignoring case, accents and punctuation) opt the sender out
+export const DEFAULT_OPT_OUT_KEYWORDS = [
+  'STOP', 'STOP ALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPT OUT', 'OPTOUT',
+  'PARAR', 'BAJA', 'CANCELAR', 'ALTO', // Spanish
+  'SAIR', 'PARE', // Portuguese
+  'ARRET', 'DESABONNER', 'DESINSCRIRE', // French
+  'STOPP', 'ABMELDEN', // German
+  'BASTA', 'DISISCRIVIMI' // Italian
+]
+
+const MAX_KEYWORDS = 100
+const PUSH_RETRY_MS = 30000
+
+let pushRetry: NodeJS.Timeout | null = null
+
+export class SuppressionValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SuppressionValidationError'
+  }
+}
+
+function normalizeKeyword(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim()
+}
+
+export function getOptOutKeywords(): Promise<string[]> {
+  return getSetting(KEYWORDS_SETTING, DEFAULT_OPT_OUT_KEYWORDS)
+}
+
+// Stores the keywords normalized and de-duplicated; returns what was stored
+export async function setOptOutKeywords(input: unknown): Promise<string[]> {
+  if (!Array.isArray(input) || input.some(keyword => typeof keyword !== 'string')) {
+    throw new SuppressionValidationError('keywords must be an array of strings')
+  }
+  const keywords = [...new Set(input.map(normalizeKeyword).filter(Boolean))]
+  if (keywords.length === 0) {
+    throw new SuppressionValidationError('At least one keyword is required')
+  }
+  if (keywords.length > MAX_KEYWORDS) {
+    throw new SuppressionValidationError(`At most ${MAX_KEYWORDS} keywords are allowed`)
+  }
+  await setSetting(KEYWORDS_SETTING, keywords)
+  return keywords
+}
+
+// The keyword a reply consists of, or null; longer messages that merely contain a keyword do not count
+export async function matchOptOutKeyword(body: string): Promise<string | null> {
+  const text = normalizeKeyword(body)
+  if (!text) return null
+  const keywords = await getOptOutKeywords()
+  return keywords.find(keyword => normalizeKeyword(keyword) === text) || null
+}
+
+// Validates an entered number and converts it to the suppression list's key, the number
+// whatsapp-server dials; numbers without a country code are read as the default country's
+export function suppressionKey(phone: unknown, defaultCountry: CountryCode): string {
+  if (typeof phone !== 'string' && typeof phone !== 'number') {
+    throw new SuppressionValidationError(`Invalid phone number: ${String(phone ?? '')}`)
+  }
+  try {
+    return normalizePhone(String(phone), defaultCountry).e164.slice(1)
+  } catch (error) {
+    if (error instanceof PhoneValidationError) throw new SuppressionValidationError(error.message)
+    throw error
+  }
+}
+
+// Takes the number as a key (see suppressionKey), which is also how WhatsApp reports senders;
+// returns false when the number was already suppressed
+export async function suppressNumber(key: string, source: SuppressionSource, note: string | null = null): Promise<boolean> {
+  const added = await addSuppression(key, source, note)
+  if (added) await pushSuppressions()
+  return added
+}
+
+// Takes the number as listed
+export async function unsuppressNumber(key: string): Promise<boolean> {
+  const removed = await removeSuppression(key.replace(/\D/g, ''))
+  if (removed) await pushSuppressions()
+  return removed
+}
+
+// Adds every valid number; returns how many were new, already listed, or invalid
+export async function importSuppressions(phones: string[]): Promise<{ added: number, existing: number, invalid: string[] }> {
+  const result = { added: 0, existing: 0, invalid: [] as string[] }
+  const defaultCountry = await getDefaultCountry()
+  for (const phone of phones) {
+    let key: string
+    try {
+      key = suppressionKey(phone, defaultCountry)
+    } catch (error) {
+      result.invalid.push(phone)
+      continue
+    }
+    if (await addSuppression(key, 'import', null)) result.added++
+    else result.existing++
+  }
+  if (result.added > 0) await pushSuppressions()
+  return result
+}
+
+// whatsapp-server keeps a copy of the list and refuses to send to it, which also covers sends
+// that do not go through a campaign; failed pushes are retried until one succeeds. Keys go out in
+// E.164 with their +, as whatsapp-server would read a bare 10-digit key (+65 9123 4567 is
+// 6591234567) as a North American number.
+export async function pushSuppressions(): Promise<void> {
+  if (pushRetry) {
+    clearTimeout(pushRetry)
+    pushRetry = null
+  }
+  try {
+    await replaceSuppressions((await listSuppressedNumbers()).map(key => `+${key}`))
+  } catch (error) {
+    console.error('Failed to push suppression list to whatsapp-server:', error instanceof Error ? error.message : error)
+    pushRetry = setTimeout(() => pushSuppressions(), PUSH_RETRY_MS)
+  }
+}
@@ -0,0 +1,60 @@
+// Per-contact message templates: {{name}}, {{first_name|there}} (text after | is the fallback)
+
+import { AttributeValue } from '../models/types'
+
+export type TemplateVariables = Record<string, string | number | boolean | null | undefined>
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g
+
+// "First Name", "first-name" and "FIRST_NAME" all resolve to first_name
+export function normalizeVariableName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const lookup: TemplateVariables = {}
+  for (const [key, value] of Object.entries(variables)) {
+    lookup[normalizeVariableName(key)] = value
+  }
+
+  return template.replace(PLACEHOLDER, (_match, key: string, fallback: string | undefined) => {
+    const value = lookup[normalizeVariableName(key)]
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value)
+    }
+    return fallback !== undefined ? fallback.trim() : ''
+  })
+}
+
+// An attribute as text, for messages and exports; yes/no for booleans, as imports read them back
+export function attributeText(value: AttributeValue | undefined): string {
+  if (value === undefined) return ''
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return String(value)
+}
+
+// Built-in variables for a contact. Imported attributes may override the derived
+// first/last name (e.g. a separate last_name column) but not the core contact fields.
+export function contactVariables(contact: {
+  name: string | null
+  phone_number: string
+  email: string | null
+  attributes?: Record<string, AttributeValue>
+}): TemplateVariables {
+  const fullName = (contact.name || '').trim()
+  const [firstName = '', ...rest] = fullName.split(/\s+/)
+  const attributes: TemplateVariables = {}
+  for (const [key, value] of Object.entries(contact.attributes || {})) {
+    attributes[key] = attributeText(value)
+  }
+
+  return {
+    first_name: firstName,
+    last_name: rest.join(' '),
+    ...attributes,
+    name: fullName,
+    phone: contact.phone_number,
+    phone_number: contact.phone_number,
+    email: contact.email
+  }
+}
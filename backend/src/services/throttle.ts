@@ -0,0 +1,88 @@
+import { AllowedHours, ThrottleSettings } from '../models/types'
+
+// Validates settings up front with the same rules as whatsapp-server/src/services/throttle.ts,
+// which enforces them and projects completion times (see whatsappClient.estimateCompletion)
+
+export class ThrottleValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ThrottleValidationError'
+  }
+}
+
+export const DEFAULT_THROTTLE: ThrottleSettings = {
+  minDelayMs: 2000,
+  maxDelayMs: 5000,
+  hourlyLimit: null,
+  dailyLimit: null,
+  allowedHours: null,
+  timezone: 'UTC'
+}
+
+function optionalLimit(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ThrottleValidationError(`${field} must be a positive whole number`)
+  }
+  return limit
+}
+
+function hourOfDay(value: unknown, field: string): number {
+  const hour = Number(value)
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new ThrottleValidationError(`${field} must be an hour between 0 and 23`)
+  }
+  return hour
+}
+
+// Validates user-supplied settings, filling anything omitted from the defaults
+export function parseThrottle(input: unknown): ThrottleSettings {
+  if (input === undefined || input === null || input === '') return { ...DEFAULT_THROTTLE }
+  if (typeof input === 'string') {
+    // Multipart campaign forms send the settings as a JSON field
+    try {
+      input = JSON.parse(input)
+    } catch (error) {
+      throw new ThrottleValidationError('throttle must be valid JSON')
+    }
+  }
+  if (typeof input !== 'object' || input === null) {
+    throw new ThrottleValidationError('throttle must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const minDelayMs = Number(raw.minDelayMs ?? DEFAULT_THROTTLE.minDelayMs)
+  const maxDelayMs = Number(raw.maxDelayMs ?? Math.max(minDelayMs, DEFAULT_THROTTLE.maxDelayMs))
+  if (!Number.isFinite(minDelayMs) || minDelayMs < 0 || !Number.isFinite(maxDelayMs) || maxDelayMs < minDelayMs) {
+    throw new ThrottleValidationError('minDelayMs and maxDelayMs must be non-negative with minDelayMs <= maxDelayMs')
+  }
+
+  let allowedHours: AllowedHours | null = null
+  if (raw.allowedHours) {
+    const hours = raw.allowedHours as Record<string, unknown>
+    allowedHours = {
+      start: hourOfDay(hours.start, 'allowedHours.start'),
+      end: hourOfDay(hours.end, 'allowedHours.end')
+    }
+    if (allowedHours.start === allowedHours.end) {
+      allowedHours = null
+    }
+  }
+
+  const timezone = raw.timezone ? String(raw.timezone) : DEFAULT_THROTTLE.timezone
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+  } catch (error) {
+    throw new ThrottleValidationError(`Unknown timezone ${timezone}`)
+  }
+
+  return {
+    minDelayMs,
+    maxDelayMs,
+    hourlyLimit: optionalLimit(raw.hourlyLimit, 'hourlyLimit'),
+    dailyLimit: optionalLimit(raw.dailyLimit, 'dailyLimit'),
+    allowedHours,
+    timezone
+  }
+}
@@ -0,0 +1,126 @@
+import { CampaignVariant, VariantStats, WinnerMetric, WinnerTest } from '../models/types'
+
+const METRICS: WinnerMetric[] = ['delivered', 'read', 'replied']
+const MAX_VARIANTS = 5
+const MAX_LABEL_LENGTH = 32
+const MAX_WAIT_HOURS = 7 * 24
+
+export class VariantValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VariantValidationError'
+  }
+}
+
+// Accepts a JSON string too, as multipart forms send it
+function parseJson(value: unknown, what: string): unknown {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    throw new VariantValidationError(`${what} must be valid JSON`)
+  }
+}
+
+// Two to MAX_VARIANTS messages with their share of the recipients, or null when none are given.
+// Labels default to A, B, C...; leaving out every weight splits the recipients evenly.
+export function parseVariants(input: unknown, maxMessageLength: number): CampaignVariant[] | null {
+  if (input === undefined || input === null || input === '') return null
+  const list = parseJson(input, 'variants')
+  if (!Array.isArray(list) || list.length < 2 || list.length > MAX_VARIANTS) {
+    throw new VariantValidationError(`variants must be an array of 2 to ${MAX_VARIANTS} messages`)
+  }
+
+  const evenly = list.every(item => item?.weight === undefined || item?.weight === null || item?.weight === '')
+  const variants = list.map((item, index): CampaignVariant => {
+    const raw = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+    const label = typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : String.fromCharCode(65 + index)
+    if (label.length > MAX_LABEL_LENGTH) {
+      throw new VariantValidationError(`Variant labels must be at most ${MAX_LABEL_LENGTH} characters`)
+    }
+    const message = typeof raw.message === 'string' ? raw.message : ''
+    if (!message.trim()) {
+      throw new VariantValidationError(`Variant ${label} needs a message`)
+    }
+    if (message.length > maxMessageLength) {
+      throw new VariantValidationError(`Variant ${label} is too long (max ${maxMessageLength} characters)`)
+    }
+    const weight = evenly ? Math.floor(100 / list.length) + (index < 100 % list.length ? 1 : 0) : Number(raw.weight)
+    if (!Number.isInteger(weight) || weight < 1) {
+      throw new VariantValidationError(`Variant ${label} needs a whole-number percentage of at least 1`)
+    }
+    return { label, message, weight }
+  })
+
+  if (new Set(variants.map(variant => variant.label.toLowerCase())).size !== variants.length) {
+    throw new VariantValidationError('Variant labels must be unique')
+  }
+  if (variants.reduce((sum, variant) => sum + variant.weight, 0) !== 100) {
+    throw new VariantValidationError('Variant percentages must add up to 100')
+  }
+  return variants
+}
+
+// The test phase picking a winner, or null to split the whole audience between the variants
+export function parseWinnerTest(input: unknown): WinnerTest | null {
+  if (input === undefined || input === null || input === '') return null
+  const raw = parseJson(input, 'winnerTest')
+  if (typeof raw !== 'object' || raw === null) {
+    throw new VariantValidationError('winnerTest must be an object')
+  }
+
+  const { testPercent, waitHours, metric } = raw as Record<string, unknown>
+  const percent = Number(testPercent)
+  if (!Number.isInteger(percent) || percent < 1 || percent > 99) {
+    throw new VariantValidationError('winnerTest.testPercent must be a whole number between 1 and 99')
+  }
+  const hours = Number(waitHours)
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_WAIT_HOURS) {
+    throw new VariantValidationError(`winnerTest.waitHours must be more than 0 and at most ${MAX_WAIT_HOURS}`)
+  }
+  if (!METRICS.includes(metric as WinnerMetric)) {
+    throw new VariantValidationError(`winnerTest.metric must be one of ${METRICS.join(', ')}`)
+  }
+  return { testPercent: percent, waitHours: hours, metric: metric as WinnerMetric }
+}
+
+// Shuffled copy, so the test sample and each variant's share are random picks from the audience
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+// Deals the recipients out to the variants by weight, in order; rounding leftovers go to the
+// variants that lost the most to it
+export function splitByWeight<T>(recipients: T[], variants: CampaignVariant[]): Array<{ recipient: T, variant: number }> {
+  const exact = variants.map(variant => recipients.length * variant.weight / 100)
+  const counts = exact.map(Math.floor)
+  const byRemainder = exact.map((value, index) => index).sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]))
+  const leftover = recipients.length - counts.reduce((sum, count) => sum + count, 0)
+  for (let i = 0; i < leftover; i++) {
+    counts[byRemainder[i]]++
+  }
+
+  const split: Array<{ recipient: T, variant: number }> = []
+  counts.forEach((count, variant) => {
+    for (let i = 0; i < count; i++) split.push({ recipient: recipients[split.length], variant })
+  })
+  return split
+}
+
+const METRIC_COUNTS: Record<WinnerMetric, 'delivered_count' | 'read_count' | 'replied_count'> = {
+  delivered: 'delivered_count',
+  read: 'read_count',
+  replied: 'replied_count'
+}
+
+// The variant with the best rate on the test's metric out of the messages it sent; the earlier
+// variant wins a tie
+export function pickWinner(stats: VariantStats[], metric: WinnerMetric): number {
+  const rate = (variant: VariantStats) => variant.sent_count > 0 ? variant[METRIC_COUNTS[metric]] / variant.sent_count : 0
+  return stats.reduce((best, variant) => rate(variant) > rate(best) ? variant : best, stats[0]).variant
+}
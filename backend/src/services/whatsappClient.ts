@@ -0,0 +1,317 @@
+import { CampaignEstimate, MediaAttachment, ReceiptStatus, ThrottleSettings } from '../models/types'
+
+// HTTP client for the whatsapp-server container, which owns the WhatsApp Web sessions
+
+const WHATSAPP_URL = process.env.WHATSAPP_AUTH_URL || 'http://whatsapp-server:3002'
+
+export interface WhatsAppHealth {
+  ok: boolean
+  waReady: boolean
+  hasQRCode: boolean
+  queueLength: number
+  sessions: WhatsAppSession[]
+}
+
+// One WhatsApp account connected to whatsapp-server
+export interface WhatsAppSession {
+  id: string
+  name: string
+  isReady: boolean
+  hasQRCode: boolean
+  // Queued messages this session may still send
+  queueLength: number
+}
+
+export interface SendResult {
+  phone: string
+  // Sent messages report the furthest receipt seen so far
+  status: 'pending' | ReceiptStatus | 'failed' | 'cancelled'
+  messageId?: string
+  // Session that sent the message
+  senderId?: string
+  error?: string
+  timestamp: string
+}
+
+export interface Receipt {
+  // Position in whatsapp-server's receipt feed
+  seq: number
+  messageId: string
+  jobId: string | null
+  phone: string
+  status: Exclude<ReceiptStatus, 'sent'>
+  timestamp: string
+}
+
+export interface InboundMessage {
+  // Position in whatsapp-server's inbound feed
+  id: number
+  messageId: string
+  // International digits without a leading +
+  phone: string
+  name: string | null
+  body: string
+  type: string
+  quotedMessageId: string | null
+  sessionId: string | null
+  receivedAt: string
+}
+
+export interface BulkJob {
+  id: string
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'cancelled'
+  total: number
+  pending: number
+  sent: number
+  failed: number
+  cancelled: number
+  throttle: ThrottleSettings
+  senders: string[] | null
+  createdAt: string
+  completedAt: string | null
+}
+
+// A registration check of a list of numbers, run in the background by whatsapp-server
+export interface Verification {
+  id: string
+  status: 'running' | 'completed'
+  total: number
+  pending: number
+  registered: number
+  unregistered: number
+  failed: number
+  createdAt: string
+  completedAt: string | null
+}
+
+export interface VerificationResult {
+  // Position in the verification's results
+  id: number
+  // As it was sent for checking
+  phone: string
+  // null when the lookup failed
+  registered: boolean | null
+  error?: string
+  checkedAt: string
+}
+
+// A CSV split into records by whatsapp-server, which owns the parser
+export interface ParsedCsv {
+  encoding: 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+  delimiter: string
+  // line is the 1-based line each record starts on; quoted fields may span lines
+  records: Array<{ line: number, fields: string[] }>
+  errors: Array<{ line: number, message: string }>
+}
+
+export interface BulkContact {
+  phone: string
+  name?: string
+  // Already rendered for this contact, so whatsapp-server sends it as-is
+  message: string
+}
+
+export class WhatsAppServerError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message)
+    this.name = 'WhatsAppServerError'
+  }
+}
+
+// The error a failed response carries, preferring whatsapp-server's details over its summary
+function responseError(response: Response, body: unknown): WhatsAppServerError {
+  const { error, details } = (typeof body === 'object' && body !== null ? body : {}) as { error?: unknown, details?: unknown }
+  const message = [details, error].find((value): value is string => typeof value === 'string' && value !== '')
+  return new WhatsAppServerError(message || `WhatsApp server responded ${response.status}`, response.status)
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(`${WHATSAPP_URL}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) }
+    })
+  } catch (error) {
+    throw new WhatsAppServerError(`WhatsApp server unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  const body: unknown = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw responseError(response, body)
+  }
+  return body as T
+}
+
+export async function getHealth(): Promise<WhatsAppHealth> {
+  try {
+    return await request<WhatsAppHealth>('/health')
+  } catch (error) {
+    return { ok: false, waReady: false, hasQRCode: false, queueLength: 0, sessions: [] }
+  }
+}
+
+// QR code to link a session's phone, null once it is linked; the default session if none is given
+export async function getQRCode(sessionId?: string): Promise<string | null> {
+  const body = await request<{ qrCode: string | null }>(
+    sessionId ? `/sessions/${encodeURIComponent(sessionId)}/qr` : '/qr'
+  )
+  return body.qrCode
+}
+
+export async function listSessions(): Promise<WhatsAppSession[]> {
+  const body = await request<{ sessions: WhatsAppSession[] }>('/sessions')
+  return body.sessions
+}
+
+// Adds an account; whatsapp-server starts its client, which then waits for its QR code to be scanned
+export async function createSession(id: string, name?: string): Promise<WhatsAppSession> {
+  const body = await request<{ success: boolean, session: WhatsAppSession }>('/sessions', {
+    method: 'POST',
+    body: JSON.stringify({ id, name })
+  })
+  return body.session
+}
+
+export async function removeSession(id: string): Promise<void> {
+  await request(`/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+// Sends from the given session, or from whichever session whatsapp-server has free
+export async function sendMessage(
+  phone: string,
+  name: string | undefined,
+  message: string,
+  mediaId?: string | null,
+  sessionId?: string | null
+): Promise<SendResult> {
+  const body = await request<{ success: boolean, result: SendResult }>('/send-message', {
+    method: 'POST',
+    body: JSON.stringify({ phone, name, message, mediaId: mediaId || undefined, sessionId: sessionId || undefined })
+  })
+  return body.result
+}
+
+// Queues the messages as one job in whatsapp-server, paced by the throttle settings and
+// spread over the given sender sessions (all of them when null)
+export async function createBulkJob(
+  contacts: BulkContact[],
+  options: { jobId?: string, mediaId?: string | null, throttle?: ThrottleSettings, senders?: string[] | null } = {}
+): Promise<BulkJob> {
+  const body = await request<{ success: boolean, job: BulkJob }>('/send-bulk', {
+    method: 'POST',
+    body: JSON.stringify({
+      contacts,
+      jobId: options.jobId,
+      mediaId: options.mediaId || undefined,
+      throttle: options.throttle,
+      senders: options.senders || undefined
+    })
+  })
+  return body.job
+}
+
+// Projected completion of a job of `total` messages, as whatsapp-server's queue would pace it
+// over the given sender sessions (all of them when null)
+export function estimateCompletion(
+  throttle: ThrottleSettings,
+  total: number,
+  startAt: number = Date.now(),
+  senders: string[] | null = null
+): Promise<CampaignEstimate> {
+  return request<CampaignEstimate>('/estimate', {
+    method: 'POST',
+    body: JSON.stringify({ throttle, total, startAt: new Date(startAt).toISOString(), senders: senders || undefined })
+  })
+}
+
+export function getJob(jobId: string): Promise<BulkJob> {
+  return request<BulkJob>(`/jobs/${encodeURIComponent(jobId)}`)
+}
+
+// Pausing takes effect before whatsapp-server's next message; cancelling drops everything not yet sent;
+// retrying requeues the failed messages of a completed job
+export async function controlJob(jobId: string, action: 'pause' | 'resume' | 'cancel' | 'retry'): Promise<BulkJob> {
+  const body = await request<{ success: boolean, job: BulkJob }>(`/jobs/${encodeURIComponent(jobId)}/${action}`, {
+    method: 'POST'
+  })
+  return body.job
+}
+
+// Per-contact results in the order the contacts were queued
+export async function getJobResults(jobId: string): Promise<SendResult[]> {
+  const body = await request<{ jobId: string, results: SendResult[] }>(`/jobs/${encodeURIComponent(jobId)}/results`)
+  return body.results
+}
+
+// Delivery and read receipts recorded after feed position `after`, oldest first; pass the last seq to continue
+export async function getReceipts(after: number, limit: number): Promise<Receipt[]> {
+  const query = new URLSearchParams({ after: String(after), limit: String(limit) })
+  const body = await request<{ receipts: Receipt[] }>(`/receipts?${query}`)
+  return body.receipts
+}
+
+// Messages received from contacts after feed position `after`, in arrival order
+export async function getInbound(after: number, limit: number): Promise<InboundMessage[]> {
+  const query = new URLSearchParams({ after: String(after), limit: String(limit) })
+  const body = await request<{ messages: InboundMessage[] }>(`/inbound?${query}`)
+  return body.messages
+}
+
+// Queues a check of which numbers have WhatsApp; whatsapp-server spaces the lookups out
+export async function createVerification(phones: string[]): Promise<Verification> {
+  const body = await request<{ success: boolean, verification: Verification }>('/verifications', {
+    method: 'POST',
+    body: JSON.stringify({ phones })
+  })
+  return body.verification
+}
+
+export function getVerification(verificationId: string): Promise<Verification> {
+  return request<Verification>(`/verifications/${encodeURIComponent(verificationId)}`)
+}
+
+// Numbers checked after result position `after`, in the order they were sent
+export async function getVerificationResults(verificationId: string, after: number, limit: number): Promise<VerificationResult[]> {
+  const query = new URLSearchParams({ after: String(after), limit: String(limit) })
+  const body = await request<{ verificationId: string, results: VerificationResult[] }>(
+    `/verifications/${encodeURIComponent(verificationId)}/results?${query}`
+  )
+  return body.results
+}
+
+// Replaces whatsapp-server's copy of the suppression list; it refuses to send to these numbers
+export async function replaceSuppressions(phones: string[]): Promise<void> {
+  await request('/suppressions', { method: 'PUT', body: JSON.stringify({ phones }) })
+}
+
+// Multipart upload of one file; fetch sets the form's content type itself
+async function upload<T>(path: string, field: string, file: { buffer: Buffer, originalname: string, mimetype: string }): Promise<T> {
+  const form = new FormData()
+  form.append(field, new Blob([file.buffer], { type: file.mimetype }), file.originalname)
+
+  let response: Response
+  try {
+    response = await fetch(`${WHATSAPP_URL}${path}`, { method: 'POST', body: form })
+  } catch (error) {
+    throw new WhatsAppServerError(`WhatsApp server unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  const body: unknown = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw responseError(response, body)
+  }
+  return body as T
+}
+
+// Stores an attachment in whatsapp-server once so every send can reference it by id
+export async function uploadMedia(file: { buffer: Buffer, originalname: string, mimetype: string }): Promise<MediaAttachment> {
+  const body = await upload<{ media: MediaAttachment }>('/media', 'file', file)
+  return body.media
+}
+
+// Splits a CSV into records with whatsapp-server's parser, so contact lists read the same whether
+// they are imported here or sent straight to its /upload-csv
+export function parseCsv(buffer: Buffer, fileName: string): Promise<ParsedCsv> {
+  return upload<ParsedCsv>('/parse-csv', 'csv', { buffer, originalname: fileName, mimetype: 'text/csv' })
+}
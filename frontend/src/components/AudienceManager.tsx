@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Filter, Pencil, Plus, Tag as TagIcon, Trash2, X } from 'lucide-react'
+import { AttributeOperator, Segment, SegmentRule, Tag, fetchSegments, fetchTags } from '../lib/audiences'
+import { CustomField, CustomFieldType, fetchCustomFields } from '../lib/customFields'
+import { jsonRequest, useRequest } from '../lib/request'
+
+interface AudienceManagerProps {
+  isDark: boolean
+}
+
+// Waits for edits to settle before asking the backend how many contacts the rules match
+const PREVIEW_DEBOUNCE_MS = 400
+
+const RULE_TYPES: Array<{ value: SegmentRule['type'], label: string }> = [
+  { value: 'tag', label: 'List' },
+  { value: 'attribute', label: 'Custom field' },
+  { value: 'replied', label: 'Replied' },
+  { value: 'last_messaged_before', label: 'Last messaged before' }
+]
+
+const OPERATORS: Array<{ value: AttributeOperator, label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'greater_than', label: 'is more than' },
+  { value: 'less_than', label: 'is less than' },
+  { value: 'is_set', label: 'is set' },
+  { value: 'is_not_set', label: 'is not set' }
+]
+
+// Operators that make sense for a custom field's type; attributes without a field get the text ones
+const TYPE_OPERATORS: Record<CustomFieldType, AttributeOperator[]> = {
+  text: ['equals', 'not_equals', 'contains', 'is_set', 'is_not_set'],
+  number: ['equals', 'not_equals', 'greater_than', 'less_than', 'is_set', 'is_not_set'],
+  date: ['equals', 'not_equals', 'greater_than', 'less_than', 'is_set', 'is_not_set'],
+  boolean: ['equals', 'is_set', 'is_not_set'],
+  enum: ['equals', 'not_equals', 'is_set', 'is_not_set']
+}
+
+const newRule = (type: SegmentRule['type'], tags: Tag[]): SegmentRule => {
+  switch (type) {
+    case 'tag':
+      return { type, tagId: tags[0]?.id ?? 0 }
+    case 'attribute':
+      return { type, key: '', operator: 'equals', value: '' }
+    case 'replied':
+      return { type, replied: true }
+    case 'last_messaged_before':
+      return { type, date: new Date().toISOString().slice(0, 10) }
+  }
+}
+
+// Contact lists to group contacts by hand (or on import) and segments that pick contacts by rules
+const AudienceManager: React.FC<AudienceManagerProps> = ({ isDark }) => {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [segments, setSegments] = useState<Segment[]>([])
+  const [customFields, setCustomFields] = useState<CustomField[]>([])
+  const [listName, setListName] = useState('')
+  // Segment being edited; id is null for a new one
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [segmentName, setSegmentName] = useState('')
+  const [rules, setRules] = useState<SegmentRule[]>([])
+  const [recipients, setRecipients] = useState<number | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const [tagsData, segmentsData] = await Promise.all([fetchTags(), fetchSegments()])
+    setTags(tagsData)
+    setSegments(segmentsData)
+  }, [])
+
+  useEffect(() => {
+    load()
+    fetchCustomFields().then(setCustomFields)
+  }, [load])
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/segments/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rules })
+        })
+        const result = await response.json()
+        setRecipients(response.ok ? result.recipients : null)
+        setPreviewError(response.ok ? null : result.error)
+      } catch (error) {
+        setRecipients(null)
+        setPreviewError(null)
+      }
+    }, PREVIEW_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [rules])
+
+  const { busy, request } = useRequest(load)
+
+  const addList = async () => {
+    if (await request('creating list', '/api/tags', jsonRequest('POST', { name: listName }))) setListName('')
+  }
+
+  const renameList = (tag: Tag) => {
+    const name = prompt('New name for this list', tag.name)
+    if (name && name.trim() !== tag.name) {
+      request('renaming list', `/api/tags/${tag.id}`, jsonRequest('PUT', { name }))
+    }
+  }
+
+  const deleteList = (tag: Tag) => {
+    if (!confirm(`Delete the list "${tag.name}"? Its ${tag.contact_count} contacts are kept.`)) return
+    request('deleting list', `/api/tags/${tag.id}`, { method: 'DELETE' })
+  }
+
+  const resetSegment = () => {
+    setEditingId(null)
+    setSegmentName('')
+    setRules([])
+  }
+
+  const editSegment = (segment: Segment) => {
+    setEditingId(segment.id)
+    setSegmentName(segment.name)
+    setRules(segment.rules)
+  }
+
+  const saveSegment = async () => {
+    const result = editingId === null
+      ? await request('saving segment', '/api/segments', jsonRequest('POST', { name: segmentName, rules }))
+      : await request('saving segment', `/api/segments/${editingId}`, jsonRequest('PUT', { name: segmentName, rules }))
+    if (result) resetSegment()
+  }
+
+  const deleteSegment = (segment: Segment) => {
+    if (!confirm(`Delete the segment "${segment.name}"?`)) return
+    request('deleting segment', `/api/segments/${segment.id}`, { method: 'DELETE' })
+    if (editingId === segment.id) resetSegment()
+  }
+
+  const updateRule = (index: number, rule: SegmentRule) => {
+    setRules(prev => prev.map((current, i) => (i === index ? rule : current)))
+  }
+
+  const inputClass = `p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const labelClass = `flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+  const rowClass = `flex items-center justify-between gap-2 py-2 border-b last:border-0 ${
+    isDark ? 'border-gray-700' : 'border-gray-100'
+  }`
+  const iconButton = `p-1 rounded ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`
+
+  // The value an attribute rule compares with, entered as its custom field's type allows
+  const ruleValue = (rule: SegmentRule & { type: 'attribute' }, index: number, field: CustomField | undefined) => {
+    const value = rule.value || ''
+    const update = (next: string) => updateRule(index, { ...rule, value: next })
+    if (field?.type === 'boolean' || field?.type === 'enum') {
+      const options = field.type === 'boolean' ? [['true', 'yes'], ['false', 'no']] : field.options.map(option => [option, option])
+      return (
+        <select value={value} onChange={(e) => update(e.target.value)} className={`flex-1 ${inputClass}`}>
+          <option value="">Choose...</option>
+          {options.map(([optionValue, optionLabel]) => <option key={optionValue} value={optionValue}>{optionLabel}</option>)}
+        </select>
+      )
+    }
+    return (
+      <input
+        type={field?.type === 'number' || field?.type === 'date' ? field.type : 'text'}
+        value={value}
+        onChange={(e) => update(e.target.value)}
+        placeholder="Value"
+        className={`flex-1 ${inputClass}`}
+      />
+    )
+  }
+
+  const ruleFields = (rule: SegmentRule, index: number) => {
+    switch (rule.type) {
+      case 'tag':
+        return (
+          <>
+            <select
+              value={rule.negate ? 'not' : 'on'}
+              onChange={(e) => updateRule(index, { ...rule, negate: e.target.value === 'not' })}
+              className={inputClass}
+            >
+              <option value="on">is on</option>
+              <option value="not">is not on</option>
+            </select>
+            <select
+              value={rule.tagId}
+              onChange={(e) => updateRule(index, { ...rule, tagId: Number(e.target.value) })}
+              className={`flex-1 ${inputClass}`}
+            >
+              {tags.length === 0 && <option value={0}>No lists yet</option>}
+              {tags.map(tag => <option key={tag.id} value={tag.id}>{tag.name}</option>)}
+            </select>
+          </>
+        )
+      case 'attribute': {
+        const field = customFields.find(candidate => candidate.key === rule.key)
+        const operators = field ? TYPE_OPERATORS[field.type] : TYPE_OPERATORS.text
+        return (
+          <>
+            <input
+              value={rule.key}
+              onChange={(e) => updateRule(index, { ...rule, key: e.target.value })}
+              list="segment-fields"
+              placeholder="Field name"
+              className={`w-28 ${inputClass}`}
+            />
+            <select
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as AttributeOperator })}
+              className={inputClass}
+            >
+              {OPERATORS.filter(operator => operators.includes(operator.value) || operator.value === rule.operator).map(operator => (
+                <option key={operator.value} value={operator.value}>{operator.label}</option>
+              ))}
+            </select>
+            {rule.operator !== 'is_set' && rule.operator !== 'is_not_set' && ruleValue(rule, index, field)}
+          </>
+        )
+      }
+      case 'replied':
+        return (
+          <select
+            value={rule.replied ? 'yes' : 'no'}
+            onChange={(e) => updateRule(index, { ...rule, replied: e.target.value === 'yes' })}
+            className={`flex-1 ${inputClass}`}
+          >
+            <option value="yes">has replied</option>
+            <option value="no">has never replied</option>
+          </select>
+        )
+      case 'last_messaged_before':
+        return (
+          <input
+            type="date"
+            value={rule.date}
+            onChange={(e) => updateRule(index, { ...rule, date: e.target.value })}
+            className={`flex-1 ${inputClass}`}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className={labelClass}>
+          <TagIcon className="h-4 w-4 mr-2" />
+          Lists
+        </label>
+        <div className="flex gap-2 mb-2">
+          <input
+            value={listName}
+            onChange={(e) => setListName(e.target.value)}
+            placeholder="New list name"
+            maxLength={64}
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            onClick={addList}
+            disabled={busy || !listName.trim()}
+            className="px-3 rounded-lg text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            Add
+          </button>
+        </div>
+        {tags.length === 0 ? (
+          <p className={`text-xs ${mutedText}`}>No lists yet. Lists can also be filled when importing contacts.</p>
+        ) : (
+          <div className="max-h-40 overflow-y-auto">
+            {tags.map(tag => (
+              <div key={tag.id} className={rowClass}>
+                <span className={`text-sm ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{tag.name}</span>
+                <div className="flex items-center gap-1">
+                  <span className={`text-xs mr-2 ${mutedText}`}>{tag.contact_count} contacts</span>
+                  <button onClick={() => renameList(tag)} title="Rename list" className={iconButton}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => deleteList(tag)} title="Delete list" className={iconButton}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>
+          <Filter className="h-4 w-4 mr-2" />
+          Segments
+        </label>
+        {segments.length > 0 && (
+          <div className="max-h-40 overflow-y-auto mb-3">
+            {segments.map(segment => (
+              <div key={segment.id} className={rowClass}>
+                <span className={`text-sm ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{segment.name}</span>
+                <div className="flex items-center gap-1">
+                  <span className={`text-xs mr-2 ${mutedText}`}>{segment.recipients} recipients</span>
+                  <button onClick={() => editSegment(segment)} title="Edit segment" className={iconButton}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => deleteSegment(segment)} title="Delete segment" className={iconButton}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className={`p-3 rounded-lg space-y-2 ${isDark ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+          <input
+            value={segmentName}
+            onChange={(e) => setSegmentName(e.target.value)}
+            placeholder={editingId === null ? 'New segment name' : 'Segment name'}
+            maxLength={64}
+            className={`w-full ${inputClass}`}
+          />
+          <datalist id="segment-fields">
+            {customFields.map(field => <option key={field.id} value={field.key}>{field.label}</option>)}
+          </datalist>
+          {rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={rule.type}
+                onChange={(e) => updateRule(index, newRule(e.target.value as SegmentRule['type'], tags))}
+                className={inputClass}
+              >
+                {RULE_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+              </select>
+              {ruleFields(rule, index)}
+              <button
+                onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                title="Remove rule"
+                className={iconButton}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setRules(prev => [...prev, newRule(tags.length > 0 ? 'tag' : 'attribute', tags)])}
+            className="inline-flex items-center gap-1 text-sm text-blue-500 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add rule
+          </button>
+          <p className={`text-xs ${previewError ? 'text-red-500' : mutedText}`}>
+            {previewError || (recipients !== null
+              ? `${recipients} contacts match${rules.length === 0 ? ' (no rules: every contact)' : ' all rules'}, not counting opt-outs`
+              : '')}
+          </p>
+          <div className="flex justify-end gap-2">
+            {editingId !== null && (
+              <button
+                onClick={resetSegment}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={saveSegment}
+              disabled={busy || !segmentName.trim()}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+                busy || !segmentName.trim() ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {editingId === null ? 'Save segment' : 'Update segment'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AudienceManager
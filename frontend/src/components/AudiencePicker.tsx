@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react'
+import { Users } from 'lucide-react'
+import { CampaignAudience, Segment, Tag, fetchSegments, fetchTags } from '../lib/audiences'
+
+interface AudiencePickerProps {
+  audience: CampaignAudience
+  onChange: (audience: CampaignAudience) => void
+  isDark: boolean
+}
+
+const toValue = (audience: CampaignAudience): string => (audience ? `${audience.type}:${audience.id}` : '')
+
+const fromValue = (value: string): CampaignAudience => {
+  if (!value) return null
+  const [type, id] = value.split(':')
+  return { type: type as 'tag' | 'segment', id: Number(id) }
+}
+
+// Chooses whether a campaign goes to every contact, one contact list or a saved segment
+const AudiencePicker: React.FC<AudiencePickerProps> = ({ audience, onChange, isDark }) => {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [segments, setSegments] = useState<Segment[]>([])
+
+  useEffect(() => {
+    fetchTags().then(setTags)
+    fetchSegments().then(setSegments)
+  }, [])
+
+  return (
+    <div>
+      <label className={`flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <Users className="h-4 w-4 mr-2" />
+        Send to
+      </label>
+      <select
+        value={toValue(audience)}
+        onChange={(e) => onChange(fromValue(e.target.value))}
+        className={`w-full p-3 border rounded-lg ${
+          isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+        }`}
+      >
+        <option value="">All contacts</option>
+        {tags.length > 0 && (
+          <optgroup label="Lists">
+            {tags.map(tag => (
+              <option key={tag.id} value={`tag:${tag.id}`}>{tag.name} ({tag.contact_count})</option>
+            ))}
+          </optgroup>
+        )}
+        {segments.length > 0 && (
+          <optgroup label="Segments">
+            {segments.map(segment => (
+              <option key={segment.id} value={`segment:${segment.id}`}>{segment.name} ({segment.recipients})</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+    </div>
+  )
+}
+
+export default AudiencePicker
@@ -1,36 +1,210 @@
-import React, { useState, useRef } from 'react'
-import { Upload, FileText, CheckCircle, XCircle, AlertCircle, Download, Heart } from 'lucide-react'
-import { motion } from 'framer-motion'
+import React, { useEffect, useState, useRef } from 'react'
+import { Upload, FileText, CheckCircle, XCircle, AlertCircle, Download, Trash2, GitMerge } from 'lucide-react'
+import CountrySelect from './CountrySelect'
+import { Tag, fetchTags } from '../lib/audiences'
+import { CustomField, fetchCustomFields } from '../lib/customFields'
+
+type ContactField = 'phone_number' | 'name' | 'first_name' | 'last_name' | 'email'
+
+type ColumnTarget = { field: ContactField } | { attribute: string }
+
+type ColumnMapping = Record<string, ColumnTarget>
+
+interface ImportMapping {
+  id: number
+  name: string
+  columns: string[]
+  mapping: ColumnMapping
+}
+
+interface ImportPreview {
+  columns: string[]
+  sample: Record<string, string>[]
+  totalRows: number
+  mapping: ColumnMapping
+  savedMapping: { id: number, name: string } | null
+}
+
+// What happens to a row whose number is already a contact or appeared on an earlier row
+type DuplicateStrategy = 'keep_existing' | 'overwrite' | 'fill_blanks'
+
+interface ContactMerge {
+  phone_number: string
+  rows: number[]
+  existing: boolean
+  changed: string[]
+}
+
+interface UploadResult {
+  message: string
+  inserted: number
+  updated: number
+  skipped: number
+  duplicates: number
+  total: number
+  strategy: DuplicateStrategy
+  merges: ContactMerge[]
+  errors?: string[]
+}
+
+// One row of the mapping table; target '' leaves the column out, 'attribute' keeps it under the attribute name
+interface ColumnChoice {
+  column: string
+  target: ContactField | 'attribute' | ''
+  attribute: string
+}
 
 interface CSVUploadProps {
-  onContactsUploaded?: (data: any) => void
+  isDark: boolean
+  onContactsUploaded?: (result: UploadResult) => void
 }
 
-const CSVUpload: React.FC<CSVUploadProps> = ({ onContactsUploaded }) => {
+const TARGETS: Array<{ value: ColumnChoice['target'], label: string }> = [
+  { value: 'phone_number', label: 'Phone number' },
+  { value: 'name', label: 'Name' },
+  { value: 'first_name', label: 'First name' },
+  { value: 'last_name', label: 'Last name' },
+  { value: 'email', label: 'Email' },
+  { value: 'attribute', label: 'Custom field' },
+  { value: '', label: "Don't import" }
+]
+
+const DUPLICATE_STRATEGIES: Array<{ value: DuplicateStrategy, label: string, description: string }> = [
+  { value: 'keep_existing', label: 'Keep existing', description: 'Contacts already saved, and the first row for a number, are left as they are.' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Later rows replace saved values; empty cells never clear one.' },
+  { value: 'fill_blanks', label: 'Fill blanks', description: 'Later rows only fill in values the contact is missing.' }
+]
+
+// What the backend reads: CSV (also Google and Outlook exports), Excel workbooks and vCards from phones
+const ACCEPTED_EXTENSIONS = ['.csv', '.txt', '.xlsx', '.vcf', '.vcard']
+
+const attributeName = (column: string) => column.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+const toChoices = (columns: string[], mapping: ColumnMapping): ColumnChoice[] => columns.map(column => {
+  const target = mapping[column]
+  if (!target) return { column, target: '', attribute: attributeName(column) }
+  if ('field' in target) return { column, target: target.field, attribute: attributeName(column) }
+  return { column, target: 'attribute', attribute: target.attribute }
+})
+
+const toMapping = (choices: ColumnChoice[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+  for (const { column, target, attribute } of choices) {
+    if (target === 'attribute') mapping[column] = { attribute }
+    else if (target) mapping[column] = { field: target }
+  }
+  return mapping
+}
+
+// Two-step contact import: the file is previewed first so its columns can be mapped to contact
+// fields or custom fields, then sent again with that mapping, which can be saved for later files
+const CSVUpload: React.FC<CSVUploadProps> = ({ isDark, onContactsUploaded }) => {
+  const [file, setFile] = useState<File | null>(null)
+  const [country, setCountry] = useState('')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [choices, setChoices] = useState<ColumnChoice[]>([])
+  const [savedMappings, setSavedMappings] = useState<ImportMapping[]>([])
+  const [saveAs, setSaveAs] = useState('')
+  // Contact list every imported contact is added to; empty for none
+  const [listName, setListName] = useState('')
+  const [duplicates, setDuplicates] = useState<DuplicateStrategy>('keep_existing')
+  const [tags, setTags] = useState<Tag[]>([])
+  const [customFields, setCustomFields] = useState<CustomField[]>([])
   const [uploading, setUploading] = useState(false)
-  const [result, setResult] = useState<any>(null)
+  const [result, setResult] = useState<UploadResult | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [rejected, setRejected] = useState<string[]>([])
   const [dragOver, setDragOver] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  const handleFileSelect = (file: File | undefined) => {
-    if (!file) return
-    
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please select a CSV file')
+  const loadSavedMappings = async () => {
+    try {
+      const response = await fetch('/api/contacts/mappings')
+      if (response.ok) setSavedMappings(await response.json())
+    } catch (err) {
+      console.error('Error loading import mappings:', err)
+    }
+  }
+
+  useEffect(() => {
+    loadSavedMappings()
+    fetchTags().then(setTags)
+    fetchCustomFields().then(setCustomFields)
+  }, [])
+
+  const reset = () => {
+    setFile(null)
+    setPreview(null)
+    setChoices([])
+    setSaveAs('')
+    setError(null)
+    setRejected([])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleFileSelect = (selected: File | undefined) => {
+    if (!selected) return
+
+    if (!ACCEPTED_EXTENSIONS.some(extension => selected.name.toLowerCase().endsWith(extension))) {
+      setError('Please select a CSV, Excel (.xlsx) or vCard (.vcf) file')
       return
     }
 
-    uploadFile(file)
+    previewFile(selected)
   }
 
-  const uploadFile = async (file: File) => {
+  const previewFile = async (selected: File) => {
     setUploading(true)
     setError(null)
+    setRejected([])
     setResult(null)
 
+    const formData = new FormData()
+    formData.append('csvFile', selected)
+
+    try {
+      const response = await fetch('/api/contacts/upload/preview', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setFile(selected)
+        setPreview(data)
+        setChoices(toChoices(data.columns, data.mapping))
+        setSaveAs(data.savedMapping ? data.savedMapping.name : '')
+      } else {
+        setError(data.error || 'Could not read the file')
+      }
+    } catch (err) {
+      setError('Failed to upload file. Please check your connection.')
+      console.error('Upload error:', err)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const importContacts = async () => {
+    if (!file) return
+    setUploading(true)
+    setError(null)
+    setRejected([])
+
     const formData = new FormData()
     formData.append('csvFile', file)
+    formData.append('mapping', JSON.stringify(toMapping(choices)))
+    if (country) {
+      formData.append('country', country)
+    }
+    if (saveAs.trim()) {
+      formData.append('saveMappingAs', saveAs.trim())
+    }
+    if (listName.trim()) {
+      formData.append('tags', JSON.stringify([listName.trim()]))
+    }
+    formData.append('duplicates', duplicates)
 
     try {
       const response = await fetch('/api/contacts/upload', {
@@ -41,12 +215,16 @@ const CSVUpload: React.FC<CSVUploadProps> = ({ onContactsUploaded }) => {
       const data = await response.json()
 
       if (response.ok) {
+        reset()
         setResult(data)
+        if (saveAs.trim()) loadSavedMappings()
+        if (listName.trim()) fetchTags().then(setTags)
         if (onContactsUploaded) {
           onContactsUploaded(data)
         }
       } else {
         setError(data.error || 'Upload failed')
+        setRejected(data.errors || [])
       }
     } catch (err) {
       setError('Failed to upload file. Please check your connection.')
@@ -56,10 +234,36 @@ const CSVUpload: React.FC<CSVUploadProps> = ({ onContactsUploaded }) => {
     }
   }
 
+  const applySavedMapping = (id: string) => {
+    const saved = savedMappings.find(mapping => String(mapping.id) === id)
+    if (!saved || !preview) return
+    setChoices(toChoices(preview.columns, saved.mapping))
+    setSaveAs(saved.name)
+  }
+
+  const deleteSavedMapping = async (mapping: ImportMapping) => {
+    if (!confirm(`Delete the saved mapping "${mapping.name}"?`)) return
+    try {
+      const response = await fetch(`/api/contacts/mappings/${mapping.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        alert('Error deleting mapping: ' + data.error)
+      }
+    } catch (err) {
+      alert('Error deleting mapping: ' + (err as Error).message)
+    } finally {
+      loadSavedMappings()
+    }
+  }
+
+  const updateChoice = (index: number, change: Partial<ColumnChoice>) => {
+    setChoices(prev => prev.map((choice, i) => (i === index ? { ...choice, ...change } : choice)))
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setDragOver(false)
-    
+
     const files = Array.from(e.dataTransfer.files)
     if (files.length > 0) {
       handleFileSelect(files[0])
@@ -79,142 +283,344 @@ const CSVUpload: React.FC<CSVUploadProps> = ({ onContactsUploaded }) => {
     window.URL.revokeObjectURL(url)
   }
 
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+  const inputClass = `p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+
+  // Saved mappings only fit files that have every column they name
+  const applicableMappings = preview
+    ? savedMappings.filter(mapping => Object.keys(mapping.mapping).every(column => preview.columns.includes(column)))
+    : []
+  const phoneColumns = choices.filter(choice => choice.target === 'phone_number').length
+  const fieldTaken = (field: ColumnChoice['target'], index: number) =>
+    field !== '' && field !== 'attribute' && choices.some((choice, i) => i !== index && choice.target === field)
+  const missingAttribute = choices.some(choice => choice.target === 'attribute' && !attributeName(choice.attribute))
+  const canImport = phoneColumns === 1 && !missingAttribute && !uploading
+
   return (
-    <motion.div 
-      initial={{ opacity: 0, y: 20 }}
-      animate={{ opacity: 1, y: 0 }}
-      className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-6 card-hover border border-white/20"
-    >
-      <div className="flex items-center justify-between mb-6">
-        <h2 className="text-xl font-semibold gradient-text flex items-center">
-          <Heart className="w-5 h-5 mr-2 text-pink-500 heart-animation" />
-          Upload Contacts
-        </h2>
-        <button
-          onClick={downloadTemplate}
-          className="flex items-center text-blue-600 hover:text-blue-700 text-sm transition-colors"
-        >
-          <Download className="w-4 h-4 mr-1" />
-          Download Template
-        </button>
-      </div>
-
-      {/* Upload Area */}
-      <motion.div
-        whileHover={{ scale: 1.02 }}
-        className={`border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 ${
-          dragOver
-            ? 'border-pink-400 bg-pink-50'
-            : uploading
-            ? 'border-gray-300 bg-gray-50'
-            : 'border-gray-300 hover:border-pink-300 hover:bg-pink-50/50'
-        }`}
-        onDrop={handleDrop}
-        onDragOver={(e) => {
-          e.preventDefault()
-          setDragOver(true)
-        }}
-        onDragLeave={(e) => {
-          e.preventDefault()
-          setDragOver(false)
-        }}
-      >
-        {uploading ? (
-          <div className="flex flex-col items-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-600 mb-3"></div>
-            <p className="text-gray-600">Uploading contacts... ✨</p>
+    <div className="space-y-4">
+      {!preview ? (
+        <>
+          <div className="flex justify-end">
+            <button
+              onClick={downloadTemplate}
+              className="flex items-center text-blue-500 hover:text-blue-600 text-sm transition-colors"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Download Template
+            </button>
+          </div>
+
+          {/* Upload Area */}
+          <div
+            className={`border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 ${
+              dragOver
+                ? 'border-blue-400 bg-blue-50/10'
+                : isDark
+                ? 'border-gray-600 hover:border-blue-400'
+                : 'border-gray-300 hover:border-blue-300 hover:bg-blue-50/50'
+            }`}
+            onDrop={handleDrop}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDragOver(true)
+            }}
+            onDragLeave={(e) => {
+              e.preventDefault()
+              setDragOver(false)
+            }}
+          >
+            {uploading ? (
+              <div className="flex flex-col items-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mb-3"></div>
+                <p className={mutedText}>Reading file...</p>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center">
+                <Upload className="w-12 h-12 text-blue-400 mb-3" />
+                <p className={`text-lg font-medium mb-2 ${isDark ? 'text-gray-200' : 'text-gray-700'}`}>
+                  Drop your contacts file here, or{' '}
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-blue-500 hover:text-blue-600 underline"
+                  >
+                    browse
+                  </button>
+                </p>
+                <p className={`text-sm ${mutedText}`}>
+                  You choose what each column is before anything is imported
+                </p>
+              </div>
+            )}
           </div>
-        ) : (
-          <div className="flex flex-col items-center">
-            <Upload className="w-12 h-12 text-pink-400 mb-3" />
-            <p className="text-lg font-medium text-gray-700 mb-2">
-              Drop your CSV file here, or{' '}
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                className="text-pink-600 hover:text-pink-700 underline"
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            onChange={(e) => handleFileSelect(e.target.files?.[0])}
+            className="hidden"
+          />
+
+          {/* Format Info */}
+          <div className={`border rounded-xl p-4 ${isDark ? 'border-gray-700 bg-gray-700/40' : 'border-blue-200 bg-blue-50'}`}>
+            <div className="flex items-start">
+              <FileText className="w-5 h-5 text-blue-400 mt-0.5" />
+              <div className="ml-3">
+                <p className={`text-sm font-medium ${isDark ? 'text-gray-200' : 'text-blue-700'}`}>Supported files:</p>
+                <ul className={`text-sm mt-1 space-y-1 ${isDark ? 'text-gray-400' : 'text-blue-600'}`}>
+                  <li>• CSV with a header row, including Google Contacts and Outlook exports</li>
+                  <li>• Excel workbooks (.xlsx): the first sheet, with column names in its first row</li>
+                  <li>• vCards (.vcf) exported from a phone; the mobile number is used where there are several</li>
+                  <li>• Numbers without a country code are read as numbers of the country chosen on the next step</li>
+                  <li>• Any other column can be kept as a custom field and used in messages, e.g. {'{{city}}'}</li>
+                  <li>• Maximum file size: 10MB</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+              <span className="font-medium">{file?.name}</span>: {preview.totalRows} rows, {preview.columns.length} columns
+              {preview.savedMapping && <span className={mutedText}> (using saved mapping "{preview.savedMapping.name}")</span>}
+            </p>
+            {applicableMappings.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => applySavedMapping(e.target.value)}
+                className={inputClass}
               >
-                browse
-              </button>
+                <option value="">Apply saved mapping...</option>
+                {applicableMappings.map(mapping => (
+                  <option key={mapping.id} value={mapping.id}>{mapping.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className={`max-h-80 overflow-auto rounded-lg border ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+            <table className="w-full text-sm">
+              <thead className={isDark ? 'bg-gray-700 text-gray-300' : 'bg-gray-50 text-gray-600'}>
+                <tr>
+                  <th className="text-left font-medium p-2">Column</th>
+                  <th className="text-left font-medium p-2">Sample</th>
+                  <th className="text-left font-medium p-2">Import as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {choices.map((choice, index) => (
+                  <tr key={choice.column} className={`border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                    <td className={`p-2 font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>{choice.column}</td>
+                    <td className={`p-2 max-w-[12rem] truncate ${mutedText}`}>
+                      {preview.sample.map(row => row[choice.column]).filter(Boolean).slice(0, 3).join(', ')}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex gap-2">
+                        <select
+                          value={choice.target}
+                          onChange={(e) => updateChoice(index, { target: e.target.value as ColumnChoice['target'] })}
+                          className={inputClass}
+                        >
+                          {TARGETS.map(target => (
+                            <option key={target.value} value={target.value} disabled={fieldTaken(target.value, index)}>
+                              {target.label}
+                            </option>
+                          ))}
+                        </select>
+                        {choice.target === 'attribute' && (
+                          <input
+                            value={choice.attribute}
+                            onChange={(e) => updateChoice(index, { attribute: e.target.value })}
+                            list="custom-fields"
+                            placeholder="Field name"
+                            className={`w-32 ${inputClass}`}
+                          />
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <datalist id="custom-fields">
+            {customFields.map(field => <option key={field.id} value={field.key}>{field.label}</option>)}
+          </datalist>
+          {phoneColumns !== 1 && (
+            <p className="text-sm text-yellow-500">Choose the column that holds the phone numbers.</p>
+          )}
+
+          <CountrySelect country={country} onChange={setCountry} isDark={isDark} />
+
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              Duplicate numbers
+            </label>
+            <select
+              value={duplicates}
+              onChange={(e) => setDuplicates(e.target.value as DuplicateStrategy)}
+              className={`w-full ${inputClass}`}
+            >
+              {DUPLICATE_STRATEGIES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+            <p className={`text-xs mt-1 ${mutedText}`}>
+              Numbers are matched once normalized, so +44 7911 123456 and 07911 123456 are the same contact.{' '}
+              {DUPLICATE_STRATEGIES.find(option => option.value === duplicates)?.description}
+            </p>
+          </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              Add to list (optional)
+            </label>
+            <input
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              list="contact-lists"
+              placeholder="e.g. Newsletter"
+              maxLength={64}
+              className={`w-full ${inputClass}`}
+            />
+            <datalist id="contact-lists">
+              {tags.map(tag => <option key={tag.id} value={tag.name} />)}
+            </datalist>
+            <p className={`text-xs mt-1 ${mutedText}`}>
+              Every contact in the file is added, including ones already saved. A new name creates the list.
             </p>
-            <p className="text-sm text-gray-500">
-              Share your contact list ✨
+          </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              Save this mapping as (optional)
+            </label>
+            <div className="flex gap-2">
+              <input
+                value={saveAs}
+                onChange={(e) => setSaveAs(e.target.value)}
+                placeholder="e.g. CRM export"
+                maxLength={64}
+                className={`flex-1 ${inputClass}`}
+              />
+              {savedMappings.filter(mapping => mapping.name === saveAs.trim()).map(mapping => (
+                <button
+                  key={mapping.id}
+                  type="button"
+                  onClick={() => deleteSavedMapping(mapping)}
+                  title="Delete saved mapping"
+                  className={`p-2 rounded-lg ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+            <p className={`text-xs mt-1 ${mutedText}`}>
+              Saved mappings are applied automatically to files with the same columns.
             </p>
           </div>
-        )}
-      </motion.div>
-
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept=".csv"
-        onChange={(e) => handleFileSelect(e.target.files?.[0])}
-        className="hidden"
-      />
-
-      {/* Format Info */}
-      <div className="mt-4 bg-gradient-to-r from-blue-50 to-pink-50 border border-blue-200 rounded-xl p-4">
-        <div className="flex items-start">
-          <FileText className="w-5 h-5 text-blue-400 mt-0.5" />
-          <div className="ml-3">
-            <p className="text-sm font-medium text-blue-700">CSV Format Requirements:</p>
-            <ul className="text-sm text-blue-600 mt-1 space-y-1">
-              <li>• Include headers: <code className="bg-blue-200 px-1 rounded">phone_number</code> and <code className="bg-blue-200 px-1 rounded">name</code></li>
-              <li>• Phone numbers should include country code (e.g., +1234567890)</li>
-              <li>• Alternative column names: phone, number, Phone, Number, Name, first_name</li>
-              <li>• Maximum file size: 10MB</li>
-            </ul>
+
+          <div className="flex justify-between">
+            <button
+              onClick={reset}
+              disabled={uploading}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+            >
+              Back
+            </button>
+            <button
+              onClick={importContacts}
+              disabled={!canImport}
+              className={`px-4 py-2 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+                canImport ? '' : 'opacity-50 cursor-not-allowed'
+              }`}
+            >
+              {uploading ? 'Importing...' : `Import ${preview.totalRows} rows`}
+            </button>
           </div>
-        </div>
-      </div>
+        </>
+      )}
 
       {/* Error Message */}
       {error && (
-        <motion.div 
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="mt-4 bg-red-50 border border-red-200 rounded-xl p-4"
-        >
+        <div className={`border rounded-xl p-4 ${isDark ? 'bg-red-900/20 border-red-800' : 'bg-red-50 border-red-200'}`}>
           <div className="flex">
             <XCircle className="w-5 h-5 text-red-400" />
             <div className="ml-3">
-              <p className="text-sm text-red-800">{error}</p>
+              <p className={`text-sm ${isDark ? 'text-red-300' : 'text-red-800'}`}>{error}</p>
+              {rejected.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {rejected.slice(0, 5).map((message, index) => (
+                    <li key={index} className="text-red-400 text-xs">{message}</li>
+                  ))}
+                  {rejected.length > 5 && (
+                    <li className="text-red-400 text-xs">... and {rejected.length - 5} more</li>
+                  )}
+                </ul>
+              )}
             </div>
           </div>
-        </motion.div>
+        </div>
       )}
 
       {/* Success Result */}
       {result && (
-        <motion.div 
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="mt-4 bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-xl p-4"
-        >
+        <div className={`border rounded-xl p-4 ${isDark ? 'bg-green-900/20 border-green-800' : 'bg-green-50 border-green-200'}`}>
           <div className="flex">
             <CheckCircle className="w-5 h-5 text-green-400" />
             <div className="ml-3">
-              <p className="text-sm text-green-800 font-medium">
-                {result.message} 💕
+              <p className={`text-sm font-medium ${isDark ? 'text-green-300' : 'text-green-800'}`}>
+                {result.message}
               </p>
-              <div className="text-sm text-green-700 mt-2 space-y-1">
+              <div className={`text-sm mt-2 space-y-1 ${isDark ? 'text-green-400' : 'text-green-700'}`}>
                 <p>• {result.inserted} contacts added</p>
+                {result.updated > 0 && (
+                  <p>• {result.updated} existing contacts updated</p>
+                )}
                 {result.skipped > 0 && (
-                  <p>• {result.skipped} contacts were already in your contact list</p>
+                  <p>• {result.skipped} contacts were already in your contact list and kept as they were</p>
+                )}
+                {result.duplicates > 0 && (
+                  <p>• {result.duplicates} rows repeated a number from an earlier row and were merged into it</p>
+                )}
+                {result.merges.length > 0 && (
+                  <details className="mt-2">
+                    <summary className="cursor-pointer flex items-center">
+                      <GitMerge className="w-4 h-4 mr-1" />
+                      {result.merges.length} numbers merged
+                    </summary>
+                    <ul className="mt-2 ml-5 space-y-1">
+                      {result.merges.slice(0, 10).map(merge => (
+                        <li key={merge.phone_number} className="text-xs">
+                          {merge.phone_number}: row{merge.rows.length > 1 ? 's' : ''} {merge.rows.join(', ')}
+                          {merge.existing ? ' into the saved contact' : ''}
+                          {merge.changed.length > 0 ? ` · set ${merge.changed.join(', ')}` : ' · nothing changed'}
+                        </li>
+                      ))}
+                      {result.merges.length > 10 && (
+                        <li className="text-xs">... and {result.merges.length - 10} more</li>
+                      )}
+                    </ul>
+                  </details>
                 )}
                 {result.errors && result.errors.length > 0 && (
                   <details className="mt-2">
-                    <summary className="cursor-pointer text-yellow-700 flex items-center">
+                    <summary className="cursor-pointer text-yellow-500 flex items-center">
                       <AlertCircle className="w-4 h-4 mr-1" />
-                      {result.errors.length} minor issues
+                      {result.errors.length} rows skipped
                     </summary>
                     <ul className="mt-2 ml-5 space-y-1">
-                      {result.errors.slice(0, 5).map((error: string, index: number) => (
-                        <li key={index} className="text-yellow-600 text-xs">
-                          {error}
+                      {result.errors.slice(0, 5).map((message, index) => (
+                        <li key={index} className="text-yellow-500 text-xs">
+                          {message}
                         </li>
                       ))}
                       {result.errors.length > 5 && (
-                        <li className="text-yellow-600 text-xs">
+                        <li className="text-yellow-500 text-xs">
                           ... and {result.errors.length - 5} more
                         </li>
                       )}
@@ -224,9 +630,9 @@ const CSVUpload: React.FC<CSVUploadProps> = ({ onContactsUploaded }) => {
               </div>
             </div>
           </div>
-        </motion.div>
+        </div>
       )}
-    </motion.div>
+    </div>
   )
 }
 
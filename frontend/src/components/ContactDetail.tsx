@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { ArrowLeft, Ban, History, Pencil, Plus, SlidersHorizontal, Tags, Trash2, X } from 'lucide-react'
+import ContactFieldsForm from './ContactFieldsForm'
+import ContactForm from './ContactForm'
+import { Tag, fetchTags } from '../lib/audiences'
+import { ContactDetail as Detail } from '../lib/contacts'
+import { CustomField, fetchCustomFields } from '../lib/customFields'
+import { jsonRequest, useRequest } from '../lib/request'
+
+interface ContactDetailProps {
+  contactId: number
+  isDark: boolean
+  onBack: () => void
+  // Called after the contact is edited or deleted
+  onChange?: () => void
+}
+
+// Media without a caption has no text to show
+const describe = (body: string, type: string) => body || `[${type === 'ptt' ? 'voice note' : type}]`
+
+// One contact's details, lists, opt-out and every message exchanged with their number
+const ContactDetail: React.FC<ContactDetailProps> = ({ contactId, isDark, onBack, onChange }) => {
+  const [contact, setContact] = useState<Detail | null>(null)
+  const [tags, setTags] = useState<Tag[]>([])
+  const [fields, setFields] = useState<CustomField[]>([])
+  const [editing, setEditing] = useState(false)
+  const [tagId, setTagId] = useState('')
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/contacts/${contactId}`)
+      if (response.ok) setContact(await response.json())
+    } catch (error) {
+      console.error('Error loading contact:', error)
+    }
+  }, [contactId])
+
+  useEffect(() => {
+    load()
+    fetchTags().then(setTags)
+    fetchCustomFields().then(setFields)
+  }, [load])
+
+  const { busy, request } = useRequest(load)
+
+  if (!contact) {
+    return <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>Loading contact...</p>
+  }
+
+  const setLists = async (tagIds: number[]) => {
+    const result = await request('updating lists', `/api/contacts/${contact.id}`, jsonRequest('PUT', {
+      phone_number: contact.phone_number,
+      name: contact.name,
+      email: contact.email,
+      country: contact.phone_country,
+      tagIds
+    }))
+    if (result) setTagId('')
+  }
+
+  const toggleOptOut = () => {
+    if (contact.suppression) {
+      if (!confirm(`Allow messages to ${contact.phone_number} again?`)) return
+      request('removing opt-out', `/api/suppressions/${contact.suppression.phone_number}`, { method: 'DELETE' })
+    } else {
+      if (!confirm(`Stop all campaigns and replies to ${contact.phone_number}?`)) return
+      request('opting out', '/api/suppressions', jsonRequest('POST', { phone_number: contact.phone_number, note: 'Opted out from the contact page' }))
+    }
+  }
+
+  const remove = async () => {
+    if (!confirm(`Delete ${contact.name || contact.phone_number}? Their message history and opt-out are kept.`)) return
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const result = await response.json()
+        alert('Error deleting contact: ' + result.error)
+        return
+      }
+      onChange?.()
+      onBack()
+    } catch (error) {
+      alert('Error deleting contact: ' + (error as Error).message)
+    }
+  }
+
+  const availableTags = tags.filter(tag => !contact.tags.some(current => current.id === tag.id))
+
+  const labelClass = `flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+  const iconButton = `p-1 rounded ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2">
+          <button onClick={onBack} title="Back to contacts" className={iconButton}>
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <div>
+            <h4 className={`font-semibold flex items-center gap-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+              {contact.name || contact.phone_number}
+              {contact.suppression && (
+                <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">Opted out</span>
+              )}
+              {contact.whatsapp_registered === false && (
+                <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">Not on WhatsApp</span>
+              )}
+            </h4>
+            <p className={`text-xs ${mutedText}`}>
+              {contact.phone_number}
+              {contact.phone_country ? ` · ${contact.phone_country}` : ''}
+              {contact.phone_type ? ` · ${contact.phone_type.toLowerCase().replace(/_/g, ' ')}` : ''}
+              {contact.email ? ` · ${contact.email}` : ''}
+            </p>
+            <p className={`text-xs ${mutedText}`}>
+              Added {new Date(contact.created_at).toLocaleDateString()}
+              {contact.whatsapp_checked_at
+                ? ` · ${contact.whatsapp_registered ? 'On WhatsApp' : 'Not on WhatsApp, so campaigns skip it'} as of ${new Date(contact.whatsapp_checked_at).toLocaleDateString()}`
+                : ' · Not yet checked on WhatsApp'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={toggleOptOut}
+            disabled={busy}
+            title={contact.suppression ? 'Allow messages again' : 'Opt out'}
+            className={iconButton}
+          >
+            <Ban className="w-4 h-4" />
+          </button>
+          <button onClick={() => setEditing(!editing)} title="Edit contact" className={iconButton}>
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={remove} title="Delete contact" className={iconButton}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {contact.suppression && (
+        <p className={`text-xs ${mutedText}`}>
+          Opted out {new Date(contact.suppression.created_at).toLocaleDateString()}
+          {contact.suppression.note ? `: ${contact.suppression.note}` : ''}
+        </p>
+      )}
+
+      {editing && (
+        <ContactForm
+          contact={contact}
+          isDark={isDark}
+          onCancel={() => setEditing(false)}
+          onSaved={() => {
+            setEditing(false)
+            load()
+            onChange?.()
+          }}
+        />
+      )}
+
+      <div>
+        <label className={labelClass}>
+          <Tags className="h-4 w-4 mr-2" />
+          Lists
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          {contact.tags.length === 0 && <span className={`text-xs ${mutedText}`}>Not on any list.</span>}
+          {contact.tags.map(tag => (
+            <span
+              key={tag.id}
+              className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded-full ${
+                isDark ? 'bg-gray-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {tag.name}
+              <button
+                onClick={() => setLists(contact.tags.filter(current => current.id !== tag.id).map(current => current.id))}
+                disabled={busy}
+                title="Remove from list"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {availableTags.length > 0 && (
+            <div className="flex items-center gap-1">
+              <select
+                value={tagId}
+                onChange={(e) => setTagId(e.target.value)}
+                className={`p-1 border rounded text-xs ${
+                  isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+                }`}
+              >
+                <option value="">Add to list...</option>
+                {availableTags.map(tag => <option key={tag.id} value={tag.id}>{tag.name}</option>)}
+              </select>
+              <button
+                onClick={() => setLists([...contact.tags.map(tag => tag.id), parseInt(tagId, 10)])}
+                disabled={busy || !tagId}
+                title="Add to list"
+                className={iconButton}
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Custom fields
+        </label>
+        <ContactFieldsForm
+          contactId={contact.id}
+          attributes={contact.attributes || {}}
+          fields={fields}
+          isDark={isDark}
+          onSaved={() => {
+            load()
+            onChange?.()
+          }}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>
+          <History className="h-4 w-4 mr-2" />
+          Messages
+        </label>
+        {contact.timeline.length === 0 ? (
+          <p className={`text-xs ${mutedText}`}>No messages have been exchanged with this number yet.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+            {contact.timeline.map(entry => (
+              <div key={entry.key} className={`flex ${entry.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] px-3 py-2 rounded-lg text-sm ${
+                  entry.direction === 'outbound'
+                    ? 'bg-green-500 text-white'
+                    : isDark ? 'bg-gray-700 text-gray-100' : 'bg-gray-100 text-gray-900'
+                }`}>
+                  {entry.campaign_name && entry.direction === 'outbound' && (
+                    <p className="text-xs opacity-75 mb-1">Campaign: {entry.campaign_name}</p>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">{describe(entry.body, entry.type)}</p>
+                  <p className={`text-xs mt-1 ${entry.direction === 'outbound' ? 'opacity-75' : mutedText}`}>
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.direction === 'outbound' && entry.status && entry.status !== 'sent' && ` · ${entry.status}`}
+                    {entry.status === 'failed' && entry.error_message ? `: ${entry.error_message}` : ''}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ContactDetail
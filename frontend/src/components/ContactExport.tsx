@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react'
+import { Download } from 'lucide-react'
+import { Tag, fetchTags } from '../lib/audiences'
+
+type ExportFormat = 'csv' | 'xlsx' | 'vcf'
+
+interface ContactExportProps {
+  // Campaigns to filter by the one that last messaged a contact
+  campaigns: Array<{ id: number, name: string }>
+  isDark: boolean
+}
+
+const FORMATS: Array<{ value: ExportFormat, label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'vcf', label: 'vCard (.vcf)' }
+]
+
+// Downloads the contacts matching the chosen filters, in a format spreadsheets or phones can open
+const ContactExport: React.FC<ContactExportProps> = ({ campaigns, isDark }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [optedOut, setOptedOut] = useState('')
+  const [lastCampaignId, setLastCampaignId] = useState('')
+  const [tagId, setTagId] = useState('')
+  const [tags, setTags] = useState<Tag[]>([])
+  const [createdFrom, setCreatedFrom] = useState('')
+  const [createdTo, setCreatedTo] = useState('')
+  const [downloading, setDownloading] = useState(false)
+
+  useEffect(() => {
+    fetchTags().then(setTags)
+  }, [])
+
+  const download = async () => {
+    const params = new URLSearchParams({ format })
+    if (optedOut) params.set('optedOut', optedOut)
+    if (lastCampaignId) params.set('lastCampaignId', lastCampaignId)
+    if (tagId) params.set('tagId', tagId)
+    if (createdFrom) params.set('createdFrom', createdFrom)
+    if (createdTo) params.set('createdTo', createdTo)
+
+    try {
+      setDownloading(true)
+      const response = await fetch(`/api/contacts/export?${params}`)
+      if (!response.ok) {
+        const result = await response.json()
+        alert('Error exporting contacts: ' + result.error)
+        return
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `contacts.${format}`
+      const url = window.URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      alert('Error exporting contacts: ' + (error as Error).message)
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const labelClass = `block text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`
+  const inputClass = `w-full p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Opt-out status</label>
+          <select value={optedOut} onChange={(e) => setOptedOut(e.target.value)} className={inputClass}>
+            <option value="">All contacts</option>
+            <option value="false">Can be messaged</option>
+            <option value="true">Opted out</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Last campaign</label>
+          <select value={lastCampaignId} onChange={(e) => setLastCampaignId(e.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            {campaigns.map(campaign => (
+              <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Added from</label>
+          <input type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Added until</label>
+          <input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} className={inputClass} />
+        </div>
+        {tags.length > 0 && (
+          <div className="col-span-2">
+            <label className={labelClass}>List</label>
+            <select value={tagId} onChange={(e) => setTagId(e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {tags.map(tag => (
+                <option key={tag.id} value={tag.id}>{tag.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>Format</label>
+        <div className="flex gap-4">
+          {FORMATS.map(option => (
+            <label key={option.value} className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              <input
+                type="radio"
+                name="exportFormat"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          CSV and Excel files include custom fields and can be imported again; vCards keep name, number and email.
+        </p>
+      </div>
+
+      <button
+        onClick={download}
+        disabled={downloading}
+        className={`w-full inline-flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+          downloading ? 'opacity-50 cursor-not-allowed' : ''
+        }`}
+      >
+        <Download className="w-4 h-4" />
+        {downloading ? 'Exporting...' : 'Download'}
+      </button>
+    </div>
+  )
+}
+
+export default ContactExport
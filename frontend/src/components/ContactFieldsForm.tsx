@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react'
+import { CustomField } from '../lib/customFields'
+import { AttributeValue, attributeText } from '../lib/template'
+
+interface ContactFieldsFormProps {
+  contactId: number
+  attributes: Record<string, AttributeValue>
+  fields: CustomField[]
+  isDark: boolean
+  onSaved?: (attributes: Record<string, AttributeValue>) => void
+}
+
+// Form values are text; booleans as 'true' / 'false' so a select can hold them
+const toInput = (value: AttributeValue | undefined): string =>
+  typeof value === 'boolean' ? String(value) : attributeText(value)
+
+// Edits one contact's custom field values; the backend checks each against its field's type
+const ContactFieldsForm: React.FC<ContactFieldsFormProps> = ({ contactId, attributes, fields, isDark, onSaved }) => {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setValues(Object.fromEntries(fields.map(field => [field.key, toInput(attributes[field.key])])))
+  }, [attributes, fields])
+
+  const save = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/contacts/${contactId}/attributes`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attributes: values })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error saving fields: ' + result.error)
+        return
+      }
+      if (onSaved) onSaved(result.attributes)
+    } catch (error) {
+      alert('Error saving fields: ' + (error as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = `w-full p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+
+  if (fields.length === 0) {
+    return (
+      <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+        No custom fields are defined yet.
+      </p>
+    )
+  }
+
+  const input = (field: CustomField) => {
+    const value = values[field.key] ?? ''
+    const update = (next: string) => setValues(prev => ({ ...prev, [field.key]: next }))
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <select value={value} onChange={(e) => update(e.target.value)} className={inputClass}>
+            <option value="">Not set</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        )
+      case 'enum':
+        return (
+          <select value={value} onChange={(e) => update(e.target.value)} className={inputClass}>
+            <option value="">Not set</option>
+            {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        )
+      default:
+        return (
+          <input
+            type={field.type === 'text' ? 'text' : field.type}
+            value={value}
+            onChange={(e) => update(e.target.value)}
+            className={inputClass}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(field => (
+          <div key={field.key}>
+            <span className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{field.label}</span>
+            {input(field)}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={save}
+        disabled={saving}
+        className={`w-full py-2 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+          saving ? 'opacity-50 cursor-not-allowed' : ''
+        }`}
+      >
+        {saving ? 'Saving...' : 'Save fields'}
+      </button>
+    </div>
+  )
+}
+
+export default ContactFieldsForm
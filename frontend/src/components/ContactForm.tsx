@@ -0,0 +1,87 @@
+import React, { useState } from 'react'
+import CountrySelect from './CountrySelect'
+import { Contact } from '../lib/contacts'
+
+interface ContactFormProps {
+  // The contact being edited; a new one is created without it
+  contact?: Contact
+  isDark: boolean
+  onSaved: (contact: Contact) => void
+  onCancel: () => void
+}
+
+// Name, number and email of a single contact; custom fields and lists are edited on the detail view
+const ContactForm: React.FC<ContactFormProps> = ({ contact, isDark, onSaved, onCancel }) => {
+  const [name, setName] = useState(contact?.name || '')
+  const [phone, setPhone] = useState(contact?.phone_number || '')
+  const [email, setEmail] = useState(contact?.email || '')
+  const [country, setCountry] = useState(contact?.phone_country || '')
+  const [saving, setSaving] = useState(false)
+
+  const save = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch(contact ? `/api/contacts/${contact.id}` : '/api/contacts', {
+        method: contact ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone_number: phone, name, email, country })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error saving contact: ' + result.error)
+        return
+      }
+      onSaved(result)
+    } catch (error) {
+      alert('Error saving contact: ' + (error as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = `w-full p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const labelClass = `block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <span className={labelClass}>Name</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <span className={labelClass}>Phone number</span>
+          <input value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+447911123456" className={inputClass} />
+        </div>
+        <div className="col-span-2">
+          <span className={labelClass}>Email</span>
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+      <CountrySelect country={country} onChange={setCountry} isDark={isDark} />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+            isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+          }`}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving || !phone.trim()}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+            saving || !phone.trim() ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          {saving ? 'Saving...' : contact ? 'Save contact' : 'Add contact'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ContactForm
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { BadgeCheck, ChevronRight, Search, UserPlus } from 'lucide-react'
+import ContactDetail from './ContactDetail'
+import ContactForm from './ContactForm'
+import { Contact } from '../lib/contacts'
+import { VerificationProgress, subscribe } from '../lib/serverEvents'
+
+interface ContactListProps {
+  isDark: boolean
+  // Called after a contact is added, edited or deleted
+  onContactsChange?: () => void
+}
+
+// Searchable list of contacts; choosing one opens its detail view
+const ContactList: React.FC<ContactListProps> = ({ isDark, onContactsChange }) => {
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [search, setSearch] = useState('')
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [adding, setAdding] = useState(false)
+  const [verification, setVerification] = useState<VerificationProgress | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/contacts?search=${encodeURIComponent(search.trim())}`)
+      if (response.ok) setContacts(await response.json())
+    } catch (error) {
+      console.error('Error loading contacts:', error)
+    }
+  }, [search])
+
+  // Waits for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(load, 300)
+    return () => clearTimeout(timer)
+  }, [load])
+
+  const changed = () => {
+    load()
+    onContactsChange?.()
+  }
+
+  useEffect(() => {
+    const loadVerification = async () => {
+      try {
+        const response = await fetch('/api/contacts/verify')
+        if (response.ok) setVerification((await response.json()).progress)
+      } catch (error) {
+        console.error('Error loading number check:', error)
+      }
+    }
+    loadVerification()
+    return subscribe('verification', setVerification)
+  }, [])
+
+  // Shows the outcome once the check finishes; searching reloads on its own
+  useEffect(() => {
+    if (verification && !verification.isActive) load()
+  }, [verification?.isActive])
+
+  // Checks numbers not checked in the last 30 days; `all` checks every number again
+  const verify = async (all: boolean) => {
+    try {
+      const response = await fetch('/api/contacts/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ all })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error checking numbers: ' + result.error)
+        return
+      }
+      setVerification(result.progress)
+    } catch (error) {
+      alert('Error checking numbers: ' + (error as Error).message)
+    }
+  }
+
+  if (selectedId !== null) {
+    return (
+      <ContactDetail
+        contactId={selectedId}
+        isDark={isDark}
+        onBack={() => setSelectedId(null)}
+        onChange={changed}
+      />
+    )
+  }
+
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className={`absolute left-2 top-2.5 w-4 h-4 ${mutedText}`} />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, number or email"
+            className={`w-full pl-8 p-2 border rounded-lg text-sm ${
+              isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+            }`}
+          />
+        </div>
+        <button
+          onClick={() => setAdding(!adding)}
+          className="flex items-center px-3 py-1.5 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white"
+        >
+          <UserPlus className="w-4 h-4 mr-1" />
+          Add contact
+        </button>
+      </div>
+
+      <div className={`flex items-center justify-between gap-2 text-xs ${mutedText}`}>
+        <span>
+          {!verification
+            ? 'Check which numbers have WhatsApp so campaigns skip the ones that do not.'
+            : verification.isActive
+              ? `Checking numbers on WhatsApp: ${verification.checked} of ${verification.total}...`
+              : `Last check: ${verification.registered} on WhatsApp, ${verification.unregistered} not` +
+                (verification.failed > 0 ? `, ${verification.failed} could not be checked` : '')}
+        </span>
+        <div className="flex items-center gap-3 shrink-0">
+          <button
+            onClick={() => verify(false)}
+            disabled={!!verification?.isActive}
+            className={`flex items-center text-blue-500 hover:underline ${verification?.isActive ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <BadgeCheck className="w-4 h-4 mr-1" />
+            Check numbers
+          </button>
+          <button
+            onClick={() => verify(true)}
+            disabled={!!verification?.isActive}
+            title="Check every number again, including those checked in the last 30 days"
+            className={`text-blue-500 hover:underline ${verification?.isActive ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            Recheck all
+          </button>
+        </div>
+      </div>
+
+      {adding && (
+        <div className={`p-3 rounded-lg ${isDark ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+          <ContactForm
+            isDark={isDark}
+            onCancel={() => setAdding(false)}
+            onSaved={(contact) => {
+              setAdding(false)
+              changed()
+              setSelectedId(contact.id)
+            }}
+          />
+        </div>
+      )}
+
+      {contacts.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>{search.trim() ? 'No contacts match your search.' : 'No contacts yet.'}</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          {contacts.map(contact => (
+            <button
+              key={contact.id}
+              onClick={() => setSelectedId(contact.id)}
+              className={`w-full flex items-center justify-between gap-2 py-2 px-1 text-left border-b last:border-0 ${
+                isDark ? 'border-gray-700 hover:bg-gray-700/50' : 'border-gray-100 hover:bg-gray-50'
+              }`}
+            >
+              <div>
+                <span className={`text-sm ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>
+                  {contact.name || contact.phone_number}
+                </span>
+                {contact.whatsapp_registered === false && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">Not on WhatsApp</span>
+                )}
+                <p className={`text-xs ${mutedText}`}>
+                  {contact.phone_number}{contact.email ? ` · ${contact.email}` : ''}
+                </p>
+              </div>
+              <ChevronRight className={`w-4 h-4 ${mutedText}`} />
+            </button>
+          ))}
+        </div>
+      )}
+      <p className={`text-xs ${mutedText}`}>{contacts.length} contact(s)</p>
+    </div>
+  )
+}
+
+export default ContactList
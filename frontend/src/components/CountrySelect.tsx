@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react'
+import { Globe } from 'lucide-react'
+
+interface Country {
+  code: string
+  callingCode: string
+}
+
+interface CountrySelectProps {
+  // Country numbers without a country code are read as; empty until the saved default has loaded
+  country: string
+  onChange: (country: string) => void
+  isDark: boolean
+}
+
+const regionNames = typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames(undefined, { type: 'region' }) : null
+
+const countryLabel = (country: Country) => `${regionNames?.of(country.code) || country.code} (+${country.callingCode})`
+
+// Picks the country for an import, starting from the saved default, which it can also replace
+const CountrySelect: React.FC<CountrySelectProps> = ({ country, onChange, isDark }) => {
+  const [countries, setCountries] = useState<Country[]>([])
+  const [defaultCountry, setDefaultCountry] = useState('')
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/contacts/default-country')
+        if (!response.ok) return
+        const result = await response.json()
+        setCountries([...result.countries].sort((a: Country, b: Country) => countryLabel(a).localeCompare(countryLabel(b))))
+        setDefaultCountry(result.country)
+        if (!country) onChange(result.country)
+      } catch (error) {
+        console.error('Error loading countries:', error)
+      }
+    }
+    load()
+    // Loaded once; the chosen country is owned by the parent
+  }, [])
+
+  const saveDefault = async () => {
+    try {
+      const response = await fetch('/api/contacts/default-country', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ country })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error saving default country: ' + result.error)
+      } else {
+        setDefaultCountry(result.country)
+      }
+    } catch (error) {
+      alert('Error saving default country: ' + (error as Error).message)
+    }
+  }
+
+  return (
+    <div>
+      <label className={`flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <Globe className="h-4 w-4 mr-2" />
+        Country for numbers without a country code
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={country}
+          onChange={(e) => onChange(e.target.value)}
+          className={`flex-1 p-2 border rounded-lg text-sm ${
+            isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+          }`}
+        >
+          {countries.map(option => (
+            <option key={option.code} value={option.code}>{countryLabel(option)}</option>
+          ))}
+        </select>
+        {country && country !== defaultCountry && (
+          <button
+            type="button"
+            onClick={saveDefault}
+            className="px-3 rounded-lg text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            Make default
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CountrySelect
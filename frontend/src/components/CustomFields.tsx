@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Pencil, SlidersHorizontal, Trash2, UserCog } from 'lucide-react'
+import ContactFieldsForm from './ContactFieldsForm'
+import { CustomField, CustomFieldType, FIELD_TYPES, fetchCustomFields } from '../lib/customFields'
+import { AttributeValue } from '../lib/template'
+
+interface CustomFieldsProps {
+  // Contacts whose values can be edited here
+  contacts: Array<{ id: number, name: string, phone_number: string, attributes?: Record<string, AttributeValue> }>
+  isDark: boolean
+  onContactsChange?: () => void
+}
+
+const typeLabel = (type: CustomFieldType): string => FIELD_TYPES.find(option => option.value === type)?.label || type
+
+// Defines the custom fields every contact can have and edits a contact's values
+const CustomFields: React.FC<CustomFieldsProps> = ({ contacts, isDark, onContactsChange }) => {
+  const [fields, setFields] = useState<CustomField[]>([])
+  // Field being edited; null while defining a new one
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [label, setLabel] = useState('')
+  const [type, setType] = useState<CustomFieldType>('text')
+  const [options, setOptions] = useState('')
+  const [contactId, setContactId] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    setFields(await fetchCustomFields())
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const reset = () => {
+    setEditingId(null)
+    setLabel('')
+    setType('text')
+    setOptions('')
+  }
+
+  const edit = (field: CustomField) => {
+    setEditingId(field.id)
+    setLabel(field.label)
+    setType(field.type)
+    setOptions(field.options.join(', '))
+  }
+
+  const save = async () => {
+    try {
+      setBusy(true)
+      const response = await fetch(editingId === null ? '/api/custom-fields' : `/api/custom-fields/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label, type, options })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error saving field: ' + result.error)
+        return
+      }
+      if (result.invalid > 0) {
+        alert(`${result.invalid} existing value(s) of ${result.label} are not a valid ${typeLabel(result.type).toLowerCase()} and were left as they are.`)
+      }
+      reset()
+      if (result.converted > 0 && onContactsChange) onContactsChange()
+    } catch (error) {
+      alert('Error saving field: ' + (error as Error).message)
+    } finally {
+      setBusy(false)
+      load()
+    }
+  }
+
+  const remove = async (field: CustomField) => {
+    if (!confirm(`Delete the field "${field.label}"? Contacts keep its values as plain text attributes.`)) return
+    try {
+      const response = await fetch(`/api/custom-fields/${field.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const result = await response.json()
+        alert('Error deleting field: ' + result.error)
+      }
+    } catch (error) {
+      alert('Error deleting field: ' + (error as Error).message)
+    } finally {
+      if (editingId === field.id) reset()
+      load()
+    }
+  }
+
+  const contact = contacts.find(candidate => String(candidate.id) === contactId)
+
+  const inputClass = `p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const labelClass = `flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+  const iconButton = `p-1 rounded ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className={labelClass}>
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Fields
+        </label>
+        {fields.length === 0 ? (
+          <p className={`text-xs mb-3 ${mutedText}`}>No custom fields yet.</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto mb-3">
+            {fields.map(field => (
+              <div
+                key={field.id}
+                className={`flex items-center justify-between gap-2 py-2 border-b last:border-0 ${
+                  isDark ? 'border-gray-700' : 'border-gray-100'
+                }`}
+              >
+                <div>
+                  <span className={`text-sm ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{field.label}</span>
+                  <span className={`ml-2 text-xs font-mono ${mutedText}`}>{`{{${field.key}}}`}</span>
+                  <p className={`text-xs ${mutedText}`}>
+                    {typeLabel(field.type)}{field.type === 'enum' ? `: ${field.options.join(', ')}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => edit(field)} title="Edit field" className={iconButton}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => remove(field)} title="Delete field" className={iconButton}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className={`p-3 rounded-lg space-y-2 ${isDark ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+          <div className="flex gap-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={editingId === null ? 'New field label, e.g. Signup date' : 'Field label'}
+              maxLength={64}
+              className={`flex-1 ${inputClass}`}
+            />
+            <select value={type} onChange={(e) => setType(e.target.value as CustomFieldType)} className={inputClass}>
+              {FIELD_TYPES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+          {type === 'enum' && (
+            <input
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+              placeholder="Options, separated by commas"
+              className={`w-full ${inputClass}`}
+            />
+          )}
+          <p className={`text-xs ${mutedText}`}>
+            Values contacts already have under this name are converted to the type. Imported columns named like the
+            field fill it.
+          </p>
+          <div className="flex justify-end gap-2">
+            {editingId !== null && (
+              <button
+                onClick={reset}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={save}
+              disabled={busy || !label.trim()}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+                busy || !label.trim() ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {editingId === null ? 'Add field' : 'Update field'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {fields.length > 0 && (
+        <div>
+          <label className={labelClass}>
+            <UserCog className="h-4 w-4 mr-2" />
+            Contact values
+          </label>
+          <select value={contactId} onChange={(e) => setContactId(e.target.value)} className={`w-full mb-3 ${inputClass}`}>
+            <option value="">Choose a contact</option>
+            {contacts.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.name ? `${candidate.name} (${candidate.phone_number})` : candidate.phone_number}
+              </option>
+            ))}
+          </select>
+          {contact && (
+            <ContactFieldsForm
+              contactId={contact.id}
+              attributes={contact.attributes || {}}
+              fields={fields}
+              isDark={isDark}
+              onSaved={onContactsChange}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CustomFields
@@ -1,5 +1,26 @@
-import React, { useState, useEffect } from 'react'
-import { Users, MessageSquare, Send, BarChart3, Plus, TrendingUp, Upload, CheckCircle, XCircle, Clock, RefreshCw, Heart, Wifi, Moon, Sun, X } from 'lucide-react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { Users, MessageSquare, Send, BarChart3, Plus, TrendingUp, Upload, CheckCircle, XCircle, Clock, RefreshCw, Heart, Wifi, Moon, Sun, X, Paperclip, CalendarClock, CheckCheck, Eye, Inbox as InboxIcon, Download, Tags, Split, Trophy } from 'lucide-react'
+import ProgressTracker from './ProgressTracker'
+import MessageComposer from './MessageComposer'
+import SendingLimits from './SendingLimits'
+import ScheduledCampaigns from './ScheduledCampaigns'
+import Inbox from './Inbox'
+import SuppressionList from './SuppressionList'
+import WhatsAppAccounts from './WhatsAppAccounts'
+import SenderPicker from './SenderPicker'
+import CSVUpload from './CSVUpload'
+import ContactExport from './ContactExport'
+import AudiencePicker from './AudiencePicker'
+import AudienceManager from './AudienceManager'
+import CustomFields from './CustomFields'
+import ContactList from './ContactList'
+import VariantEditor from './VariantEditor'
+import { CampaignAction, CampaignProgress, SystemStatus, subscribe } from '../lib/serverEvents'
+import { CampaignEstimate, ThrottleSettings, defaultThrottle, formatEstimate } from '../lib/throttle'
+import { fromDateTimeInput, minDateTimeInput } from '../lib/schedule'
+import { CampaignAudience } from '../lib/audiences'
+import { AttributeValue } from '../lib/template'
+import { CampaignVariant, VariantStats, WINNER_METRICS, WinnerTest, evenSplit } from '../lib/variants'
 
 interface Metrics {
   totalContacts: number
@@ -8,25 +29,16 @@ interface Metrics {
   sentMessages: number
 }
 
-interface CampaignProgress {
-  isActive: boolean
-  percentage: number
-  currentCampaign: string | null
-  totalContacts: number
-  sentCount: number
-}
-
-interface SystemStatus {
-  backend: string
-  whatsapp: string
-  authenticated: boolean
-}
-
 interface Contact {
   id: number
+  // E.164; phone_original keeps the number as imported
   phone_number: string
+  phone_original: string | null
+  phone_country: string | null
+  phone_type: string | null
   name: string
   email?: string
+  attributes?: Record<string, AttributeValue>
   created_at: string
 }
 
@@ -37,15 +49,126 @@ interface Campaign {
   status: string
   sent_count: number
   failed_count: number
+  // Sent messages with a delivery receipt, and those also read
+  delivered_count: number
+  read_count: number
   total_messages: number
+  media_id: string | null
+  media_filename: string | null
+  media_mimetype: string | null
+  throttle: ThrottleSettings
+  // WhatsApp accounts the campaign sends from; null for all of them
+  senders: string[] | null
+  // List or segment the campaign sends to; null for every contact
+  audience: CampaignAudience
+  scheduled_at: string | null
+  // Messages split over the recipients instead of the single message, with their counters so far
+  variants: CampaignVariant[] | null
+  variant_stats?: VariantStats[]
+  // Counters of the test phase alone, once its winner has gone to the rest
+  test_stats?: VariantStats[]
+  // Test phase before the winning variant goes to the rest; test_ends_at is set once the variants are sent
+  winner_test: WinnerTest | null
+  winner_variant: number | null
+  test_ends_at: string | null
+  // Only present on drafts (if sent now) and scheduled campaigns (from their scheduled time)
+  estimate?: CampaignEstimate
   created_at: string
 }
 
+// Mirrors whatsapp-server's accepted attachment types and size caps
+const ATTACHMENT_LIMITS_MB: Record<string, number> = {
+  'image/jpeg': 5,
+  'image/png': 5,
+  'image/webp': 5,
+  'application/pdf': 16,
+  'audio/ogg': 16,
+  'audio/mpeg': 16,
+  'audio/mp4': 16,
+  'audio/aac': 16,
+  'video/mp4': 16
+}
+
+const validateAttachment = (file: File): string | null => {
+  const limit = ATTACHMENT_LIMITS_MB[file.type]
+  if (!limit) return `Unsupported file type${file.type ? ` ${file.type}` : ''}. Use an image, PDF, audio or MP4 file.`
+  if (file.size > limit * 1024 * 1024) return `${file.name} is larger than ${limit}MB`
+  return null
+}
+
+// Share of sent messages, e.g. "83%"
+const rateOf = (count: number, sent: number): string => `${Math.round((count / sent) * 100)}%`
+
+const fetchJson = async <T,>(url: string): Promise<T | null> => {
+  try {
+    const response = await fetch(url)
+    return response.ok ? await response.json() : null
+  } catch (error) {
+    console.error(`Error fetching ${url}:`, error)
+    return null
+  }
+}
+
+// Declared outside Dashboard so its content is not remounted (and form state lost) on every Dashboard render
+const Modal = ({ show, onClose, title, children, isDark, size = 'md' }: { 
+  show: boolean
+  isDark: boolean
+  onClose: () => void
+  title: string
+  children: React.ReactNode
+  size?: 'sm' | 'md' | 'lg' | 'xl'
+}) => {
+  const sizeClasses = {
+    sm: 'max-w-sm',
+    md: 'max-w-md',
+    lg: 'max-w-lg',
+    xl: 'max-w-2xl'
+  }
+
+  if (!show) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        onClick={e => e.stopPropagation()}
+        className={`${sizeClasses[size]} w-full rounded-2xl shadow-xl ${
+          isDark ? 'bg-gray-800 border border-gray-700' : 'bg-white border border-gray-200'
+        }`}
+      >
+        <div className={`flex items-center justify-between p-6 border-b ${
+          isDark ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h3 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {title}
+          </h3>
+          <button
+            onClick={onClose}
+            className={`p-2 rounded-lg hover:bg-gray-100 ${isDark ? 'hover:bg-gray-700' : ''}`}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6">
+          {children}
+        </div>
+      </div>
+    </div>
+  )
+}
+
 const Dashboard: React.FC = () => {
   const [isDark, setIsDark] = useState(false)
   const [showUploadModal, setShowUploadModal] = useState(false)
   const [showCampaignModal, setShowCampaignModal] = useState(false)
   const [showAnalyticsModal, setShowAnalyticsModal] = useState(false)
+  const [showInboxModal, setShowInboxModal] = useState(false)
+  const [showSuppressionModal, setShowSuppressionModal] = useState(false)
+  const [showAccountsModal, setShowAccountsModal] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [showAudienceModal, setShowAudienceModal] = useState(false)
+  const [showFieldsModal, setShowFieldsModal] = useState(false)
+  const [showContactsModal, setShowContactsModal] = useState(false)
+  const [unreadReplies, setUnreadReplies] = useState(0)
   const [contacts, setContacts] = useState<Contact[]>([])
   const [campaigns, setCampaigns] = useState<Campaign[]>([])
   const [metrics, setMetrics] = useState<Metrics>({
@@ -54,128 +177,144 @@ const Dashboard: React.FC = () => {
     totalMessages: 0,
     sentMessages: 0
   })
-  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>({
-    isActive: false,
-    percentage: 0,
-    currentCampaign: null,
-    totalContacts: 0,
-    sentCount: 0
-  })
+  const [progressList, setProgressList] = useState<CampaignProgress[]>([])
+  const activeCampaigns = useRef(new Map<number, boolean>())
   const [systemStatus, setSystemStatus] = useState<SystemStatus>({
     backend: 'unknown',
     whatsapp: 'disconnected',
     authenticated: false
   })
   const [loading, setLoading] = useState(false)
+  const [campaignMessage, setCampaignMessage] = useState('')
+  const [attachment, setAttachment] = useState<File | null>(null)
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
+  const [campaignThrottle, setCampaignThrottle] = useState<ThrottleSettings>(defaultThrottle)
+  const [campaignSenders, setCampaignSenders] = useState<string[]>([])
+  const [campaignAudience, setCampaignAudience] = useState<CampaignAudience>(null)
+  // null sends the single message above to everyone
+  const [campaignVariants, setCampaignVariants] = useState<CampaignVariant[] | null>(null)
+  const [winnerTest, setWinnerTest] = useState<WinnerTest | null>(null)
+  // datetime-local value; empty means the campaign is created as a draft and sent manually
+  const [scheduleAt, setScheduleAt] = useState('')
 
-  // Fetch data from backend
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true)
-        const [metricsRes, progressRes, statusRes, contactsRes, campaignsRes] = await Promise.all([
-          fetch('/api/metrics').catch(() => ({ ok: false })),
-          fetch('/api/campaigns/progress').catch(() => ({ ok: false })),
-          fetch('/api/status').catch(() => ({ ok: false })),
-          fetch('/api/contacts').catch(() => ({ ok: false })),
-          fetch('/api/campaigns').catch(() => ({ ok: false }))
-        ])
-
-        if (metricsRes.ok) {
-          const metricsData = await metricsRes.json()
-          setMetrics(metricsData)
-        }
-
-        if (progressRes.ok) {
-          const progressData = await progressRes.json()
-          setCampaignProgress(progressData)
-        }
-
-        if (statusRes.ok) {
-          const statusData = await statusRes.json()
-          setSystemStatus(statusData)
-        }
+  const refreshCampaigns = useCallback(async () => {
+    const [metricsData, campaignsData] = await Promise.all([
+      fetchJson<Metrics>('/api/metrics'),
+      fetchJson<Campaign[]>('/api/campaigns')
+    ])
+    if (metricsData) setMetrics(metricsData)
+    if (campaignsData) setCampaigns(campaignsData)
+  }, [])
 
-        if (contactsRes.ok) {
-          const contactsData = await contactsRes.json()
-          setContacts(contactsData)
-        }
+  const refreshContacts = useCallback(async () => {
+    const contactsData = await fetchJson<Contact[]>('/api/contacts')
+    if (contactsData) setContacts(contactsData)
+  }, [])
 
-        if (campaignsRes.ok) {
-          const campaignsData = await campaignsRes.json()
-          setCampaigns(campaignsData)
-        }
-      } catch (error) {
-        console.error('Error fetching data:', error)
-      } finally {
-        setLoading(false)
-      }
+  // Initial load; afterwards the backend pushes changes over /api/events
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true)
+      const [statusData, contactsData, inboxData] = await Promise.all([
+        fetchJson<SystemStatus>('/api/status'),
+        fetchJson<Contact[]>('/api/contacts'),
+        fetchJson<{ unread: number }>('/api/inbox/conversations'),
+        refreshCampaigns()
+      ])
+      if (statusData) setSystemStatus(statusData)
+      if (contactsData) setContacts(contactsData)
+      if (inboxData) setUnreadReplies(inboxData.unread)
+      setLoading(false)
     }
 
     fetchData()
-    const interval = setInterval(fetchData, 5000)
-    return () => clearInterval(interval)
-  }, [])
-
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    const formData = new FormData()
-    formData.append('csvFile', file)
+  }, [refreshCampaigns])
 
-    try {
-      setLoading(true)
-      const response = await fetch('/api/contacts/upload', {
-        method: 'POST',
-        body: formData
+  useEffect(() => {
+    const unsubscribers = [
+      // Sent on every (re)connect, so anything missed while disconnected is reloaded
+      subscribe('snapshot', ({ progress, status }) => {
+        activeCampaigns.current = new Map(progress.map(p => [p.campaignId, p.isActive]))
+        setProgressList(progress)
+        setSystemStatus(status)
+        refreshCampaigns()
+      }),
+      subscribe('campaign', (progress) => {
+        // Campaign counters and message totals change when a send starts or finishes
+        if (activeCampaigns.current.get(progress.campaignId) !== progress.isActive) {
+          activeCampaigns.current.set(progress.campaignId, progress.isActive)
+          refreshCampaigns()
+        }
+        setProgressList(prev => [progress, ...prev.filter(p => p.campaignId !== progress.campaignId)])
+      }),
+      subscribe('message', (update) => {
+        if (update.status === 'sent') {
+          setMetrics(prev => ({ ...prev, sentMessages: prev.sentMessages + 1 }))
+        }
+      }),
+      subscribe('status', setSystemStatus),
+      // Receipts keep arriving after a campaign finishes, so its rates are reloaded as they change
+      subscribe('receipts', () => refreshCampaigns()),
+      // While the inbox is open it reports exact counts itself
+      subscribe('inbox', (message) => {
+        if (message.direction === 'inbound') setUnreadReplies(prev => prev + 1)
       })
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [refreshCampaigns])
 
-      const result = await response.json()
-      
-      if (response.ok) {
-        alert(`Success! Imported ${result.inserted} contacts, skipped ${result.skipped} duplicates.`)
-        const contactsRes = await fetch('/api/contacts')
-        if (contactsRes.ok) {
-          const contactsData = await contactsRes.json()
-          setContacts(contactsData)
-        }
-      } else {
-        alert(`Error: ${result.error}`)
-      }
-    } catch (error) {
-      alert('Error uploading file: ' + (error as Error).message)
-    } finally {
-      setLoading(false)
-      setShowUploadModal(false)
-    }
-  }
+  const campaignProgress = progressList.find(p => p.isActive) || progressList[0] || null
 
   const handleCreateCampaign = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     const formData = new FormData(event.currentTarget)
     const name = formData.get('name') as string
-    const message = formData.get('message') as string
+    const message = campaignMessage
 
-    if (!name || !message) {
-      alert('Please fill in both campaign name and message.')
+    if (!name || (!campaignVariants && !message && !attachment)) {
+      alert('Please fill in the campaign name and a message or attachment.')
       return
     }
 
+    const body = new FormData()
+    body.append('name', name)
+    if (campaignVariants) {
+      body.append('variants', JSON.stringify(campaignVariants))
+      if (winnerTest) body.append('winnerTest', JSON.stringify(winnerTest))
+    } else {
+      body.append('message', message)
+    }
+    body.append('throttle', JSON.stringify(campaignThrottle))
+    if (campaignSenders.length > 0) {
+      body.append('senders', JSON.stringify(campaignSenders))
+    }
+    if (campaignAudience) {
+      body.append('audience', JSON.stringify(campaignAudience))
+    }
+    if (scheduleAt) {
+      body.append('scheduledAt', fromDateTimeInput(scheduleAt))
+    }
+    if (attachment) {
+      body.append('attachment', attachment)
+    }
+
     try {
       setLoading(true)
       const response = await fetch('/api/campaigns', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ name, message })
+        body
       })
 
       const result = await response.json()
 
       if (response.ok) {
-        alert('Campaign created successfully!')
+        alert(scheduleAt ? 'Campaign scheduled successfully!' : 'Campaign created successfully!')
+        setCampaignMessage('')
+        setCampaignVariants(null)
+        setWinnerTest(null)
+        setAttachment(null)
+        setScheduleAt('')
+        setCampaignAudience(null)
         const campaignsRes = await fetch('/api/campaigns')
         if (campaignsRes.ok) {
           const campaignsData = await campaignsRes.json()
@@ -192,49 +331,97 @@ const Dashboard: React.FC = () => {
     }
   }
 
-  const Modal = ({ show, onClose, title, children, size = 'md' }: { 
-    show: boolean
-    onClose: () => void
-    title: string
-    children: React.ReactNode
-    size?: 'sm' | 'md' | 'lg' | 'xl'
-  }) => {
-    const sizeClasses = {
-      sm: 'max-w-sm',
-      md: 'max-w-md',
-      lg: 'max-w-lg',
-      xl: 'max-w-2xl'
+  const handleAttachmentSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null
+    const error = file ? validateAttachment(file) : null
+    setAttachmentError(error)
+    setAttachment(error ? null : file)
+    if (error) event.target.value = ''
+  }
+
+  const handleSendCampaign = async (campaign: Campaign) => {
+    const projection = campaign.estimate ? `\nProjected to finish ${formatEstimate(campaign.estimate)}.` : ''
+    const recipients = campaign.estimate ? campaign.estimate.total : contacts.length
+    const audience = campaign.audience ? '' : 'all '
+    if (!confirm(`Send "${campaign.name}" to ${audience}${recipients} contacts?${projection}`)) return
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/campaigns/${campaign.id}/send`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert('Error sending campaign: ' + result.error)
+      }
+    } catch (error) {
+      alert('Error sending campaign: ' + (error as Error).message)
+    } finally {
+      setLoading(false)
     }
+  }
 
-    if (!show) return null
+  const handleRetryCampaign = async (campaign: Campaign) => {
+    if (!confirm(`Retry the ${campaign.failed_count} failed messages of "${campaign.name}"?`)) return
 
-    return (
-      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
-        <div
-          onClick={e => e.stopPropagation()}
-          className={`${sizeClasses[size]} w-full rounded-2xl shadow-xl ${
-            isDark ? 'bg-gray-800 border border-gray-700' : 'bg-white border border-gray-200'
-          }`}
-        >
-          <div className={`flex items-center justify-between p-6 border-b ${
-            isDark ? 'border-gray-700' : 'border-gray-200'
-          }`}>
-            <h3 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-              {title}
-            </h3>
-            <button
-              onClick={onClose}
-              className={`p-2 rounded-lg hover:bg-gray-100 ${isDark ? 'hover:bg-gray-700' : ''}`}
-            >
-              <X className="w-5 h-5" />
-            </button>
-          </div>
-          <div className="p-6">
-            {children}
-          </div>
-        </div>
-      </div>
-    )
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/campaigns/${campaign.id}/retry`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert('Error retrying campaign: ' + result.error)
+      }
+    } catch (error) {
+      alert('Error retrying campaign: ' + (error as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSendWinner = async (campaign: Campaign) => {
+    if (!confirm(`End the test of "${campaign.name}" now and send the best variant so far to the rest of its audience?`)) return
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/campaigns/${campaign.id}/winner`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert('Error sending winning variant: ' + result.error)
+      } else {
+        refreshCampaigns()
+      }
+    } catch (error) {
+      alert('Error sending winning variant: ' + (error as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Starts the variants from the message written so far
+  const toggleVariants = (enabled: boolean) => {
+    setCampaignVariants(enabled ? evenSplit([{ label: '', message: campaignMessage, weight: 0 }, { label: '', message: '', weight: 0 }]) : null)
+    if (!enabled) setWinnerTest(null)
+  }
+
+  const handleCampaignAction = async (campaignId: number, action: CampaignAction) => {
+    if (action === 'cancel' && !confirm('Cancel this campaign? Messages not sent yet will be dropped.')) return
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/campaigns/${campaignId}/${action}`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert(`Error trying to ${action} campaign: ` + result.error)
+      } else {
+        refreshCampaigns()
+      }
+    } catch (error) {
+      alert(`Error trying to ${action} campaign: ` + (error as Error).message)
+    } finally {
+      setLoading(false)
+    }
   }
 
   const StatCard = ({ title, value, icon: Icon, color }: { 
@@ -283,7 +470,7 @@ const Dashboard: React.FC = () => {
         : 'bg-gradient-to-br from-gray-50 via-white to-gray-100'
     }`}>
       {/* Progress Bar */}
-      {campaignProgress.isActive && (
+      {campaignProgress?.isActive && (
         <div className="fixed top-0 left-0 right-0 z-50">
           <div className={`h-2 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
             <div
@@ -295,7 +482,7 @@ const Dashboard: React.FC = () => {
             <div className={`absolute top-3 right-4 px-3 py-1 rounded-full text-xs font-bold shadow-lg ${
               isDark ? 'bg-gray-800 text-green-400' : 'bg-white text-green-600'
             }`}>
-              {campaignProgress.currentCampaign}: {campaignProgress.percentage}% ({campaignProgress.sentCount}/{campaignProgress.totalContacts})
+              {campaignProgress.campaignName}: {campaignProgress.percentage}% ({campaignProgress.sent + campaignProgress.failed}/{campaignProgress.total})
             </div>
           )}
         </div>
@@ -327,12 +514,44 @@ const Dashboard: React.FC = () => {
                   status={systemStatus.backend}
                   label="Backend" 
                 />
-                <StatusBadge 
-                  status={systemStatus.authenticated ? 'authenticated' : 'disconnected'}
-                  label="WhatsApp" 
-                />
+                <button onClick={() => setShowAccountsModal(true)} title="Manage WhatsApp accounts">
+                  <StatusBadge 
+                    status={systemStatus.authenticated ? 'authenticated' : 'disconnected'}
+                    label="WhatsApp" 
+                  />
+                </button>
               </div>
 
+              <button
+                onClick={() => setShowContactsModal(true)}
+                title="Contacts"
+                className={`p-2 rounded-lg transition-all duration-300 ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                <Users className="w-5 h-5" />
+              </button>
+
+              <button
+                onClick={() => setShowAudienceModal(true)}
+                title="Lists and segments"
+                className={`p-2 rounded-lg transition-all duration-300 ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                <Tags className="w-5 h-5" />
+              </button>
+
+              <button
+                onClick={() => setShowExportModal(true)}
+                title="Export contacts"
+                className={`p-2 rounded-lg transition-all duration-300 ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-300' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                <Download className="w-5 h-5" />
+              </button>
+
               <button
                 onClick={() => setIsDark(!isDark)}
                 className={`p-2 rounded-lg transition-all duration-300 ${
@@ -377,7 +596,7 @@ const Dashboard: React.FC = () => {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div
             onClick={() => setShowUploadModal(true)}
             className={`p-6 rounded-2xl shadow-lg cursor-pointer transition-all hover:scale-105 ${
@@ -440,8 +659,46 @@ const Dashboard: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <div
+            onClick={() => setShowInboxModal(true)}
+            className={`p-6 rounded-2xl shadow-lg cursor-pointer transition-all hover:scale-105 ${
+              isDark ? 'bg-gray-800 hover:bg-gray-750' : 'bg-white hover:shadow-xl'
+            }`}
+          >
+            <div className="flex items-start gap-4">
+              <div className={`relative p-3 rounded-xl ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                <InboxIcon className={`w-6 h-6 ${isDark ? 'text-gray-300' : 'text-gray-700'}`} />
+                {unreadReplies > 0 && (
+                  <span className="absolute -top-1 -right-1 px-1.5 text-xs rounded-full bg-green-500 text-white">
+                    {unreadReplies}
+                  </span>
+                )}
+              </div>
+              <div>
+                <h3 className={`font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                  Inbox
+                </h3>
+                <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Read and answer replies
+                </p>
+              </div>
+            </div>
+          </div>
         </div>
 
+        {/* Campaign Progress */}
+        {campaignProgress && (
+          <div className="mb-8">
+            <ProgressTracker
+              progress={campaignProgress}
+              isDark={isDark}
+              onAction={(action) => handleCampaignAction(campaignProgress.campaignId, action)}
+              actionPending={loading}
+            />
+          </div>
+        )}
+
         {/* Footer */}
         <footer className={`text-center py-8 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
           <div className="flex items-center justify-center gap-2 mb-2">
@@ -460,26 +717,86 @@ const Dashboard: React.FC = () => {
       </main>
 
       {/* Modals */}
-      <Modal show={showUploadModal} onClose={() => setShowUploadModal(false)} title="Upload Contacts">
+      <Modal show={showUploadModal} isDark={isDark} onClose={() => setShowUploadModal(false)} title="Upload Contacts" size="xl">
         <div className="space-y-4">
-          <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
-            Upload a CSV file with contacts. Supported columns: phone_number, phone, number, name, email
-          </p>
-          <input
-            type="file"
-            accept=".csv"
-            onChange={handleFileUpload}
-            className={`w-full p-3 border rounded-lg ${
-              isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
-            }`}
-          />
-          <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-            Current contacts: {contacts.length}
+          <CSVUpload isDark={isDark} onContactsUploaded={refreshContacts} />
+          <div className={`flex justify-between text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            <button
+              onClick={() => {
+                setShowUploadModal(false)
+                setShowContactsModal(true)
+              }}
+              className="text-blue-500 hover:underline"
+            >
+              Current contacts: {contacts.length}
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setShowUploadModal(false)
+                  setShowFieldsModal(true)
+                }}
+                className="text-blue-500 hover:underline"
+              >
+                Custom fields
+              </button>
+              <button
+                onClick={() => {
+                  setShowUploadModal(false)
+                  setShowAudienceModal(true)
+                }}
+                className="text-blue-500 hover:underline"
+              >
+                Lists & segments
+              </button>
+              <button
+                onClick={() => {
+                  setShowUploadModal(false)
+                  setShowExportModal(true)
+                }}
+                className="text-blue-500 hover:underline"
+              >
+                Export contacts
+              </button>
+              <button
+                onClick={() => {
+                  setShowUploadModal(false)
+                  setShowSuppressionModal(true)
+                }}
+                className="text-blue-500 hover:underline"
+              >
+                Manage opt-outs
+              </button>
+            </div>
           </div>
         </div>
       </Modal>
 
-      <Modal show={showCampaignModal} onClose={() => setShowCampaignModal(false)} title="Create Campaign">
+      <Modal show={showContactsModal} isDark={isDark} onClose={() => setShowContactsModal(false)} title="Contacts" size="xl">
+        <ContactList isDark={isDark} onContactsChange={refreshContacts} />
+      </Modal>
+
+      <Modal show={showAccountsModal} isDark={isDark} onClose={() => setShowAccountsModal(false)} title="WhatsApp Accounts" size="lg">
+        <WhatsAppAccounts isDark={isDark} />
+      </Modal>
+
+      <Modal show={showExportModal} isDark={isDark} onClose={() => setShowExportModal(false)} title="Export Contacts">
+        <ContactExport campaigns={campaigns} isDark={isDark} />
+      </Modal>
+
+      <Modal show={showAudienceModal} isDark={isDark} onClose={() => setShowAudienceModal(false)} title="Lists & Segments" size="xl">
+        <AudienceManager isDark={isDark} />
+      </Modal>
+
+      <Modal show={showFieldsModal} isDark={isDark} onClose={() => setShowFieldsModal(false)} title="Custom Fields" size="xl">
+        <CustomFields contacts={contacts} isDark={isDark} onContactsChange={refreshContacts} />
+      </Modal>
+
+      <Modal show={showSuppressionModal} isDark={isDark} onClose={() => setShowSuppressionModal(false)} title="Opt-outs" size="lg">
+        <SuppressionList isDark={isDark} />
+      </Modal>
+
+      <Modal show={showCampaignModal} isDark={isDark} onClose={() => setShowCampaignModal(false)} title="Create Campaign" size="lg">
         <form onSubmit={handleCreateCampaign} className="space-y-4">
           <div>
             <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
@@ -495,20 +812,87 @@ const Dashboard: React.FC = () => {
               placeholder="Enter campaign name"
             />
           </div>
+          <label className={`flex items-center gap-2 text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={campaignVariants !== null}
+              onChange={(e) => toggleVariants(e.target.checked)}
+            />
+            <Split className="h-4 w-4" />
+            A/B test message variants
+          </label>
+          {campaignVariants ? (
+            <VariantEditor
+              variants={campaignVariants}
+              onChange={setCampaignVariants}
+              winnerTest={winnerTest}
+              onWinnerTestChange={setWinnerTest}
+              contacts={contacts}
+              isDark={isDark}
+            />
+          ) : (
+            <MessageComposer
+              message={campaignMessage}
+              onChange={setCampaignMessage}
+              contacts={contacts}
+              isDark={isDark}
+              required={!attachment}
+            />
+          )}
           <div>
-            <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
-              Message
+            <label className={`flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              <Paperclip className="h-4 w-4 mr-2" />
+              Attachment (optional)
             </label>
-            <textarea
-              name="message"
-              required
-              rows={4}
-              maxLength={1000}
+            <input
+              type="file"
+              accept={Object.keys(ATTACHMENT_LIMITS_MB).join(',')}
+              onChange={handleAttachmentSelect}
               className={`w-full p-3 border rounded-lg ${
                 isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
               }`}
-              placeholder="Enter your message (max 1000 characters)"
             />
+            {attachment && (
+              <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                {attachment.name} ({(attachment.size / (1024 * 1024)).toFixed(1)}MB) — the message is sent as its caption
+              </p>
+            )}
+            {attachmentError && (
+              <p className="text-xs text-red-500 mt-1">{attachmentError}</p>
+            )}
+          </div>
+          <AudiencePicker audience={campaignAudience} onChange={setCampaignAudience} isDark={isDark} />
+          <SendingLimits
+            throttle={campaignThrottle}
+            onChange={setCampaignThrottle}
+            isDark={isDark}
+            startAt={scheduleAt ? fromDateTimeInput(scheduleAt) : undefined}
+            audience={campaignAudience}
+            senders={campaignSenders}
+          />
+          <SenderPicker senders={campaignSenders} onChange={setCampaignSenders} isDark={isDark} />
+          <div className="space-y-2">
+            <label className={`flex items-center gap-2 text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              <input
+                type="checkbox"
+                checked={scheduleAt !== ''}
+                onChange={(e) => setScheduleAt(e.target.checked ? minDateTimeInput() : '')}
+              />
+              <CalendarClock className="h-4 w-4" />
+              Schedule for later
+            </label>
+            {scheduleAt !== '' && (
+              <input
+                type="datetime-local"
+                value={scheduleAt}
+                min={minDateTimeInput()}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                required
+                className={`w-full p-3 border rounded-lg ${
+                  isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+                }`}
+              />
+            )}
           </div>
           <button
             type="submit"
@@ -517,12 +901,23 @@ const Dashboard: React.FC = () => {
               loading ? 'opacity-50 cursor-not-allowed' : ''
             }`}
           >
-            {loading ? 'Creating...' : 'Create Campaign'}
+            {loading ? 'Creating...' : scheduleAt ? 'Schedule Campaign' : 'Create Campaign'}
           </button>
         </form>
+        <div className="mt-4">
+          <ScheduledCampaigns
+            campaigns={campaigns.filter(c => c.status === 'scheduled')}
+            isDark={isDark}
+            onChange={refreshCampaigns}
+          />
+        </div>
+      </Modal>
+
+      <Modal show={showInboxModal} isDark={isDark} onClose={() => setShowInboxModal(false)} title="Inbox" size="xl">
+        <Inbox isDark={isDark} onUnreadChange={setUnreadReplies} />
       </Modal>
 
-      <Modal show={showAnalyticsModal} onClose={() => setShowAnalyticsModal(false)} title="Analytics & Campaigns" size="xl">
+      <Modal show={showAnalyticsModal} isDark={isDark} onClose={() => setShowAnalyticsModal(false)} title="Analytics & Campaigns" size="xl">
         <div className="space-y-6">
           <div className="grid grid-cols-2 gap-4 mb-4">
             <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
@@ -559,6 +954,9 @@ const Dashboard: React.FC = () => {
                           <span className={`inline-block px-2 py-1 text-xs rounded-full ${
                             campaign.status === 'completed' ? 'bg-green-100 text-green-800' :
                             campaign.status === 'sending' ? 'bg-yellow-100 text-yellow-800' :
+                            campaign.status === 'scheduled' ? 'bg-blue-100 text-blue-800' :
+                            campaign.status === 'paused' ? 'bg-orange-100 text-orange-800' :
+                            campaign.status === 'testing' ? 'bg-purple-100 text-purple-800' :
                             'bg-gray-100 text-gray-800'
                           }`}>
                             {campaign.status}
@@ -567,7 +965,116 @@ const Dashboard: React.FC = () => {
                         <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
                           {campaign.message.length > 100 ? campaign.message.substring(0, 100) + '...' : campaign.message}
                         </p>
+                        {campaign.media_filename && (
+                          <p className={`flex items-center gap-1 text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                            <Paperclip className="w-3 h-3" />
+                            {campaign.media_filename}
+                          </p>
+                        )}
+                        {campaign.sent_count > 0 && (
+                          <p className={`flex items-center gap-3 text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                            <span className="flex items-center gap-1" title={`${campaign.delivered_count} of ${campaign.sent_count} sent messages delivered`}>
+                              <CheckCheck className="w-3 h-3" />
+                              Delivered {rateOf(campaign.delivered_count, campaign.sent_count)}
+                            </span>
+                            <span className="flex items-center gap-1" title={`${campaign.read_count} of ${campaign.sent_count} sent messages read`}>
+                              <Eye className="w-3 h-3" />
+                              Read {rateOf(campaign.read_count, campaign.sent_count)}
+                            </span>
+                          </p>
+                        )}
+                        {[
+                          { caption: 'Test phase (winner picked on these)', variantStats: campaign.test_stats },
+                          { caption: campaign.test_stats ? 'All messages' : null, variantStats: campaign.variant_stats }
+                        ].map(({ caption, variantStats }) => variantStats && (
+                          <table key={caption || 'variants'} className={`w-full mt-2 text-xs ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                            {caption && (
+                              <caption className={`text-left font-medium ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{caption}</caption>
+                            )}
+                            <thead>
+                              <tr className={isDark ? 'text-gray-400' : 'text-gray-500'}>
+                                <th className="text-left font-medium">Variant</th>
+                                <th className="text-right font-medium">Sent</th>
+                                <th className="text-right font-medium">Delivered</th>
+                                <th className="text-right font-medium">Read</th>
+                                <th className="text-right font-medium">Replied</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {variantStats.map(stats => (
+                                <tr key={stats.variant} title={campaign.variants?.[stats.variant]?.message}>
+                                  <td>
+                                    <span className="flex items-center gap-1">
+                                      {stats.label} ({campaign.variants?.[stats.variant]?.weight}%)
+                                      {campaign.winner_variant === stats.variant && (
+                                        <Trophy className="w-3 h-3 text-yellow-500" aria-label="Winner" />
+                                      )}
+                                    </span>
+                                  </td>
+                                  <td className="text-right">{stats.sent_count}{stats.failed_count > 0 ? ` (${stats.failed_count} failed)` : ''}</td>
+                                  <td className="text-right">{stats.sent_count > 0 ? rateOf(stats.delivered_count, stats.sent_count) : '-'}</td>
+                                  <td className="text-right">{stats.sent_count > 0 ? rateOf(stats.read_count, stats.sent_count) : '-'}</td>
+                                  <td className="text-right">{stats.sent_count > 0 ? rateOf(stats.replied_count, stats.sent_count) : '-'}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        ))}
+                        {campaign.status === 'testing' && campaign.winner_test && campaign.test_ends_at && (
+                          <p className={`flex items-center gap-1 text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                            <Trophy className="w-3 h-3" />
+                            Best {WINNER_METRICS[campaign.winner_test.metric].toLowerCase()} goes to the rest of the audience at {new Date(campaign.test_ends_at).toLocaleString()}
+                          </p>
+                        )}
+                        {campaign.status === 'scheduled' && campaign.scheduled_at && (
+                          <p className={`flex items-center gap-1 text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                            <CalendarClock className="w-3 h-3" />
+                            Scheduled for {new Date(campaign.scheduled_at).toLocaleString()}
+                          </p>
+                        )}
+                        {campaign.estimate && campaign.estimate.total > 0 && (
+                          <p className={`flex items-center gap-1 text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                            <Clock className="w-3 h-3" />
+                            Projected completion{campaign.status === 'draft' ? ' if sent now' : ''}: {formatEstimate(campaign.estimate)}
+                          </p>
+                        )}
                       </div>
+                      {campaign.status === 'draft' && (
+                        <button
+                          onClick={() => handleSendCampaign(campaign)}
+                          disabled={loading || !!campaignProgress?.isActive}
+                          className={`ml-4 inline-flex items-center gap-1 bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded-lg text-sm font-medium ${
+                            loading || campaignProgress?.isActive ? 'opacity-50 cursor-not-allowed' : ''
+                          }`}
+                        >
+                          <Send className="w-4 h-4" />
+                          Send
+                        </button>
+                      )}
+                      {campaign.status === 'testing' && (
+                        <button
+                          onClick={() => handleSendWinner(campaign)}
+                          disabled={loading || !!campaignProgress?.isActive}
+                          className={`ml-4 inline-flex items-center gap-1 bg-purple-500 hover:bg-purple-600 text-white px-3 py-1 rounded-lg text-sm font-medium ${
+                            loading || campaignProgress?.isActive ? 'opacity-50 cursor-not-allowed' : ''
+                          }`}
+                        >
+                          <Trophy className="w-4 h-4" />
+                          Send winner now
+                        </button>
+                      )}
+                      {campaign.status === 'completed_with_errors' && campaign.failed_count > 0 && (
+                        <button
+                          onClick={() => handleRetryCampaign(campaign)}
+                          disabled={loading || !!campaignProgress?.isActive}
+                          className={`ml-4 inline-flex items-center gap-1 bg-orange-500 hover:bg-orange-600 text-white px-3 py-1 rounded-lg text-sm font-medium ${
+                            loading || campaignProgress?.isActive ? 'opacity-50 cursor-not-allowed' : ''
+                          }`}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                          Retry {campaign.failed_count} failed
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))
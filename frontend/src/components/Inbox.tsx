@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Inbox as InboxIcon, Send } from 'lucide-react'
+import { subscribe } from '../lib/serverEvents'
+
+interface Conversation {
+  phone_number: string
+  contact_id: number | null
+  contact_name: string | null
+  sender_name: string | null
+  campaign_id: number | null
+  campaign_name: string | null
+  last_body: string
+  last_type: string
+  last_direction: 'inbound' | 'outbound'
+  last_at: string
+  unread_count: number
+  opted_out: number
+}
+
+interface ConversationEntry {
+  key: string
+  direction: 'inbound' | 'outbound'
+  body: string
+  type: string
+  status: string | null
+  error_message: string | null
+  campaign_id: number | null
+  campaign_name: string | null
+  created_at: string
+}
+
+interface InboxProps {
+  isDark: boolean
+  // Called with the number of unread replies whenever the conversation list reloads
+  onUnreadChange?: (unread: number) => void
+}
+
+const displayName = (conversation: Conversation) =>
+  conversation.contact_name || conversation.sender_name || `+${conversation.phone_number}`
+
+// Media without a caption has no text to show
+const describe = (body: string, type: string) => body || `[${type === 'ptt' ? 'voice note' : type}]`
+
+// Replies from contacts, grouped by phone number, with a thread view to read and answer them
+const Inbox: React.FC<InboxProps> = ({ isDark, onUnreadChange }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [selected, setSelected] = useState<string | null>(null)
+  const [entries, setEntries] = useState<ConversationEntry[]>([])
+  const [reply, setReply] = useState('')
+  const [sending, setSending] = useState(false)
+  const threadEnd = useRef<HTMLDivElement>(null)
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inbox/conversations')
+      if (!response.ok) return
+      const result = await response.json()
+      setConversations(result.conversations)
+      onUnreadChange?.(result.unread)
+    } catch (error) {
+      console.error('Error loading conversations:', error)
+    }
+  }, [onUnreadChange])
+
+  // Opening a thread marks its replies read, so the list is reloaded for the new unread counts
+  const loadThread = useCallback(async (phone: string) => {
+    try {
+      const response = await fetch(`/api/inbox/conversations/${phone}`)
+      if (!response.ok) return
+      const result = await response.json()
+      setEntries(result.messages)
+      loadConversations()
+    } catch (error) {
+      console.error('Error loading conversation:', error)
+    }
+  }, [loadConversations])
+
+  useEffect(() => {
+    loadConversations()
+  }, [loadConversations])
+
+  useEffect(() => {
+    if (selected) loadThread(selected)
+  }, [selected, loadThread])
+
+  useEffect(() => subscribe('inbox', (message) => {
+    if (message.phone_number === selected) {
+      loadThread(selected)
+    } else {
+      loadConversations()
+    }
+  }), [selected, loadThread, loadConversations])
+
+  useEffect(() => {
+    threadEnd.current?.scrollIntoView({ block: 'end' })
+  }, [entries])
+
+  const sendReply = async () => {
+    if (!selected || !reply.trim()) return
+    try {
+      setSending(true)
+      const response = await fetch(`/api/inbox/conversations/${selected}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: reply })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error sending reply: ' + result.error)
+      } else {
+        setReply('')
+      }
+    } catch (error) {
+      alert('Error sending reply: ' + (error as Error).message)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+  const current = conversations.find(c => c.phone_number === selected)
+
+  if (conversations.length === 0) {
+    return (
+      <div className={`flex flex-col items-center py-12 text-sm ${mutedText}`}>
+        <InboxIcon className="w-8 h-8 mb-2" />
+        No replies yet
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex gap-4 h-[28rem]">
+      <div className={`w-1/3 overflow-y-auto border-r pr-2 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        {conversations.map(conversation => (
+          <button
+            key={conversation.phone_number}
+            onClick={() => setSelected(conversation.phone_number)}
+            className={`w-full text-left p-2 rounded-lg mb-1 ${
+              conversation.phone_number === selected
+                ? isDark ? 'bg-gray-700' : 'bg-gray-100'
+                : isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className={`text-sm truncate ${conversation.unread_count > 0 ? 'font-semibold' : ''} ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                {displayName(conversation)}
+              </span>
+              {conversation.unread_count > 0 && (
+                <span className="px-2 text-xs rounded-full bg-green-500 text-white">{conversation.unread_count}</span>
+              )}
+            </div>
+            <p className={`text-xs truncate ${mutedText}`}>
+              {conversation.last_direction === 'outbound' ? 'You: ' : ''}{describe(conversation.last_body, conversation.last_type)}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {!current ? (
+          <div className={`flex-1 flex items-center justify-center text-sm ${mutedText}`}>
+            Select a conversation
+          </div>
+        ) : (
+          <>
+            <div className="mb-2">
+              <h4 className={`flex items-center gap-2 font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                {displayName(current)}
+                {!!current.opted_out && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">Opted out</span>
+                )}
+              </h4>
+              <p className={`text-xs ${mutedText}`}>
+                +{current.phone_number}{current.campaign_name ? ` · replied to "${current.campaign_name}"` : ''}
+              </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {entries.map(entry => (
+                <div key={entry.key} className={`flex ${entry.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] px-3 py-2 rounded-lg text-sm ${
+                    entry.direction === 'outbound'
+                      ? 'bg-green-500 text-white'
+                      : isDark ? 'bg-gray-700 text-gray-100' : 'bg-gray-100 text-gray-900'
+                  }`}>
+                    {entry.campaign_name && entry.direction === 'outbound' && (
+                      <p className="text-xs opacity-75 mb-1">Campaign: {entry.campaign_name}</p>
+                    )}
+                    <p className="whitespace-pre-wrap break-words">{describe(entry.body, entry.type)}</p>
+                    <p className={`text-xs mt-1 ${entry.direction === 'outbound' ? 'opacity-75' : mutedText}`}>
+                      {new Date(entry.created_at).toLocaleString()}
+                      {entry.status === 'failed' && ` · failed${entry.error_message ? `: ${entry.error_message}` : ''}`}
+                    </p>
+                  </div>
+                </div>
+              ))}
+              <div ref={threadEnd} />
+            </div>
+
+            <div className="flex gap-2 mt-3">
+              <textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault()
+                    sendReply()
+                  }
+                }}
+                rows={2}
+                placeholder="Write a reply..."
+                className={`flex-1 p-2 border rounded-lg text-sm resize-none ${
+                  isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+                }`}
+              />
+              <button
+                onClick={sendReply}
+                disabled={sending || !reply.trim()}
+                className={`px-4 rounded-lg bg-green-500 hover:bg-green-600 text-white ${
+                  sending || !reply.trim() ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Inbox
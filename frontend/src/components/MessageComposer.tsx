@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { MessageCircle, Type, Braces } from 'lucide-react'
+import { AttributeValue, BUILT_IN_VARIABLES, contactVariables, extractVariables, renderTemplate } from '../lib/template'
+import { fetchCustomFields } from '../lib/customFields'
+
+interface PreviewContact {
+  id: number
+  phone_number: string
+  name: string
+  email?: string | null
+  attributes?: Record<string, AttributeValue>
+}
+
+interface MessageComposerProps {
+  message: string
+  onChange: (message: string) => void
+  contacts: PreviewContact[]
+  isDark: boolean
+  maxLength?: number
+  required?: boolean
+  label?: string
+}
+
+const SAMPLE_SIZE = 3
+
+const MessageComposer: React.FC<MessageComposerProps> = ({ message, onChange, contacts, isDark, maxLength = 1000, required = true, label = 'Message' }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const remainingChars = maxLength - message.length
+  const samples = contacts.slice(0, SAMPLE_SIZE)
+  const [fieldKeys, setFieldKeys] = useState<string[]>([])
+
+  useEffect(() => {
+    fetchCustomFields().then(fields => setFieldKeys(fields.map(field => field.key)))
+  }, [])
+
+  const availableVariables = useMemo(() => {
+    const names = new Set([...BUILT_IN_VARIABLES, ...fieldKeys])
+    contacts.forEach(contact => Object.keys(contact.attributes || {}).forEach(key => names.add(key)))
+    return Array.from(names)
+  }, [contacts, fieldKeys])
+
+  const unknownVariables = extractVariables(message).filter(name => !availableVariables.includes(name))
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current
+    const token = `{{${name}}}`
+    if (!textarea) {
+      onChange(message + token)
+      return
+    }
+    const start = textarea.selectionStart
+    const end = textarea.selectionEnd
+    onChange(message.slice(0, start) + token + message.slice(end))
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={`flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+          <MessageCircle className="h-4 w-4 text-green-600 mr-2" />
+          {label}
+        </label>
+        <textarea
+          ref={textareaRef}
+          name="message"
+          value={message}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+          rows={4}
+          maxLength={maxLength}
+          className={`w-full p-3 border rounded-lg ${
+            isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+          }`}
+          placeholder={`Hi {{first_name|there}}, ... (max ${maxLength} characters)`}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className={`flex items-center text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          <Type className="h-4 w-4 mr-1" />
+          Character count
+        </div>
+        <span className={`text-sm font-medium ${
+          remainingChars < 50 ? 'text-red-500' : remainingChars < 100 ? 'text-yellow-500' : 'text-green-500'
+        }`}>
+          {message.length}/{maxLength}
+        </span>
+      </div>
+
+      <div>
+        <p className={`flex items-center text-xs font-medium mb-2 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          <Braces className="h-3 w-3 mr-1" />
+          Insert variable (add a fallback with {'{{first_name|there}}'})
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {availableVariables.map(name => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => insertVariable(name)}
+              className={`px-2 py-1 rounded-full text-xs font-mono ${
+                isDark ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        {unknownVariables.length > 0 && (
+          <p className="text-xs text-yellow-500 mt-2">
+            No contact has {unknownVariables.map(name => `{{${name}}}`).join(', ')}; these render as their fallback or empty.
+          </p>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg border-l-4 border-green-500 space-y-2 ${isDark ? 'bg-green-900/20' : 'bg-green-50'}`}>
+          <p className={`text-sm font-medium ${isDark ? 'text-green-300' : 'text-green-800'}`}>
+            Message Preview:
+          </p>
+          {samples.length === 0 ? (
+            <p className={`text-sm whitespace-pre-wrap ${isDark ? 'text-green-200' : 'text-green-700'}`}>
+              {renderTemplate(message, {})}
+            </p>
+          ) : (
+            samples.map(contact => (
+              <div key={contact.id}>
+                <p className={`text-xs ${isDark ? 'text-green-400' : 'text-green-600'}`}>
+                  {contact.name || contact.phone_number}
+                </p>
+                <p className={`text-sm whitespace-pre-wrap ${isDark ? 'text-green-200' : 'text-green-700'}`}>
+                  {renderTemplate(message, contactVariables(contact))}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MessageComposer
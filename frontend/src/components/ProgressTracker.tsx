@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react'
+import { CheckCircle, XCircle, Clock, Loader, Phone, Pause, Play, Ban } from 'lucide-react'
+import { CampaignAction, CampaignProgress, MessageUpdate, subscribe } from '../lib/serverEvents'
+
+interface ProgressTrackerProps {
+  progress: CampaignProgress
+  isDark: boolean
+  // Controls are shown while the campaign is active
+  onAction?: (action: CampaignAction) => void
+  actionPending?: boolean
+}
+
+// Most recent transitions kept on screen; counters come from the campaign progress events
+const MAX_VISIBLE_MESSAGES = 50
+
+const ProgressTracker: React.FC<ProgressTrackerProps> = ({ progress, isDark, onAction, actionPending = false }) => {
+  const [messages, setMessages] = useState<MessageUpdate[]>([])
+
+  useEffect(() => {
+    setMessages([])
+    return subscribe('message', (update) => {
+      if (update.campaignId !== progress.campaignId) return
+      setMessages(prev => [update, ...prev.filter(m => m.messageId !== update.messageId)].slice(0, MAX_VISIBLE_MESSAGES))
+    })
+  }, [progress.campaignId])
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return <Clock className="h-4 w-4 text-gray-400" />
+      case 'sending':
+        return <Loader className="h-4 w-4 text-blue-500 animate-spin" />
+      case 'sent':
+        return <CheckCircle className="h-4 w-4 text-green-500" />
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-500" />
+      default:
+        return null
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'sending':
+        return 'text-blue-500'
+      case 'sent':
+        return 'text-green-500'
+      case 'failed':
+        return 'text-red-500'
+      default:
+        return isDark ? 'text-gray-400' : 'text-gray-500'
+    }
+  }
+
+  return (
+    <div className={`rounded-2xl shadow-lg ${isDark ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className={`p-6 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <Phone className="h-5 w-5 text-purple-600 mr-2" />
+            <h2 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+              {progress.campaignName}
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={`text-xs font-medium capitalize ${
+              progress.status === 'paused' ? 'text-yellow-500' : isDark ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              {progress.status.replace(/_/g, ' ')}
+            </span>
+            {progress.isActive && onAction && (
+              <>
+                {progress.status === 'paused' ? (
+                  <button
+                    onClick={() => onAction('resume')}
+                    disabled={actionPending}
+                    title="Resume sending"
+                    className={`p-1 rounded-lg text-green-500 ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    <Play className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onAction('pause')}
+                    disabled={actionPending}
+                    title="Pause after the current message"
+                    className={`p-1 rounded-lg text-yellow-500 ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  >
+                    <Pause className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onAction('cancel')}
+                  disabled={actionPending}
+                  title="Cancel the remaining messages"
+                  className={`p-1 rounded-lg text-red-500 ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                >
+                  <Ban className="h-4 w-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex justify-between text-sm">
+            <span className={isDark ? 'text-gray-300' : 'text-gray-600'}>
+              Progress
+            </span>
+            <span className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+              {progress.percentage}%
+            </span>
+          </div>
+          <div className={`w-full rounded-full h-2 ${isDark ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div
+              className="bg-gradient-to-r from-green-500 to-green-600 h-2 rounded-full transition-all duration-500"
+              style={{ width: `${progress.percentage}%` }}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div className="flex items-center">
+              <CheckCircle className="h-4 w-4 text-green-500 mr-1" />
+              <span className="text-green-500 font-medium">{progress.sent} sent</span>
+            </div>
+            <div className="flex items-center">
+              <XCircle className="h-4 w-4 text-red-500 mr-1" />
+              <span className="text-red-500 font-medium">{progress.failed} failed</span>
+            </div>
+            <div className="flex items-center">
+              <Clock className="h-4 w-4 text-gray-400 mr-1" />
+              <span className={`font-medium ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                {progress.pending} {progress.status === 'paused' ? 'remaining' : 'pending'}
+              </span>
+            </div>
+          </div>
+          {progress.cancelled > 0 && (
+            <p className={`flex items-center text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              <Ban className="h-4 w-4 mr-1" />
+              {progress.cancelled} not sent (cancelled)
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        {messages.length === 0 ? (
+          <p className={`p-6 text-sm text-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            Waiting for message updates...
+          </p>
+        ) : (
+          <div className="px-6 py-2">
+            {messages.map(message => (
+              <div
+                key={message.messageId}
+                className={`flex items-center justify-between py-3 border-b ${
+                  isDark ? 'border-gray-700' : 'border-gray-100'
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  {getStatusIcon(message.status)}
+                  <div>
+                    <p className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                      {message.phone_number}
+                    </p>
+                    {message.error && (
+                      <p className="text-xs text-red-500">{message.error}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <span className={`text-xs font-medium capitalize ${getStatusColor(message.status)}`}>
+                    {message.status}
+                  </span>
+                  <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {new Date(message.timestamp).toLocaleTimeString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProgressTracker
@@ -0,0 +1,104 @@
+import React, { useState } from 'react'
+import { CalendarClock } from 'lucide-react'
+import { fromDateTimeInput, minDateTimeInput, toDateTimeInput } from '../lib/schedule'
+
+interface ScheduledCampaign {
+  id: number
+  name: string
+  scheduled_at: string | null
+}
+
+interface ScheduledCampaignsProps {
+  campaigns: ScheduledCampaign[]
+  isDark: boolean
+  onChange: () => void
+}
+
+// Upcoming scheduled campaigns with reschedule and cancel controls
+const ScheduledCampaigns: React.FC<ScheduledCampaignsProps> = ({ campaigns, isDark, onChange }) => {
+  const [drafts, setDrafts] = useState<Record<number, string>>({})
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  if (campaigns.length === 0) return null
+
+  const request = async (campaign: ScheduledCampaign, init: RequestInit) => {
+    try {
+      setBusyId(campaign.id)
+      const response = await fetch(`/api/campaigns/${campaign.id}/schedule`, init)
+      const result = await response.json()
+      if (!response.ok) {
+        alert('Error updating schedule: ' + result.error)
+        return
+      }
+      setDrafts(prev => {
+        const { [campaign.id]: _, ...rest } = prev
+        return rest
+      })
+      onChange()
+    } catch (error) {
+      alert('Error updating schedule: ' + (error as Error).message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const reschedule = (campaign: ScheduledCampaign) => request(campaign, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ scheduledAt: fromDateTimeInput(drafts[campaign.id]) })
+  })
+
+  const cancel = (campaign: ScheduledCampaign) => {
+    if (!confirm(`Cancel the schedule for "${campaign.name}"? It will go back to draft.`)) return
+    request(campaign, { method: 'DELETE' })
+  }
+
+  return (
+    <div className={`pt-4 border-t space-y-3 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+      <h4 className={`flex items-center text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <CalendarClock className="h-4 w-4 mr-2" />
+        Scheduled campaigns
+      </h4>
+      {campaigns.map(campaign => {
+        const value = drafts[campaign.id] ?? (campaign.scheduled_at ? toDateTimeInput(campaign.scheduled_at) : '')
+        const changed = drafts[campaign.id] !== undefined && drafts[campaign.id] !== ''
+        return (
+          <div key={campaign.id} className="flex items-center gap-2">
+            <span className={`flex-1 text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{campaign.name}</span>
+            <input
+              type="datetime-local"
+              value={value}
+              min={minDateTimeInput()}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [campaign.id]: e.target.value }))}
+              className={`p-1 border rounded-lg text-sm ${
+                isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+              }`}
+            />
+            <button
+              type="button"
+              onClick={() => reschedule(campaign)}
+              disabled={!changed || busyId === campaign.id}
+              className={`px-2 py-1 rounded-lg text-xs font-medium bg-blue-500 hover:bg-blue-600 text-white ${
+                !changed || busyId === campaign.id ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              Reschedule
+            </button>
+            <button
+              type="button"
+              onClick={() => cancel(campaign)}
+              disabled={busyId === campaign.id}
+              className={`px-2 py-1 rounded-lg text-xs font-medium ${
+                isDark ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Cancel
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ScheduledCampaigns
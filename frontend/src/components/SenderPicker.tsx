@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react'
+import { Smartphone } from 'lucide-react'
+import { WhatsAppSession, fetchSessions, sessionState } from '../lib/sessions'
+
+interface SenderPickerProps {
+  // Chosen session ids; empty means every account shares the sending
+  senders: string[]
+  onChange: (senders: string[]) => void
+  isDark: boolean
+}
+
+// Lets a campaign send from some of the connected WhatsApp accounts; hidden when there is only one
+const SenderPicker: React.FC<SenderPickerProps> = ({ senders, onChange, isDark }) => {
+  const [sessions, setSessions] = useState<WhatsAppSession[]>([])
+
+  useEffect(() => {
+    fetchSessions().then(setSessions)
+  }, [])
+
+  if (sessions.length < 2) return null
+
+  const toggle = (id: string) => {
+    onChange(senders.includes(id) ? senders.filter(sender => sender !== id) : [...senders, id])
+  }
+
+  return (
+    <div>
+      <label className={`flex items-center text-sm font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <Smartphone className="h-4 w-4 mr-2" />
+        Send from
+      </label>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {sessions.map(session => (
+          <label key={session.id} className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input type="checkbox" checked={senders.includes(session.id)} onChange={() => toggle(session.id)} />
+            {session.name}
+            <span className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>{sessionState(session)}</span>
+          </label>
+        ))}
+      </div>
+      <p className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+        {senders.length === 0
+          ? 'None selected: every account shares the sending.'
+          : 'Messages are spread over the selected accounts; the sending limits apply to each of them.'}
+      </p>
+    </div>
+  )
+}
+
+export default SenderPicker
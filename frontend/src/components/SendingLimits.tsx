@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react'
+import { Gauge, Clock } from 'lucide-react'
+import { CampaignEstimate, ThrottleSettings, formatEstimate } from '../lib/throttle'
+import { CampaignAudience } from '../lib/audiences'
+
+interface SendingLimitsProps {
+  throttle: ThrottleSettings
+  onChange: (throttle: ThrottleSettings) => void
+  isDark: boolean
+  // ISO time sending would begin; defaults to now
+  startAt?: string
+  // Contacts the campaign goes to; defaults to all of them
+  audience?: CampaignAudience
+  // Sessions sharing the sending; defaults to all of them
+  senders?: string[] | null
+}
+
+// Waits for typing to settle before asking the backend for a new projection
+const ESTIMATE_DEBOUNCE_MS = 400
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const optionalNumber = (value: string): number | null => (value === '' ? null : Math.max(1, parseInt(value, 10) || 1))
+
+const SendingLimits: React.FC<SendingLimitsProps> = ({ throttle, onChange, isDark, startAt, audience = null, senders = null }) => {
+  const [estimate, setEstimate] = useState<CampaignEstimate | null>(null)
+  const [estimateError, setEstimateError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/campaigns/estimate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ throttle, startAt, audience, senders })
+        })
+        const result = await response.json()
+        setEstimate(response.ok ? result : null)
+        setEstimateError(response.ok ? null : result.error)
+      } catch (error) {
+        setEstimate(null)
+        setEstimateError(null)
+      }
+    }, ESTIMATE_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [throttle, startAt, audience, senders])
+
+  const update = (changes: Partial<ThrottleSettings>) => onChange({ ...throttle, ...changes })
+
+  const inputClass = `w-full p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const labelClass = `block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`
+
+  return (
+    <div className="space-y-3">
+      <label className={`flex items-center text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <Gauge className="h-4 w-4 mr-2" />
+        Sending limits
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <span className={labelClass}>Min delay (seconds)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={throttle.minDelayMs / 1000}
+            onChange={(e) => {
+              const minDelayMs = Math.max(0, Number(e.target.value) * 1000)
+              update({ minDelayMs, maxDelayMs: Math.max(minDelayMs, throttle.maxDelayMs) })
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <span className={labelClass}>Max delay (seconds)</span>
+          <input
+            type="number"
+            min={throttle.minDelayMs / 1000}
+            step={0.5}
+            value={throttle.maxDelayMs / 1000}
+            onChange={(e) => update({ maxDelayMs: Math.max(throttle.minDelayMs, Number(e.target.value) * 1000) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <span className={labelClass}>Messages per hour</span>
+          <input
+            type="number"
+            min={1}
+            value={throttle.hourlyLimit ?? ''}
+            onChange={(e) => update({ hourlyLimit: optionalNumber(e.target.value) })}
+            placeholder="No limit"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <span className={labelClass}>Messages per day</span>
+          <input
+            type="number"
+            min={1}
+            value={throttle.dailyLimit ?? ''}
+            onChange={(e) => update({ dailyLimit: optionalNumber(e.target.value) })}
+            placeholder="No limit"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <label className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <input
+          type="checkbox"
+          checked={!!throttle.allowedHours}
+          onChange={(e) => update({ allowedHours: e.target.checked ? { start: 9, end: 18 } : null })}
+        />
+        Only send between certain hours
+      </label>
+
+      {throttle.allowedHours && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <span className={labelClass}>From</span>
+            <select
+              value={throttle.allowedHours.start}
+              onChange={(e) => update({ allowedHours: { ...throttle.allowedHours!, start: Number(e.target.value) } })}
+              className={inputClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{`${hour}:00`}</option>)}
+            </select>
+          </div>
+          <div>
+            <span className={labelClass}>Until</span>
+            <select
+              value={throttle.allowedHours.end}
+              onChange={(e) => update({ allowedHours: { ...throttle.allowedHours!, end: Number(e.target.value) } })}
+              className={inputClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{`${hour}:00`}</option>)}
+            </select>
+          </div>
+          <div>
+            <span className={labelClass}>Timezone</span>
+            <input
+              type="text"
+              value={throttle.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {estimate && estimate.total > 0 && (
+        <p className={`flex items-center text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          <Clock className="h-3 w-3 mr-1" />
+          {estimate.total} messages, projected to finish {formatEstimate(estimate)}{startAt ? '' : ' if sent now'}
+        </p>
+      )}
+      {estimate && estimate.total === 0 && audience && (
+        <p className="text-xs text-yellow-500">No contacts in this audience can be messaged</p>
+      )}
+      {estimateError && <p className="text-xs text-red-500">{estimateError}</p>}
+    </div>
+  )
+}
+
+export default SendingLimits
@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Ban, Trash2, Upload } from 'lucide-react'
+import { jsonRequest, useRequest } from '../lib/request'
+
+interface Suppression {
+  phone_number: string
+  source: 'keyword' | 'manual' | 'import'
+  note: string | null
+  created_at: string
+}
+
+interface ImportResult {
+  added: number
+  existing: number
+  invalid: string[]
+}
+
+interface SuppressionListProps {
+  isDark: boolean
+}
+
+const SOURCE_LABELS: Record<Suppression['source'], string> = {
+  keyword: 'Replied',
+  manual: 'Added',
+  import: 'Imported'
+}
+
+// Numbers that campaigns and replies never go to, plus the reply keywords that opt a sender out
+const SuppressionList: React.FC<SuppressionListProps> = ({ isDark }) => {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([])
+  const [keywords, setKeywords] = useState('')
+  const [phone, setPhone] = useState('')
+  const [note, setNote] = useState('')
+
+  const load = useCallback(async () => {
+    try {
+      const [listResponse, keywordsResponse] = await Promise.all([
+        fetch('/api/suppressions'),
+        fetch('/api/suppressions/keywords')
+      ])
+      if (listResponse.ok) setSuppressions(await listResponse.json())
+      if (keywordsResponse.ok) setKeywords((await keywordsResponse.json()).keywords.join(', '))
+    } catch (error) {
+      console.error('Error loading suppression list:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const { busy, request } = useRequest(load)
+
+  const add = async () => {
+    const result = await request('adding number', '/api/suppressions', jsonRequest('POST', { phone_number: phone, note }))
+    if (result) {
+      setPhone('')
+      setNote('')
+    }
+  }
+
+  const remove = (suppression: Suppression) => {
+    if (!confirm(`Allow messages to +${suppression.phone_number} again?`)) return
+    request('removing number', `/api/suppressions/${suppression.phone_number}`, { method: 'DELETE' })
+  }
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const body = new FormData()
+    body.append('csvFile', file)
+    const result = await request<ImportResult>('importing numbers', '/api/suppressions/import', { method: 'POST', body })
+    if (result) {
+      alert(`Added ${result.added} number(s); ${result.existing} already listed${result.invalid.length > 0 ? `; ${result.invalid.length} invalid` : ''}`)
+    }
+  }
+
+  const saveKeywords = () => request('saving keywords', '/api/suppressions/keywords', jsonRequest('PUT', {
+    keywords: keywords.split(',').map(keyword => keyword.trim()).filter(Boolean)
+  }))
+
+  const inputClass = `p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={`block text-sm font-medium mb-1 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+          Opt-out keywords
+        </label>
+        <div className="flex gap-2">
+          <input value={keywords} onChange={(e) => setKeywords(e.target.value)} className={`flex-1 ${inputClass}`} />
+          <button
+            onClick={saveKeywords}
+            disabled={busy}
+            className="px-3 rounded-lg text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            Save
+          </button>
+        </div>
+        <p className={`text-xs mt-1 ${mutedText}`}>
+          Comma-separated. A reply consisting of just one of these adds the sender to the list.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <input value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="Phone number" className={`w-40 ${inputClass}`} />
+        <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" className={`flex-1 ${inputClass}`} />
+        <button
+          onClick={add}
+          disabled={busy || !phone.trim()}
+          className={`inline-flex items-center gap-1 px-3 rounded-lg text-sm font-medium bg-red-500 hover:bg-red-600 text-white ${
+            busy || !phone.trim() ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <Ban className="w-4 h-4" />
+          Suppress
+        </button>
+      </div>
+
+      <label className={`inline-flex items-center gap-1 text-sm cursor-pointer ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+        <Upload className="w-4 h-4" />
+        Import numbers from a CSV or text file
+        <input type="file" accept=".csv,.txt" onChange={importFile} className="hidden" />
+      </label>
+
+      <div className={`max-h-64 overflow-y-auto border-t pt-2 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        {suppressions.length === 0 ? (
+          <p className={`text-sm ${mutedText}`}>No suppressed numbers</p>
+        ) : suppressions.map(suppression => (
+          <div key={suppression.phone_number} className="flex items-center gap-2 py-1">
+            <span className={`w-36 text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>+{suppression.phone_number}</span>
+            <span className={`flex-1 text-xs truncate ${mutedText}`}>
+              {SOURCE_LABELS[suppression.source]}{suppression.note ? ` · ${suppression.note}` : ''}
+              {' · '}{new Date(suppression.created_at.replace(' ', 'T') + 'Z').toLocaleDateString()}
+            </span>
+            <button
+              onClick={() => remove(suppression)}
+              disabled={busy}
+              title="Remove from list"
+              className={`p-1 rounded ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default SuppressionList
@@ -0,0 +1,162 @@
+import React from 'react'
+import { FlaskConical, Plus, Trash2, Trophy } from 'lucide-react'
+import MessageComposer from './MessageComposer'
+import { AttributeValue } from '../lib/template'
+import {
+  CampaignVariant,
+  MAX_VARIANTS,
+  WINNER_METRICS,
+  WinnerMetric,
+  WinnerTest,
+  defaultWinnerTest,
+  evenSplit
+} from '../lib/variants'
+
+interface VariantEditorProps {
+  variants: CampaignVariant[]
+  onChange: (variants: CampaignVariant[]) => void
+  // null splits the whole audience between the variants
+  winnerTest: WinnerTest | null
+  onWinnerTestChange: (winnerTest: WinnerTest | null) => void
+  contacts: Array<{ id: number, phone_number: string, name: string, email?: string | null, attributes?: Record<string, AttributeValue> }>
+  isDark: boolean
+}
+
+// Messages of an A/B tested campaign with each one's share of the recipients, and the optional test
+// phase after which the best one goes to the rest of the audience
+const VariantEditor: React.FC<VariantEditorProps> = ({ variants, onChange, winnerTest, onWinnerTestChange, contacts, isDark }) => {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0)
+
+  const update = (index: number, changes: Partial<CampaignVariant>) =>
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)))
+
+  const updateTest = (changes: Partial<WinnerTest>) => onWinnerTestChange({ ...(winnerTest || defaultWinnerTest()), ...changes })
+
+  const inputClass = `w-full p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const labelClass = `block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className="space-y-4">
+      {variants.map((variant, index) => (
+        <div key={index} className={`p-3 rounded-lg space-y-3 ${isDark ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-sm font-medium ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>Variant {variant.label}</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={variant.weight}
+                onChange={(e) => update(index, { weight: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className={`w-20 p-1 border rounded text-sm ${
+                  isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+                }`}
+              />
+              <span className={`text-xs ${mutedText}`}>% of recipients</span>
+              {variants.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(evenSplit(variants.filter((_, i) => i !== index)))}
+                  title="Remove variant"
+                  className={`p-1 rounded ${isDark ? 'hover:bg-gray-600 text-gray-400' : 'hover:bg-gray-200 text-gray-500'}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+          <MessageComposer
+            label={`Variant ${variant.label} message`}
+            message={variant.message}
+            onChange={(message) => update(index, { message })}
+            contacts={contacts}
+            isDark={isDark}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-xs">
+        <span className={total === 100 ? mutedText : 'text-red-500'}>
+          {total === 100 ? 'Shares add up to 100%' : `Shares add up to ${total}%; they must add up to 100%`}
+        </span>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => onChange(evenSplit(variants))} className="text-blue-500 hover:underline">
+            Split evenly
+          </button>
+          {variants.length < MAX_VARIANTS && (
+            <button
+              type="button"
+              onClick={() => onChange(evenSplit([...variants, { label: '', message: '', weight: 0 }]))}
+              className="flex items-center text-blue-500 hover:underline"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add variant
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className={`flex items-center gap-2 text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+          <input
+            type="checkbox"
+            checked={winnerTest !== null}
+            onChange={(e) => onWinnerTestChange(e.target.checked ? defaultWinnerTest() : null)}
+          />
+          <Trophy className="h-4 w-4" />
+          Test on part of the audience, then send the winner to the rest
+        </label>
+        {winnerTest ? (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <span className={labelClass}>Test audience (%)</span>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={winnerTest.testPercent}
+                onChange={(e) => updateTest({ testPercent: Math.min(99, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <span className={labelClass}>Wait (hours)</span>
+              <input
+                type="number"
+                min={1}
+                max={168}
+                value={winnerTest.waitHours}
+                onChange={(e) => updateTest({ waitHours: Math.min(168, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <span className={labelClass}>Winner by</span>
+              <select
+                value={winnerTest.metric}
+                onChange={(e) => updateTest({ metric: e.target.value as WinnerMetric })}
+                className={inputClass}
+              >
+                {Object.entries(WINNER_METRICS).map(([metric, label]) => (
+                  <option key={metric} value={metric}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <p className={`col-span-3 flex items-start text-xs ${mutedText}`}>
+              <FlaskConical className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+              The variants go to a random {winnerTest.testPercent}% of the audience. {winnerTest.waitHours} hour(s) after
+              those are sent, the variant with the best {WINNER_METRICS[winnerTest.metric].toLowerCase()} goes to everyone else.
+            </p>
+          </div>
+        ) : (
+          <p className={`text-xs ${mutedText}`}>The whole audience is split between the variants by their shares.</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default VariantEditor
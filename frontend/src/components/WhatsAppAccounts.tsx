@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Plus, Smartphone, Trash2 } from 'lucide-react'
+import { WhatsAppSession, fetchSessions, sessionState } from '../lib/sessions'
+
+interface WhatsAppAccountsProps {
+  isDark: boolean
+}
+
+// QR codes expire after about 20 seconds, so unlinked accounts are refreshed more often than that
+const REFRESH_INTERVAL_MS = 5000
+
+// The WhatsApp numbers campaigns send from: each is linked by scanning its own QR code
+const WhatsAppAccounts: React.FC<WhatsAppAccountsProps> = ({ isDark }) => {
+  const [sessions, setSessions] = useState<WhatsAppSession[]>([])
+  const [qrCodes, setQrCodes] = useState<Record<string, string | null>>({})
+  const [id, setId] = useState('')
+  const [name, setName] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    const list = await fetchSessions()
+    setSessions(list)
+
+    const codes: Record<string, string | null> = {}
+    await Promise.all(list.filter(session => session.hasQRCode).map(async session => {
+      try {
+        const response = await fetch(`/api/whatsapp/sessions/${encodeURIComponent(session.id)}/qr`)
+        if (response.ok) codes[session.id] = (await response.json()).qrCode
+      } catch (error) {
+        console.error('Error loading QR code:', error)
+      }
+    }))
+    setQrCodes(codes)
+  }, [])
+
+  useEffect(() => {
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [load])
+
+  // Runs a request, alerting on failure; reloads the list either way
+  const request = async (action: string, url: string, init: RequestInit): Promise<boolean> => {
+    try {
+      setBusy(true)
+      const response = await fetch(url, init)
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        alert(`Error ${action}: ${result.error || response.statusText}`)
+        return false
+      }
+      return true
+    } catch (error) {
+      alert(`Error ${action}: ${(error as Error).message}`)
+      return false
+    } finally {
+      setBusy(false)
+      load()
+    }
+  }
+
+  const add = async () => {
+    const added = await request('adding account', '/api/whatsapp/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: id.trim(), name: name.trim() || undefined })
+    })
+    if (added) {
+      setId('')
+      setName('')
+    }
+  }
+
+  const remove = (session: WhatsAppSession) => {
+    if (!confirm(`Log out and remove "${session.name}"? Queued messages only it could send will fail.`)) return
+    request('removing account', `/api/whatsapp/sessions/${encodeURIComponent(session.id)}`, { method: 'DELETE' })
+  }
+
+  const inputClass = `p-2 border rounded-lg text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {sessions.length === 0 && (
+          <p className={`text-sm ${mutedText}`}>WhatsApp server is not reachable</p>
+        )}
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            className={`p-3 rounded-lg border ${isDark ? 'border-gray-700' : 'border-gray-200'}`}
+          >
+            <div className="flex items-center gap-3">
+              <Smartphone className={`w-5 h-5 ${session.isReady ? 'text-green-500' : mutedText}`} />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                  {session.name} <span className={`font-normal ${mutedText}`}>({session.id})</span>
+                </p>
+                <p className={`text-xs ${mutedText}`}>
+                  {sessionState(session)}{session.queueLength > 0 ? ` · ${session.queueLength} queued` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => remove(session)}
+                disabled={busy || sessions.length === 1}
+                title={sessions.length === 1 ? 'The last account cannot be removed' : 'Log out and remove'}
+                className={`p-1 rounded ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'} ${
+                  sessions.length === 1 ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {qrCodes[session.id] && (
+              <div className="mt-3 flex flex-col items-center">
+                <img src={qrCodes[session.id]!} alt={`QR code for ${session.name}`} className="w-48 h-48 bg-white p-2 rounded-lg" />
+                <p className={`text-xs mt-1 ${mutedText}`}>
+                  Open WhatsApp on the phone, go to Linked devices and scan this code
+                </p>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={id}
+          onChange={(e) => setId(e.target.value)}
+          placeholder="Id, e.g. sales-2"
+          className={`w-40 ${inputClass}`}
+        />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={add}
+          disabled={busy || !id.trim()}
+          className={`inline-flex items-center gap-1 px-3 rounded-lg text-sm font-medium bg-green-500 hover:bg-green-600 text-white ${
+            busy || !id.trim() ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <Plus className="w-4 h-4" />
+          Add account
+        </button>
+      </div>
+      <p className={`text-xs ${mutedText}`}>
+        Ids may use letters, digits, underscores and hyphens. Campaigns without chosen senders spread over every connected account.
+      </p>
+    </div>
+  )
+}
+
+export default WhatsAppAccounts
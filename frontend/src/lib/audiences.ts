@@ -0,0 +1,54 @@
+// Contact lists (tags) and saved segments, mirroring the backend's Tag, Segment and CampaignAudience
+
+export interface Tag {
+  id: number
+  name: string
+  contact_count: number
+}
+
+// greater_than and less_than compare numbers or YYYY-MM-DD dates
+export type AttributeOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_set'
+  | 'is_not_set'
+
+export type SegmentRule =
+  | { type: 'tag', tagId: number, negate?: boolean }
+  | { type: 'attribute', key: string, operator: AttributeOperator, value?: string }
+  | { type: 'replied', replied: boolean }
+  | { type: 'last_messaged_before', date: string }
+
+export interface Segment {
+  id: number
+  name: string
+  rules: SegmentRule[]
+  // Contacts the segment would message right now
+  recipients: number
+}
+
+// The contacts a campaign sends to; null means every contact
+export type CampaignAudience = { type: 'tag' | 'segment', id: number } | null
+
+export const fetchTags = async (): Promise<Tag[]> => {
+  try {
+    const response = await fetch('/api/tags')
+    return response.ok ? await response.json() : []
+  } catch (error) {
+    console.error('Error loading contact lists:', error)
+    return []
+  }
+}
+
+export const fetchSegments = async (): Promise<Segment[]> => {
+  try {
+    const response = await fetch('/api/segments')
+    return response.ok ? await response.json() : []
+  } catch (error) {
+    console.error('Error loading segments:', error)
+    return []
+  }
+}
@@ -0,0 +1,37 @@
+// Contacts as the backend's /api/contacts returns them
+import { AttributeValue } from './template'
+
+export interface Contact {
+  id: number
+  // E.164; phone_original keeps the number as imported
+  phone_number: string
+  phone_original: string | null
+  phone_country: string | null
+  phone_type: string | null
+  name: string
+  email?: string
+  attributes?: Record<string, AttributeValue>
+  // Whether the number has WhatsApp as of the last check; null until checked
+  whatsapp_registered: boolean | null
+  whatsapp_checked_at: string | null
+  created_at: string
+}
+
+// A campaign message, reply or inbox answer exchanged with a contact's number
+export interface ConversationEntry {
+  key: string
+  direction: 'inbound' | 'outbound'
+  body: string
+  type: string
+  status: string | null
+  error_message: string | null
+  campaign_id: number | null
+  campaign_name: string | null
+  created_at: string
+}
+
+export interface ContactDetail extends Contact {
+  tags: Array<{ id: number, name: string }>
+  suppression: { phone_number: string, source: 'keyword' | 'manual' | 'import', note: string | null, created_at: string } | null
+  timeline: ConversationEntry[]
+}
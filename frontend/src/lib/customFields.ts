@@ -0,0 +1,31 @@
+// Workspace-defined contact fields, mirroring the backend's CustomField
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'enum'
+
+export interface CustomField {
+  id: number
+  // Attribute and template variable name, e.g. signup_date
+  key: string
+  label: string
+  type: CustomFieldType
+  // Allowed values of an enum field
+  options: string[]
+}
+
+export const FIELD_TYPES: Array<{ value: CustomFieldType, label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'enum', label: 'Choice' }
+]
+
+export const fetchCustomFields = async (): Promise<CustomField[]> => {
+  try {
+    const response = await fetch('/api/custom-fields')
+    return response.ok ? await response.json() : []
+  } catch (error) {
+    console.error('Error loading custom fields:', error)
+    return []
+  }
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react'
+
+// Requests made by the management screens: a failure is alerted as "Error <action>: ..." and
+// resolves to null, so callers only act on a result
+
+export const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+})
+
+export const sendRequest = async <T = unknown>(action: string, url: string, init: RequestInit): Promise<T | null> => {
+  try {
+    const response = await fetch(url, init)
+    const result = await response.json()
+    if (!response.ok) {
+      alert(`Error ${action}: ${result.error}`)
+      return null
+    }
+    return result as T
+  } catch (error) {
+    alert(`Error ${action}: ${(error as Error).message}`)
+    return null
+  }
+}
+
+// sendRequest for a screen that disables its controls while a request runs and reloads its data
+// after each one, whether it succeeded or not
+export const useRequest = (reload: () => void) => {
+  const [busy, setBusy] = useState(false)
+
+  const request = async <T = unknown>(action: string, url: string, init: RequestInit): Promise<T | null> => {
+    setBusy(true)
+    try {
+      return await sendRequest<T>(action, url, init)
+    } finally {
+      setBusy(false)
+      reload()
+    }
+  }
+
+  return { busy, request }
+}
@@ -0,0 +1,11 @@
+// Conversions between stored ISO timestamps and <input type="datetime-local"> values, which are in local time
+
+export const toDateTimeInput = (iso: string): string => {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export const fromDateTimeInput = (value: string): string => new Date(value).toISOString()
+
+// Earliest value the inputs accept: the next minute
+export const minDateTimeInput = (): string => toDateTimeInput(new Date(Date.now() + 60000).toISOString())
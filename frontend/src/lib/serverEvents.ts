@@ -0,0 +1,121 @@
+// Shared connection to the backend's /api/events Server-Sent Events stream.
+// Components subscribe per event type; one EventSource is opened while anyone is listening.
+
+export interface CampaignProgress {
+  campaignId: number
+  campaignName: string
+  status: string
+  isActive: boolean
+  total: number
+  sent: number
+  failed: number
+  cancelled: number
+  pending: number
+  percentage: number
+}
+
+export type CampaignAction = 'pause' | 'resume' | 'cancel'
+
+export interface MessageUpdate {
+  campaignId: number
+  messageId: number
+  contactId: number
+  phone_number: string
+  status: 'pending' | 'sending' | 'sent' | 'failed'
+  error: string | null
+  timestamp: string
+}
+
+export interface SystemStatus {
+  backend: string
+  whatsapp: string
+  authenticated: boolean
+}
+
+// A reply received from a contact, or an answer sent from the inbox
+export interface InboxMessage {
+  id: number
+  phone_number: string
+  contact_id: number | null
+  campaign_id: number | null
+  direction: 'inbound' | 'outbound'
+  body: string
+  type: string
+  sender_name: string | null
+  status: 'sent' | 'failed' | null
+  error_message: string | null
+  created_at: string
+}
+
+// Campaigns whose delivery or read counts changed
+export interface ReceiptUpdate {
+  campaignIds: number[]
+}
+
+// The latest check of which contact numbers have WhatsApp
+export interface VerificationProgress {
+  verificationId: string
+  isActive: boolean
+  total: number
+  checked: number
+  registered: number
+  unregistered: number
+  failed: number
+  startedAt: string
+  completedAt: string | null
+}
+
+export interface ServerEventMap {
+  snapshot: { progress: CampaignProgress[], status: SystemStatus }
+  campaign: CampaignProgress
+  message: MessageUpdate
+  status: SystemStatus
+  receipts: ReceiptUpdate
+  inbox: InboxMessage
+  verification: VerificationProgress
+}
+
+type EventType = keyof ServerEventMap
+type Handler<K extends EventType> = (data: ServerEventMap[K]) => void
+
+const EVENTS_URL = '/api/events'
+
+let source: EventSource | null = null
+const handlers = new Map<EventType, Set<Handler<any>>>()
+
+function dispatch(type: EventType, event: MessageEvent) {
+  let data: unknown
+  try {
+    data = JSON.parse(event.data)
+  } catch (error) {
+    console.error(`Malformed ${type} event:`, error)
+    return
+  }
+  handlers.get(type)?.forEach(handler => handler(data))
+}
+
+function ensureListening(type: EventType) {
+  if (!source) {
+    source = new EventSource(EVENTS_URL)
+  }
+  if (!handlers.has(type)) {
+    handlers.set(type, new Set())
+    source.addEventListener(type, (event) => dispatch(type, event as MessageEvent))
+  }
+}
+
+// EventSource reconnects on its own and the server replays a snapshot on every connect
+export function subscribe<K extends EventType>(type: K, handler: Handler<K>): () => void {
+  ensureListening(type)
+  handlers.get(type)!.add(handler)
+
+  return () => {
+    handlers.get(type)?.delete(handler)
+    const listening = Array.from(handlers.values()).some(set => set.size > 0)
+    if (!listening && source) {
+      source.close()
+      source = null
+      handlers.clear()
+    }
+  }
+}
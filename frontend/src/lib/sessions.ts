@@ -0,0 +1,23 @@
+// WhatsApp accounts connected through whatsapp-server, as listed by /api/whatsapp/sessions
+
+export interface WhatsAppSession {
+  id: string
+  name: string
+  isReady: boolean
+  hasQRCode: boolean
+  // Queued messages this account may still send
+  queueLength: number
+}
+
+export const fetchSessions = async (): Promise<WhatsAppSession[]> => {
+  try {
+    const response = await fetch('/api/whatsapp/sessions')
+    return response.ok ? await response.json() : []
+  } catch (error) {
+    console.error('Error loading WhatsApp sessions:', error)
+    return []
+  }
+}
+
+export const sessionState = (session: WhatsAppSession): string =>
+  session.isReady ? 'Connected' : session.hasQRCode ? 'Waiting for QR scan' : 'Starting...'
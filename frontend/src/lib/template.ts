@@ -0,0 +1,68 @@
+// Client-side copy of the backend's message template renderer, used for previews.
+// Syntax: {{name}}, {{first_name|there}} (text after | is the fallback)
+
+export type TemplateVariables = Record<string, string | number | boolean | null | undefined>
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g
+
+export function normalizeVariableName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const lookup: TemplateVariables = {}
+  for (const [key, value] of Object.entries(variables)) {
+    lookup[normalizeVariableName(key)] = value
+  }
+
+  return template.replace(PLACEHOLDER, (_match, key: string, fallback: string | undefined) => {
+    const value = lookup[normalizeVariableName(key)]
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value)
+    }
+    return fallback !== undefined ? fallback.trim() : ''
+  })
+}
+
+export function extractVariables(template: string): string[] {
+  const names = new Set<string>()
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    names.add(normalizeVariableName(match[1]))
+  }
+  return Array.from(names)
+}
+
+export const BUILT_IN_VARIABLES = ['name', 'first_name', 'last_name', 'phone', 'email']
+
+// Custom field values; booleans render as yes/no
+export type AttributeValue = string | number | boolean
+
+export function attributeText(value: AttributeValue | undefined): string {
+  if (value === undefined) return ''
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return String(value)
+}
+
+export function contactVariables(contact: {
+  name: string | null
+  phone_number: string
+  email?: string | null
+  attributes?: Record<string, AttributeValue>
+}): TemplateVariables {
+  const fullName = (contact.name || '').trim()
+  const [firstName = '', ...rest] = fullName.split(/\s+/)
+  const attributes: TemplateVariables = {}
+  for (const [key, value] of Object.entries(contact.attributes || {})) {
+    attributes[key] = attributeText(value)
+  }
+
+  return {
+    first_name: firstName,
+    last_name: rest.join(' '),
+    ...attributes,
+    name: fullName,
+    phone: contact.phone_number,
+    phone_number: contact.phone_number,
+    email: contact.email
+  }
+}
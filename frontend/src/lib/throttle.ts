@@ -0,0 +1,38 @@
+// Per-campaign sending limits, mirroring the backend's ThrottleSettings
+
+export interface ThrottleSettings {
+  minDelayMs: number
+  maxDelayMs: number
+  hourlyLimit: number | null
+  dailyLimit: number | null
+  allowedHours: { start: number, end: number } | null
+  timezone: string
+}
+
+export interface CampaignEstimate {
+  total: number
+  startsAt: string
+  completesAt: string
+  durationMs: number
+}
+
+export const defaultThrottle = (): ThrottleSettings => ({
+  minDelayMs: 2000,
+  maxDelayMs: 5000,
+  hourlyLimit: null,
+  dailyLimit: null,
+  allowedHours: null,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+})
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return 'under a minute'
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
+export const formatEstimate = (estimate: CampaignEstimate): string =>
+  `${new Date(estimate.completesAt).toLocaleString()} (${formatDuration(estimate.durationMs)})`
@@ -0,0 +1,47 @@
+// A/B tested campaign messages, mirroring the backend's CampaignVariant, WinnerTest and VariantStats
+
+export interface CampaignVariant {
+  label: string
+  message: string
+  // Percentage of the recipients the variants go to
+  weight: number
+}
+
+export type WinnerMetric = 'delivered' | 'read' | 'replied'
+
+// Variants go to testPercent of the audience; waitHours after those are sent, the best one on the
+// metric goes to everyone else
+export interface WinnerTest {
+  testPercent: number
+  waitHours: number
+  metric: WinnerMetric
+}
+
+export interface VariantStats {
+  variant: number
+  label: string
+  total_messages: number
+  sent_count: number
+  failed_count: number
+  delivered_count: number
+  read_count: number
+  replied_count: number
+}
+
+export const MAX_VARIANTS = 5
+
+export const WINNER_METRICS: Record<WinnerMetric, string> = {
+  delivered: 'Delivery rate',
+  read: 'Read rate',
+  replied: 'Reply rate'
+}
+
+export const defaultWinnerTest = (): WinnerTest => ({ testPercent: 20, waitHours: 4, metric: 'read' })
+
+// Labels A, B, C... with the recipients split as evenly as whole percentages allow
+export const evenSplit = (variants: CampaignVariant[]): CampaignVariant[] =>
+  variants.map((variant, index) => ({
+    ...variant,
+    label: String.fromCharCode(65 + index),
+    weight: Math.floor(100 / variants.length) + (index < 100 % variants.length ? 1 : 0)
+  }))
@@ -1,13 +1,45 @@
+import fs from 'fs';
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import { whatsappService, Contact } from './services/whatsappService';
+import { whatsappService, Contact, JobStateError, MessageStatus } from './services/whatsappService';
+import { MAX_MEDIA_SIZE, MediaValidationError } from './services/mediaStore';
+import { MAX_ESTIMATE_TOTAL, parseThrottle, ThrottleValidationError } from './services/throttle';
+import { DEFAULT_SESSION_ID, parseNewSession, SessionError } from './services/session';
+import { decodeCsv, parseContactsCsv, parseCsv, sniffDelimiter } from './services/csvParser';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3002', 10);
 
 // Configure multer for file uploads
 const upload = multer({ dest: '/tmp/' });
+const mediaUpload = multer({ dest: '/tmp/', limits: { fileSize: MAX_MEDIA_SIZE } });
+
+// Accepts an optional attachment in the "file" field, answering upload errors as JSON
+const optionalMedia: express.RequestHandler = (req, res, next) => {
+  mediaUpload.single('file')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Attachment exceeds ${MAX_MEDIA_SIZE / (1024 * 1024)}MB` });
+      }
+      return res.status(400).json({ error: err.message });
+    }
+    next(err);
+  });
+};
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Sender pools are omitted (every session) or a non-empty list of session ids
+function validSenders(senders: unknown): boolean {
+  return senders === undefined || senders === null || (
+    Array.isArray(senders) && senders.length > 0 && senders.every(id => typeof id === 'string')
+  );
+}
+
+async function storeUploadedMedia(file: Express.Multer.File) {
+  return whatsappService.storeMedia(file.path, file.originalname, file.mimetype, file.size);
+}
 
 app.use(cors());
 app.use(express.json());
@@ -20,13 +52,15 @@ app.get('/health', (req, res) => {
     waReady: status.isReady,
     hasQRCode: status.hasQRCode,
     queueLength: status.queueLength,
+    sessions: status.sessions,
     timestamp: new Date().toISOString()
   });
 });
 
-// Get QR code for WhatsApp Web authentication
+// Get QR code for WhatsApp Web authentication of a session (?session=, the default session if omitted)
 app.get('/qr', (req, res) => {
-  const qrCode = whatsappService.getQRCode();
+  const sessionId = typeof req.query.session === 'string' ? req.query.session : DEFAULT_SESSION_ID;
+  const qrCode = whatsappService.getQRCode(sessionId);
   if (qrCode) {
     res.json({ qrCode });
   } else {
@@ -34,87 +68,360 @@ app.get('/qr', (req, res) => {
   }
 });
 
-// Send single message
-app.post('/send-message', async (req, res) => {
+// WhatsApp accounts; each has its own login, status and share of the queue
+app.get('/sessions', (req, res) => {
+  res.json({ sessions: whatsappService.getStatus().sessions });
+});
+
+app.post('/sessions', async (req, res) => {
   try {
-    const { phone, name, message } = req.body;
-    
-    if (!phone || !message) {
-      return res.status(400).json({ error: 'Phone and message are required' });
+    const { id, name } = parseNewSession(req.body);
+    const session = await whatsappService.createSession(id, name);
+    res.status(201).json({ success: true, session });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Create session error:', error);
+    res.status(500).json({ error: 'Failed to create session' });
+  }
+});
+
+app.get('/sessions/:id/qr', (req, res) => {
+  const session = whatsappService.getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  const qrCode = whatsappService.getQRCode(session.id);
+  res.json(qrCode ? { qrCode } : { qrCode: null, message: 'No QR code available or already authenticated' });
+});
+
+// Logs the account out; queued messages only it could send are failed
+app.delete('/sessions/:id', async (req, res) => {
+  try {
+    const removed = await whatsappService.removeSession(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Remove session error:', error);
+    res.status(500).json({ error: 'Failed to remove session' });
+  }
+});
+
+// Upload an attachment once; the returned id can be reused by /send-message and /send-bulk
+app.post('/media', optionalMedia, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const media = await storeUploadedMedia(req.file);
+    res.status(201).json({ success: true, media });
+  } catch (error) {
+    if (error instanceof MediaValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Media upload error:', error);
+    res.status(500).json({ error: 'Failed to store attachment' });
+  }
+});
+
+app.get('/media/:id', async (req, res) => {
+  try {
+    const media = await whatsappService.getMedia(req.params.id);
+    if (!media) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+    res.json(media);
+  } catch (error) {
+    console.error('Media lookup error:', error);
+    res.status(500).json({ error: 'Failed to read attachment' });
+  }
+});
+
+// Send single message, optionally with an attachment uploaded inline or referenced by mediaId,
+// from the session named by sessionId or else the first one free
+app.post('/send-message', optionalMedia, async (req, res) => {
+  try {
+    const { phone, name, message = '', sessionId } = req.body;
+    let { mediaId } = req.body;
+
+    // Checked before storing an inline upload so a rejected request leaves no orphaned media
+    let invalid: string | null = null;
+    if (!phone || (!message && !mediaId && !req.file)) {
+      invalid = 'Phone and a message or attachment are required';
+    } else if (sessionId && !whatsappService.getSession(sessionId)) {
+      invalid = `Unknown WhatsApp session ${sessionId}`;
+    }
+    if (invalid) {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => undefined);
+      }
+      return res.status(400).json({ error: invalid });
+    }
+
+    if (req.file) {
+      mediaId = (await storeUploadedMedia(req.file)).id;
     }
 
     const contact: Contact = { phone, name };
-    const result = await whatsappService.sendMessage(contact, message);
+    const result = await whatsappService.sendMessage(contact, message, mediaId, sessionId || undefined);
     
     res.json({ success: true, result });
   } catch (error) {
+    if (error instanceof MediaValidationError || error instanceof SessionError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Send message error:', error);
+    // Queue failures reject with a MessageStatus rather than an Error
+    const details = error instanceof Error
+      ? error.message
+      : (error as MessageStatus | undefined)?.error || 'Unknown error';
     res.status(500).json({ 
       error: 'Failed to send message',
-      details: error instanceof Error ? error.message : 'Unknown error'
+      details
     });
   }
 });
 
-// Send bulk messages
+// Queue bulk messages as a background job, paced by optional throttle settings
+// (minDelayMs, maxDelayMs, hourlyLimit, dailyLimit, allowedHours: { start, end }, timezone),
+// and sent by the sessions listed in senders (every session if omitted)
 app.post('/send-bulk', async (req, res) => {
   try {
-    const { contacts, message } = req.body;
+    const { contacts, message = '', mediaId, senders, jobId } = req.body;
     
-    if (!contacts || !Array.isArray(contacts) || !message) {
-      return res.status(400).json({ error: 'Contacts array and message are required' });
+    if (!contacts || !Array.isArray(contacts)) {
+      return res.status(400).json({ error: 'Contacts array and a message or mediaId are required' });
     }
 
-    const results = await whatsappService.sendBulkMessages(contacts, message);
-    
-    const summary = {
-      total: results.length,
-      sent: results.filter(r => r.status === 'sent').length,
-      failed: results.filter(r => r.status === 'failed').length
-    };
+    const invalid = contacts.findIndex((c: Contact) => !c || !c.phone);
+    if (invalid !== -1) {
+      return res.status(400).json({ error: `Contact at index ${invalid} is missing a phone number` });
+    }
 
-    res.json({ success: true, summary, results });
+    // Contacts may carry pre-rendered text, in which case the job-level message is optional
+    if (!message && !mediaId && contacts.some((c: Contact) => !c.message)) {
+      return res.status(400).json({ error: 'Contacts array and a message or mediaId are required' });
+    }
+
+    if (!validSenders(senders)) {
+      return res.status(400).json({ error: 'senders must be a non-empty array of session ids' });
+    }
+
+    // Callers may pick the job id so they can record it before the job exists
+    if (jobId !== undefined && (typeof jobId !== 'string' || !JOB_ID_PATTERN.test(jobId))) {
+      return res.status(400).json({ error: 'jobId must be a UUID' });
+    }
+
+    const throttle = parseThrottle(req.body.throttle);
+    const job = await whatsappService.createBulkJob(contacts, message, mediaId, throttle, senders || null, jobId);
+
+    res.status(202).json({ success: true, jobId: job.id, job });
   } catch (error) {
+    if (error instanceof MediaValidationError || error instanceof ThrottleValidationError || error instanceof SessionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof JobStateError) {
+      return res.status(409).json({ error: error.message });
+    }
     console.error('Bulk send error:', error);
     res.status(500).json({ 
-      error: 'Failed to send bulk messages',
+      error: 'Failed to queue bulk messages',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// Upload and parse CSV
-app.post('/upload-csv', upload.single('csv'), (req, res) => {
+// Projected completion of a bulk job of `total` messages with the given throttle settings and
+// senders, starting now or at an optional startAt timestamp
+app.post('/estimate', (req, res) => {
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No CSV file uploaded' });
+    const { senders } = req.body;
+    const total = Number(req.body.total);
+    if (!Number.isInteger(total) || total < 0 || total > MAX_ESTIMATE_TOTAL) {
+      return res.status(400).json({ error: `total must be a whole number from 0 to ${MAX_ESTIMATE_TOTAL}` });
+    }
+    if (!validSenders(senders)) {
+      return res.status(400).json({ error: 'senders must be a non-empty array of session ids' });
+    }
+    const startAt = Date.parse(req.body.startAt);
+    const throttle = parseThrottle(req.body.throttle);
+    res.json(whatsappService.estimateCompletion(throttle, total, isNaN(startAt) ? Date.now() : startAt, senders || null));
+  } catch (error) {
+    if (error instanceof ThrottleValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Estimate error:', error);
+    res.status(500).json({ error: 'Failed to estimate job' });
+  }
+});
 
-    // Read and parse CSV file
-    const fs = require('fs');
-    const csvContent = fs.readFileSync(req.file.path, 'utf-8');
-    
-    const lines = csvContent.split('\n').filter((line: string) => line.trim());
-    const contacts: Contact[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      const [phone, name] = line.split(',').map((item: string) => item.trim().replace(/"/g, ''));
-      
-      if (phone) {
-        contacts.push({ phone, name: name || undefined });
-      }
+// Bulk job progress
+app.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await whatsappService.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('Job status error:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+// Per-contact results for a bulk job, updated as each message completes
+app.get('/jobs/:id/results', async (req, res) => {
+  try {
+    const results = await whatsappService.getJobResults(req.params.id);
+    if (!results) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ jobId: req.params.id, results });
+  } catch (error) {
+    console.error('Job results error:', error);
+    res.status(500).json({ error: 'Failed to fetch job results' });
+  }
+});
+
+// Job controls; the queue checks job state before taking each message, and "retry"
+// requeues the failed messages of a completed job
+const jobActions = {
+  pause: (id: string) => whatsappService.pauseJob(id),
+  resume: (id: string) => whatsappService.resumeJob(id),
+  cancel: (id: string) => whatsappService.cancelJob(id),
+  retry: (id: string) => whatsappService.retryFailed(id)
+};
+
+app.post('/jobs/:id/:action(pause|resume|cancel|retry)', async (req, res) => {
+  const { id, action } = req.params;
+  try {
+    const job = await jobActions[action as keyof typeof jobActions](id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ success: true, job });
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error(`Job ${action} error:`, error);
+    res.status(500).json({ error: `Failed to ${action} job` });
+  }
+});
+
+// Delivery and read receipts acknowledged after feed position `after` (the seq of the last receipt seen), oldest first
+app.get('/receipts', async (req, res) => {
+  try {
+    const after = Math.max(parseInt(String(req.query.after || ''), 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || ''), 10) || 500, 1), 1000);
+    const receipts = await whatsappService.getReceipts(after, limit);
+    res.json({ receipts });
+  } catch (error) {
+    console.error('Receipts error:', error);
+    res.status(500).json({ error: 'Failed to fetch receipts' });
+  }
+});
+
+// Replace the suppression list; queued messages to these numbers fail instead of being sent
+app.put('/suppressions', async (req, res) => {
+  try {
+    const { phones } = req.body;
+    if (!Array.isArray(phones) || phones.some((phone: unknown) => typeof phone !== 'string')) {
+      return res.status(400).json({ error: 'phones must be an array of strings' });
+    }
+
+    const count = await whatsappService.replaceSuppressions(phones);
+    res.json({ success: true, count });
+  } catch (error) {
+    console.error('Suppression list error:', error);
+    res.status(500).json({ error: 'Failed to replace suppression list' });
+  }
+});
+
+// Check which numbers ("phones") have WhatsApp, in the background; poll the verification for progress
+// and its results for the outcome of each number
+app.post('/verifications', async (req, res) => {
+  try {
+    const { phones } = req.body;
+    if (!Array.isArray(phones) || phones.length === 0 || phones.some((phone: unknown) => typeof phone !== 'string' || !phone)) {
+      return res.status(400).json({ error: 'phones must be a non-empty array of phone numbers' });
     }
 
-    // Clean up uploaded file
-    fs.unlinkSync(req.file.path);
+    const verification = await whatsappService.createVerification(phones);
+    res.status(202).json({ success: true, verification });
+  } catch (error) {
+    console.error('Verification error:', error);
+    res.status(500).json({ error: 'Failed to queue verification' });
+  }
+});
+
+app.get('/verifications/:id', async (req, res) => {
+  try {
+    const verification = await whatsappService.getVerification(req.params.id);
+    if (!verification) {
+      return res.status(404).json({ error: 'Verification not found' });
+    }
+    res.json(verification);
+  } catch (error) {
+    console.error('Verification status error:', error);
+    res.status(500).json({ error: 'Failed to fetch verification' });
+  }
+});
+
+// Outcomes checked after result position `after`, in the order the numbers were given
+app.get('/verifications/:id/results', async (req, res) => {
+  try {
+    const after = Math.max(parseInt(String(req.query.after || ''), 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || ''), 10) || 500, 1), 1000);
+    const results = await whatsappService.getVerificationResults(req.params.id, after, limit);
+    if (!results) {
+      return res.status(404).json({ error: 'Verification not found' });
+    }
+    res.json({ verificationId: req.params.id, results });
+  } catch (error) {
+    console.error('Verification results error:', error);
+    res.status(500).json({ error: 'Failed to fetch verification results' });
+  }
+});
+
+// Messages received from contacts after feed position `after`, in arrival order
+app.get('/inbound', async (req, res) => {
+  try {
+    const after = Math.max(parseInt(String(req.query.after || ''), 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || ''), 10) || 500, 1), 1000);
+    const messages = await whatsappService.getInbound(after, limit);
+    res.json({ messages });
+  } catch (error) {
+    console.error('Inbound messages error:', error);
+    res.status(500).json({ error: 'Failed to fetch inbound messages' });
+  }
+});
+
+// Parse an uploaded contact list ("csv" field). Encoding, delimiter and header row are detected;
+// rows that cannot become a contact are listed in "errors" with their line number.
+app.post('/upload-csv', upload.single('csv'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No CSV file uploaded' });
+  }
+
+  try {
+    const { contacts, errors, encoding, delimiter, headers } = parseContactsCsv(await fs.promises.readFile(req.file.path));
 
     res.json({ 
       success: true, 
       contacts,
-      count: contacts.length 
+      count: contacts.length,
+      errors,
+      encoding,
+      delimiter,
+      headers
     });
   } catch (error) {
     console.error('CSV upload error:', error);
@@ -122,6 +429,28 @@ app.post('/upload-csv', upload.single('csv'), (req, res) => {
       error: 'Failed to process CSV file',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
+  } finally {
+    fs.promises.unlink(req.file.path).catch(() => undefined);
+  }
+});
+
+// Splits an uploaded CSV into records with the same decoding and delimiter sniffing as /upload-csv,
+// for callers that map the columns themselves (the backend's contact import)
+app.post('/parse-csv', upload.single('csv'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No CSV file uploaded' });
+  }
+
+  try {
+    const { text, encoding } = decodeCsv(await fs.promises.readFile(req.file.path));
+    const delimiter = sniffDelimiter(text);
+    const { records, errors } = parseCsv(text, delimiter);
+    res.json({ encoding, delimiter, records, errors });
+  } catch (error) {
+    console.error('CSV parse error:', error);
+    res.status(500).json({ error: 'Failed to parse CSV file' });
+  } finally {
+    fs.promises.unlink(req.file.path).catch(() => undefined);
   }
 });
 
@@ -0,0 +1,298 @@
+import { TextDecoder } from 'util';
+import { Contact } from './whatsappService';
+import { normalizeVariableName } from './template';
+
+// RFC 4180 parsing of contact lists as spreadsheets export them: any of the common encodings and
+// delimiters, with or without a header row. Rows that cannot become a contact are reported, not fatal.
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvRecord {
+    // 1-based line of the file the record starts on; quoted fields may span lines
+    line: number;
+    fields: string[];
+}
+
+export interface CsvRowError {
+    line: number;
+    message: string;
+}
+
+export interface ParsedContacts {
+    contacts: Contact[];
+    errors: CsvRowError[];
+    encoding: CsvEncoding;
+    delimiter: string;
+    // The first record's cells when it was taken as a header row, else null
+    headers: string[] | null;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+// Records and characters looked at when sniffing the delimiter
+const SNIFF_RECORDS = 20;
+const SNIFF_CHARS = 64 * 1024;
+
+// Normalized header names, in order of preference
+const PHONE_HEADERS = [
+    'phone', 'phone_number', 'number', 'mobile', 'mobile_number', 'mobile_phone', 'cell', 'cell_phone',
+    'whatsapp', 'whatsapp_number', 'telephone', 'tel', 'msisdn'
+];
+const NAME_HEADERS = ['name', 'full_name', 'contact_name', 'display_name', 'contact'];
+const FIRST_NAME_HEADERS = ['first_name', 'firstname', 'given_name'];
+const LAST_NAME_HEADERS = ['last_name', 'lastname', 'surname', 'family_name'];
+const KNOWN_HEADERS = [...PHONE_HEADERS, ...NAME_HEADERS, ...FIRST_NAME_HEADERS, ...LAST_NAME_HEADERS, 'email'];
+
+// E.164 numbers have at most 15 digits; shorter than 7 cannot be dialed anywhere
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+const PHONE_PATTERN = /^\+?[\d\s().\-/]+$/;
+
+// Windows-1252 characters for bytes 0x80-0x9F, where it differs from Latin-1 (unassigned bytes keep their code)
+const WINDOWS_1252_HIGH = [
+    0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+    0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178
+];
+
+// Byte order marks first; then UTF-16 without one (every other byte of ASCII text is zero);
+// then strict UTF-8, falling back to Windows-1252, which is what Excel writes for "CSV" on Windows
+export function decodeCsv(buffer: Buffer): { text: string, encoding: CsvEncoding } {
+    if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        return { text: buffer.subarray(3).toString('utf8'), encoding: 'utf-8' };
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf-16le' };
+    }
+    if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+        return { text: decodeUtf16be(buffer.subarray(2)), encoding: 'utf-16be' };
+    }
+
+    const sample = buffer.subarray(0, 512);
+    const zeros = (offset: number) => sample.filter((byte, i) => i % 2 === offset && byte === 0).length;
+    if (sample.length >= 4) {
+        if (zeros(1) > sample.length / 4 && zeros(0) === 0) {
+            return { text: buffer.toString('utf16le'), encoding: 'utf-16le' };
+        }
+        if (zeros(0) > sample.length / 4 && zeros(1) === 0) {
+            return { text: decodeUtf16be(buffer), encoding: 'utf-16be' };
+        }
+    }
+
+    try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+    } catch (error) {
+        return { text: decodeWindows1252(buffer), encoding: 'windows-1252' };
+    }
+}
+
+function decodeUtf16be(buffer: Buffer): string {
+    const swapped = Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2)));
+    return swapped.swap16().toString('utf16le');
+}
+
+function decodeWindows1252(buffer: Buffer): string {
+    let text = '';
+    for (const byte of buffer) {
+        text += String.fromCharCode(byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte);
+    }
+    return text;
+}
+
+// Splits text into records per RFC 4180: fields may be quoted, quotes inside them are doubled,
+// and quoted fields may contain delimiters and line breaks. Accepts CRLF, LF or CR line endings,
+// skips blank lines, and tolerates stray quotes inside unquoted fields by keeping them as text.
+export function parseCsv(text: string, delimiter: string): { records: CsvRecord[], errors: CsvRowError[] } {
+    const records: CsvRecord[] = [];
+    const errors: CsvRowError[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let wasQuoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endField = () => {
+        fields.push(wasQuoted ? field : field.trim());
+        field = '';
+        wasQuoted = false;
+    };
+    const endRecord = () => {
+        const blank = fields.length === 0 && field.trim() === '' && !wasQuoted;
+        endField();
+        if (!blank) records.push({ line: recordLine, fields });
+        fields = [];
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inQuotes) {
+            if (ch === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else if (ch === '\r' || ch === '\n') {
+                if (ch === '\r' && text[i + 1] === '\n') i++;
+                field += '\n';
+                line++;
+            } else {
+                field += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"' && field.trim() === '' && !wasQuoted) {
+            // Whitespace before the opening quote is not part of the field
+            field = '';
+            inQuotes = true;
+            wasQuoted = true;
+        } else if (ch === delimiter) {
+            endField();
+        } else if (ch === '\r' || ch === '\n') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            endRecord();
+            line++;
+            recordLine = line;
+        } else if (wasQuoted && (ch === ' ' || ch === '\t')) {
+            // Whitespace after the closing quote is dropped too
+        } else {
+            field += ch;
+        }
+    }
+
+    if (inQuotes) {
+        errors.push({ line: recordLine, message: 'Quoted field is never closed; the rest of the file was skipped' });
+    } else {
+        endRecord();
+    }
+    return { records, errors };
+}
+
+// The candidate that splits the most records into the same number of fields (at least two);
+// a single-column file has no delimiter to find and is read as comma-separated
+export function sniffDelimiter(text: string): string {
+    const sample = text.slice(0, SNIFF_CHARS);
+    let best = { delimiter: ',', consistency: 0, fields: 1 };
+
+    for (const delimiter of DELIMITERS) {
+        const counts = parseCsv(sample, delimiter).records.slice(0, SNIFF_RECORDS).map(record => record.fields.length);
+        if (counts.length === 0) continue;
+
+        const frequency = new Map<number, number>();
+        for (const count of counts) {
+            frequency.set(count, (frequency.get(count) || 0) + 1);
+        }
+        const [fields, occurrences] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+        const consistency = occurrences / counts.length;
+        if (fields < 2) continue;
+
+        if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+            best = { delimiter, consistency, fields };
+        }
+    }
+    return best.delimiter;
+}
+
+function phoneDigits(value: string): string {
+    return value.replace(/\D/g, '');
+}
+
+function looksLikePhone(value: string): boolean {
+    const digits = phoneDigits(value);
+    return PHONE_PATTERN.test(value.trim()) && digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS;
+}
+
+// A header names a known column, or has no number where the records below it do
+function isHeader(first: CsvRecord, rest: CsvRecord[]): boolean {
+    if (first.fields.some(cell => KNOWN_HEADERS.includes(normalizeVariableName(cell)))) return true;
+    return !first.fields.some(looksLikePhone) && rest.slice(0, SNIFF_RECORDS).some(record => record.fields.some(looksLikePhone));
+}
+
+// The column most records have a number in
+function phoneColumnByContent(records: CsvRecord[]): number {
+    const sample = records.slice(0, SNIFF_RECORDS);
+    const width = Math.max(0, ...sample.map(record => record.fields.length));
+    let best = { index: 0, hits: 0 };
+    for (let index = 0; index < width; index++) {
+        const hits = sample.filter(record => looksLikePhone(record.fields[index] || '')).length;
+        if (hits > best.hits) best = { index, hits };
+    }
+    return best.index;
+}
+
+function findHeader(names: string[], candidates: string[]): number {
+    for (const candidate of candidates) {
+        const index = names.indexOf(candidate);
+        if (index !== -1) return index;
+    }
+    return -1;
+}
+
+// Decodes and parses an uploaded contact list. With a header row the phone and name columns are
+// found by name and every other column becomes a template variable; without one, the phone column
+// is the one holding numbers and the name is the first other column.
+export function parseContactsCsv(buffer: Buffer): ParsedContacts {
+    const { text, encoding } = decodeCsv(buffer);
+    const delimiter = sniffDelimiter(text);
+    const { records, errors } = parseCsv(text, delimiter);
+
+    const hasHeader = records.length > 0 && isHeader(records[0], records.slice(1));
+    const headers = hasHeader ? records[0].fields : null;
+    const rows = hasHeader ? records.slice(1) : records;
+    const names = (headers || []).map(normalizeVariableName);
+
+    let phoneIndex = findHeader(names, PHONE_HEADERS);
+    if (phoneIndex === -1) phoneIndex = phoneColumnByContent(rows);
+    const firstNameIndex = findHeader(names, FIRST_NAME_HEADERS);
+    const lastNameIndex = findHeader(names, LAST_NAME_HEADERS);
+    let nameIndex = findHeader(names, NAME_HEADERS);
+    if (nameIndex === -1 && firstNameIndex === -1 && lastNameIndex === -1) {
+        nameIndex = phoneIndex === 0 ? 1 : 0;
+    }
+
+    const contacts: Contact[] = [];
+    const seen = new Map<string, number>();
+
+    for (const record of rows) {
+        const cell = (index: number) => (index >= 0 ? record.fields[index] || '' : '').trim();
+        const phone = cell(phoneIndex);
+
+        if (!phone) {
+            errors.push({ line: record.line, message: 'Missing phone number' });
+            continue;
+        }
+        if (!looksLikePhone(phone)) {
+            errors.push({ line: record.line, message: `Invalid phone number "${phone}"` });
+            continue;
+        }
+
+        const digits = phoneDigits(phone);
+        const duplicateOf = seen.get(digits);
+        if (duplicateOf !== undefined) {
+            errors.push({ line: record.line, message: `Duplicate of line ${duplicateOf}` });
+            continue;
+        }
+        seen.set(digits, record.line);
+
+        const name = cell(nameIndex) || [cell(firstNameIndex), cell(lastNameIndex)].filter(Boolean).join(' ');
+        const variables: Record<string, string> = {};
+        names.forEach((key, index) => {
+            if (key && index !== phoneIndex && index !== nameIndex && cell(index)) {
+                variables[key] = cell(index);
+            }
+        });
+
+        // "00" is the international call prefix in most countries
+        const international = phone.startsWith('+') || digits.startsWith('00');
+        contacts.push({
+            phone: international ? `+${digits.replace(/^00/, '')}` : digits,
+            name: name || undefined,
+            variables: Object.keys(variables).length > 0 ? variables : undefined
+        });
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return { contacts, errors, encoding, delimiter, headers };
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface StoredMedia {
+    id: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+    createdAt: string;
+}
+
+export class MediaValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MediaValidationError';
+    }
+}
+
+const MB = 1024 * 1024;
+
+// Upper bound for any upload; also the multer limit in index.ts
+export const MAX_MEDIA_SIZE = 16 * MB;
+
+// Accepted attachment types with their size limits, following WhatsApp's own caps
+const MEDIA_LIMITS: Record<string, number> = {
+    'image/jpeg': 5 * MB,
+    'image/png': 5 * MB,
+    'image/webp': 5 * MB,
+    'application/pdf': MAX_MEDIA_SIZE,
+    'audio/ogg': MAX_MEDIA_SIZE,
+    'audio/mpeg': MAX_MEDIA_SIZE,
+    'audio/mp4': MAX_MEDIA_SIZE,
+    'audio/aac': MAX_MEDIA_SIZE,
+    'video/mp4': MAX_MEDIA_SIZE
+};
+
+export function isVoiceNote(mimetype: string): boolean {
+    return mimetype.startsWith('audio/');
+}
+
+/**
+ * Stores uploaded attachments on disk once, as <id> plus an <id>.json metadata
+ * sidecar, so every recipient of a campaign reuses the same file.
+ */
+export class MediaStore {
+    constructor(private readonly dir: string) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    public validate(mimetype: string, size: number): void {
+        const limit = MEDIA_LIMITS[mimetype];
+        if (!limit) {
+            throw new MediaValidationError(
+                `Unsupported attachment type ${mimetype}. Allowed: ${Object.keys(MEDIA_LIMITS).join(', ')}`
+            );
+        }
+        if (size > limit) {
+            throw new MediaValidationError(
+                `Attachment is ${(size / MB).toFixed(1)}MB; ${mimetype} files are limited to ${limit / MB}MB`
+            );
+        }
+    }
+
+    // Moves an uploaded temp file into the store; the temp file is removed either way
+    public async save(tempPath: string, filename: string, mimetype: string, size: number): Promise<StoredMedia> {
+        try {
+            this.validate(mimetype, size);
+
+            const media: StoredMedia = {
+                id: randomUUID(),
+                filename: path.basename(filename),
+                mimetype,
+                size,
+                createdAt: new Date().toISOString()
+            };
+
+            await fs.promises.copyFile(tempPath, this.filePath(media.id));
+            await fs.promises.writeFile(this.metadataPath(media.id), JSON.stringify(media));
+            return media;
+        } finally {
+            await fs.promises.unlink(tempPath).catch(() => undefined);
+        }
+    }
+
+    public async get(id: string): Promise<StoredMedia | null> {
+        if (!/^[\w-]+$/.test(id)) return null;
+        try {
+            return JSON.parse(await fs.promises.readFile(this.metadataPath(id), 'utf-8'));
+        } catch (error) {
+            return null;
+        }
+    }
+
+    public filePath(id: string): string {
+        return path.join(this.dir, id);
+    }
+
+    private metadataPath(id: string): string {
+        return path.join(this.dir, `${id}.json`);
+    }
+}
@@ -0,0 +1,620 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import sqlite3 from 'sqlite3';
+import { ThrottleSettings } from './throttle';
+
+export type QueueItemState = 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled';
+
+// Paused jobs keep their pending items but the queue skips them; cancelling drops what is still pending
+export type JobState = 'active' | 'paused' | 'cancelled';
+
+export interface QueueItem {
+    id: number;
+    job_id: string | null;
+    media_id: string | null;
+    phone: string;
+    name: string | null;
+    message: string;
+    state: QueueItemState;
+    error: string | null;
+    attempts: number;
+    // Set while a transiently failed item waits for its next attempt
+    next_attempt_at: string | null;
+    // Session the item must be sent from (one-off sends that named one), else any session of the job's pool
+    session_id: string | null;
+    // Session that took the item from the queue
+    sender_id: string | null;
+    sent_at: string | null;
+    // Id WhatsApp assigned to the sent message, matched against message_ack events
+    wa_message_id: string | null;
+    // Latest whatsapp-web.js MessageAck: 1 server, 2 delivered to the device, 3 read, 4 played
+    ack: number;
+    ack_at: string | null;
+    // Position in the receipts feed, advanced on every ack
+    ack_seq: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface JobRecord {
+    id: string;
+    message: string;
+    // JSON-encoded ThrottleSettings, or null for the default pacing
+    throttle: string | null;
+    // JSON array of session ids allowed to send the job's messages, or null for any session
+    senders: string | null;
+    state: JobState;
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    cancelled: number;
+    created_at: string;
+    completed_at: string | null;
+}
+
+const SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS message_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        phone TEXT NOT NULL,
+        name TEXT,
+        message TEXT NOT NULL,
+        state TEXT NOT NULL DEFAULT 'pending',
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_message_queue_state ON message_queue(state, id)',
+    `CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        message TEXT NOT NULL,
+        total INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    // Messages received from contacts, kept until the backend has read them through the inbound feed
+    `CREATE TABLE IF NOT EXISTS inbound_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        wa_message_id TEXT NOT NULL UNIQUE,
+        phone TEXT NOT NULL,
+        name TEXT,
+        body TEXT NOT NULL,
+        type TEXT NOT NULL,
+        quoted_wa_message_id TEXT,
+        received_at TEXT NOT NULL
+    )`,
+    // Copy of the backend's suppression list; numbers as formatted for sending
+    `CREATE TABLE IF NOT EXISTS suppressions (
+        phone TEXT PRIMARY KEY
+    )`,
+    // WhatsApp accounts, each logged in through its own client
+    `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    // Registration checks: numbers looked up on WhatsApp without messaging them
+    `CREATE TABLE IF NOT EXISTS verifications (
+        id TEXT PRIMARY KEY,
+        total INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS verification_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        verification_id TEXT NOT NULL REFERENCES verifications(id),
+        phone TEXT NOT NULL,
+        state TEXT NOT NULL DEFAULT 'pending',
+        registered INTEGER,
+        error TEXT,
+        checked_at TEXT
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_verification_items_state ON verification_items(state, id)',
+    'CREATE INDEX IF NOT EXISTS idx_verification_items_verification ON verification_items(verification_id, id)'
+];
+
+// Columns added after the first release, applied to existing databases on startup
+const COLUMNS: Array<{ table: string, column: string, definition: string }> = [
+    { table: 'message_queue', column: 'job_id', definition: 'TEXT REFERENCES jobs(id)' },
+    { table: 'message_queue', column: 'media_id', definition: 'TEXT' },
+    // ISO timestamp, kept separately from updated_at so hourly and daily caps can count sends
+    { table: 'message_queue', column: 'sent_at', definition: 'TEXT' },
+    { table: 'jobs', column: 'throttle', definition: 'TEXT' },
+    { table: 'jobs', column: 'state', definition: "TEXT NOT NULL DEFAULT 'active'" },
+    { table: 'message_queue', column: 'next_attempt_at', definition: 'TEXT' },
+    { table: 'message_queue', column: 'wa_message_id', definition: 'TEXT' },
+    { table: 'message_queue', column: 'ack', definition: 'INTEGER NOT NULL DEFAULT 0' },
+    // ISO timestamp of the latest ack
+    { table: 'message_queue', column: 'ack_at', definition: 'TEXT' },
+    // Cursor of the receipts feed: a counter rather than ack_at, which acks recorded in the same
+    // millisecond share and a clock change can move backwards
+    { table: 'message_queue', column: 'ack_seq', definition: 'INTEGER' },
+    { table: 'message_queue', column: 'session_id', definition: 'TEXT' },
+    { table: 'message_queue', column: 'sender_id', definition: 'TEXT' },
+    { table: 'jobs', column: 'senders', definition: 'TEXT' },
+    // Session (WhatsApp account) the message was received on
+    { table: 'inbound_messages', column: 'session_id', definition: 'TEXT' }
+];
+
+const INTERRUPTED_ERROR = 'Interrupted mid-send by a restart; it may have been delivered';
+
+// Positional values, or $-prefixed named ones when a statement repeats a value
+type SqlParams = unknown[] | Record<string, unknown>;
+
+export interface SessionRecord {
+    id: string;
+    name: string;
+    created_at: string;
+}
+
+// Items a session may take: those pinned to it or unpinned, of jobs whose pool includes it
+const SESSION_MAY_SEND = `(q.session_id IS NULL OR q.session_id = $session)
+    AND (j.senders IS NULL OR EXISTS (SELECT 1 FROM json_each(j.senders) WHERE value = $session))`;
+
+export interface ReceiptRecord {
+    id: number;
+    job_id: string | null;
+    phone: string;
+    wa_message_id: string;
+    ack: number;
+    ack_at: string;
+    ack_seq: number;
+}
+
+export interface InboundRecord {
+    id: number;
+    wa_message_id: string;
+    phone: string;
+    // The sender's WhatsApp profile name
+    name: string | null;
+    // Text, or the caption of a media message
+    body: string;
+    // whatsapp-web.js MessageTypes value, e.g. 'chat', 'image', 'ptt'
+    type: string;
+    // Id of the message this one replies to, when the sender quoted it
+    quoted_wa_message_id: string | null;
+    session_id: string | null;
+    received_at: string;
+}
+
+export type VerificationItemState = 'pending' | 'checked' | 'failed';
+
+export interface VerificationItem {
+    id: number;
+    verification_id: string;
+    // As given by the caller, so results can be matched back to its contacts
+    phone: string;
+    state: VerificationItemState;
+    // 1 or 0 once checked
+    registered: number | null;
+    error: string | null;
+    checked_at: string | null;
+}
+
+export interface VerificationRecord {
+    id: string;
+    total: number;
+    pending: number;
+    registered: number;
+    unregistered: number;
+    failed: number;
+    created_at: string;
+    completed_at: string | null;
+}
+
+export interface NewQueueItem {
+    phone: string;
+    name?: string;
+    message: string;
+    jobId?: string;
+    mediaId?: string;
+    sessionId?: string;
+}
+
+/**
+ * SQLite-backed store for the outgoing message queue, so pending sends
+ * survive a container restart.
+ */
+export class QueueStore {
+    private db: sqlite3.Database | null = null;
+
+    constructor(private readonly dbPath: string) {}
+
+    public async initialize(): Promise<void> {
+        fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+
+        this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+            const connection = new sqlite3.Database(this.dbPath, (err) => {
+                if (err) reject(err);
+                else resolve(connection);
+            });
+        });
+
+        for (const statement of SCHEMA) {
+            await this.run(statement);
+        }
+        for (const { table, column, definition } of COLUMNS) {
+            await this.ensureColumn(table, column, definition);
+        }
+        await this.run('CREATE INDEX IF NOT EXISTS idx_message_queue_job ON message_queue(job_id, id)');
+        await this.run('CREATE INDEX IF NOT EXISTS idx_message_queue_wa_message ON message_queue(wa_message_id)');
+        // Acks recorded before the feed had a counter are given one; readers start the feed over once
+        await this.run('UPDATE message_queue SET ack_seq = id WHERE ack_seq IS NULL AND ack_at IS NOT NULL');
+        await this.run('CREATE INDEX IF NOT EXISTS idx_message_queue_ack_seq ON message_queue(ack_seq)');
+
+        // An item still marked processing was interrupted mid-send, and WhatsApp may have accepted it
+        // before the shutdown. Sending it again could message the contact twice, so it is failed
+        // instead and a retry of its job decides whether it goes out again.
+        const { changes } = await this.run(
+            `UPDATE message_queue SET state = 'failed', error = ?, next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE state = 'processing'`,
+            [INTERRUPTED_ERROR]
+        );
+        if (changes > 0) {
+            console.log(`Failed ${changes} message(s) interrupted mid-send by the last shutdown`);
+        }
+    }
+
+    public async enqueue(item: NewQueueItem): Promise<number> {
+        const { lastID } = await this.run(
+            'INSERT INTO message_queue (phone, name, message, job_id, media_id, session_id) VALUES (?, ?, ?, ?, ?, ?)',
+            [item.phone, item.name || null, item.message, item.jobId || null, item.mediaId || null, item.sessionId || null]
+        );
+        return lastID;
+    }
+
+    // Stores the job with all of its items or, on any error, nothing, so a job never runs with part of its recipients
+    public async createJob(
+        message: string,
+        throttle: ThrottleSettings,
+        senders: string[] | null,
+        items: Array<Omit<NewQueueItem, 'jobId' | 'sessionId'>>,
+        id: string = randomUUID()
+    ): Promise<string> {
+        await this.run('BEGIN');
+        try {
+            await this.run(
+                'INSERT INTO jobs (id, message, total, throttle, senders) VALUES (?, ?, ?, ?, ?)',
+                [id, message, items.length, JSON.stringify(throttle), senders ? JSON.stringify(senders) : null]
+            );
+            for (const item of items) {
+                await this.run(
+                    'INSERT INTO message_queue (phone, name, message, job_id, media_id) VALUES (?, ?, ?, ?, ?)',
+                    [item.phone, item.name || null, item.message, id, item.mediaId || null]
+                );
+            }
+            await this.run('COMMIT');
+        } catch (error) {
+            await this.run('ROLLBACK');
+            throw error;
+        }
+        return id;
+    }
+
+    // Counters are derived from the job's queue items; completed_at is the last update once nothing is pending
+    public getJob(id: string): Promise<JobRecord | undefined> {
+        return this.getRow<JobRecord>(
+            `SELECT j.id, j.message, j.total, j.throttle, j.senders, j.state, j.created_at,
+                    COUNT(CASE WHEN q.state IN ('pending', 'processing') THEN 1 END) as pending,
+                    COUNT(CASE WHEN q.state = 'sent' THEN 1 END) as sent,
+                    COUNT(CASE WHEN q.state = 'failed' THEN 1 END) as failed,
+                    COUNT(CASE WHEN q.state = 'cancelled' THEN 1 END) as cancelled,
+                    CASE WHEN COUNT(CASE WHEN q.state IN ('pending', 'processing') THEN 1 END) = 0
+                         THEN MAX(q.updated_at) END as completed_at
+             FROM jobs j
+             LEFT JOIN message_queue q ON q.job_id = j.id
+             WHERE j.id = ?
+             GROUP BY j.id`,
+            [id]
+        );
+    }
+
+    public async setJobState(id: string, state: JobState): Promise<void> {
+        await this.run('UPDATE jobs SET state = ? WHERE id = ?', [state, id]);
+    }
+
+    // Drops the job's unsent items; an item mid-send is left to finish
+    public async cancelPendingItems(jobId: string): Promise<number> {
+        const { changes } = await this.run(
+            `UPDATE message_queue SET state = 'cancelled', updated_at = CURRENT_TIMESTAMP
+             WHERE job_id = ? AND state = 'pending'`,
+            [jobId]
+        );
+        return changes;
+    }
+
+    public listJobItems(jobId: string): Promise<QueueItem[]> {
+        return this.allRows<QueueItem>('SELECT * FROM message_queue WHERE job_id = ? ORDER BY id', [jobId]);
+    }
+
+    public get(id: number): Promise<QueueItem | undefined> {
+        return this.getRow<QueueItem>('SELECT * FROM message_queue WHERE id = ?', [id]);
+    }
+
+    // Active jobs with pending items the session may send, oldest first; a null job_id groups the one-off sends.
+    // ready_at is '' when some item has no retry pending, else the earliest next_attempt_at.
+    public pendingJobs(sessionId: string): Promise<Array<{ job_id: string | null, throttle: string | null, ready_at: string }>> {
+        return this.allRows(
+            `SELECT q.job_id, j.throttle, MIN(COALESCE(q.next_attempt_at, '')) as ready_at
+             FROM message_queue q
+             LEFT JOIN jobs j ON j.id = q.job_id
+             WHERE q.state = 'pending' AND (j.state IS NULL OR j.state = 'active') AND ${SESSION_MAY_SEND}
+             GROUP BY q.job_id
+             ORDER BY MIN(q.id)`,
+            { $session: sessionId }
+        );
+    }
+
+    // Re-checks the job state so a pause that lands while the queue is choosing is still honoured;
+    // items waiting for a retry are skipped until their time comes
+    public nextPending(jobId: string | null, sessionId: string): Promise<QueueItem | undefined> {
+        return this.getRow<QueueItem>(
+            `SELECT q.*
+             FROM message_queue q
+             LEFT JOIN jobs j ON j.id = q.job_id
+             WHERE q.state = 'pending' AND q.job_id IS $job AND (j.state IS NULL OR j.state = 'active')
+               AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= $now) AND ${SESSION_MAY_SEND}
+             ORDER BY q.id LIMIT 1`,
+            { $job: jobId, $now: new Date().toISOString(), $session: sessionId }
+        );
+    }
+
+    // Send times (ms) of the job's messages sent by any session after `since`, ascending. Items
+    // another session is sending right now count as sent now, so sessions can't overshoot the caps together.
+    public async recentSends(jobId: string | null, since: Date): Promise<number[]> {
+        const rows = await this.allRows<{ sent_at: string }>(
+            `SELECT COALESCE(sent_at, $now) as sent_at FROM message_queue
+             WHERE job_id IS $job AND (sent_at > $since OR state = 'processing')
+             ORDER BY 1`,
+            { $job: jobId, $since: since.toISOString(), $now: new Date().toISOString() }
+        );
+        return rows.map(row => Date.parse(row.sent_at));
+    }
+
+    // Items the queue will still send, optionally only those the session may take; paused jobs are not counted
+    public async countPending(sessionId?: string): Promise<number> {
+        const row = await this.getRow<{ count: number }>(
+            `SELECT COUNT(*) as count
+             FROM message_queue q
+             LEFT JOIN jobs j ON j.id = q.job_id
+             WHERE q.state IN ('pending', 'processing') AND (j.state IS NULL OR j.state = 'active')
+               ${sessionId ? `AND ${SESSION_MAY_SEND}` : ''}`,
+            sessionId ? { $session: sessionId } : []
+        );
+        return row?.count || 0;
+    }
+
+    // Takes the item for the session; false when another session got to it first
+    public async claim(id: number, sessionId: string): Promise<boolean> {
+        const { changes } = await this.run(
+            `UPDATE message_queue SET state = 'processing', sender_id = ?, attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ? AND state = 'pending'`,
+            [sessionId, id]
+        );
+        return changes > 0;
+    }
+
+    // Fails the unsent items no remaining session may send: those pinned to a removed session,
+    // and those of jobs whose senders have all been removed
+    public async failOrphanedItems(error: string): Promise<number[]> {
+        const orphaned = `state = 'pending' AND (
+            (session_id IS NOT NULL AND session_id NOT IN (SELECT id FROM sessions))
+            OR job_id IN (
+                SELECT j.id FROM jobs j
+                WHERE j.senders IS NOT NULL AND NOT EXISTS (
+                    SELECT 1 FROM json_each(j.senders) s JOIN sessions ON sessions.id = s.value
+                )
+            )
+        )`;
+        const rows = await this.allRows<{ id: number }>(`SELECT id FROM message_queue WHERE ${orphaned}`);
+        await this.run(
+            `UPDATE message_queue SET state = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP WHERE ${orphaned}`,
+            [error]
+        );
+        return rows.map(row => row.id);
+    }
+
+    public listSessions(): Promise<SessionRecord[]> {
+        return this.allRows<SessionRecord>('SELECT * FROM sessions ORDER BY rowid');
+    }
+
+    public async createSession(id: string, name: string): Promise<void> {
+        await this.run('INSERT INTO sessions (id, name) VALUES (?, ?)', [id, name]);
+    }
+
+    public async deleteSession(id: string): Promise<void> {
+        await this.run('DELETE FROM sessions WHERE id = ?', [id]);
+    }
+
+    public async markSent(id: number, waMessageId: string | null): Promise<void> {
+        const now = new Date().toISOString();
+        await this.run(
+            `UPDATE message_queue SET state = 'sent', error = NULL, next_attempt_at = NULL, sent_at = ?,
+             wa_message_id = ?, ack = MAX(ack, 1), ack_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+            [now, waMessageId, now, id]
+        );
+    }
+
+    // Acks can arrive out of order, so a message only ever moves forward; returns whether it matched
+    public async recordAck(waMessageId: string, ack: number): Promise<boolean> {
+        const { changes } = await this.run(
+            `UPDATE message_queue SET ack = ?, ack_at = ?, ack_seq = (SELECT COALESCE(MAX(ack_seq), 0) + 1 FROM message_queue)
+             WHERE wa_message_id = ? AND ack < ?`,
+            [ack, new Date().toISOString(), waMessageId, ack]
+        );
+        return changes > 0;
+    }
+
+    // Messages that reached the recipient's device or beyond, acknowledged after feed position `afterSeq`, oldest first
+    public listReceipts(afterSeq: number, limit: number): Promise<ReceiptRecord[]> {
+        return this.allRows<ReceiptRecord>(
+            `SELECT id, job_id, phone, wa_message_id, ack, ack_at, ack_seq
+             FROM message_queue
+             WHERE ack >= 2 AND wa_message_id IS NOT NULL AND ack_seq > ?
+             ORDER BY ack_seq LIMIT ?`,
+            [afterSeq, limit]
+        );
+    }
+
+    public async markFailed(id: number, error: string): Promise<void> {
+        await this.run(
+            "UPDATE message_queue SET state = 'failed', error = ?, next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+            [error, id]
+        );
+    }
+
+    // Puts a transiently failed item back in the queue, not to be taken before `nextAttemptAt`
+    public async markRetry(id: number, error: string, nextAttemptAt: Date): Promise<void> {
+        await this.run(
+            "UPDATE message_queue SET state = 'pending', error = ?, next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+            [error, nextAttemptAt.toISOString(), id]
+        );
+    }
+
+    public async requeueFailed(jobId: string): Promise<number> {
+        const { changes } = await this.run(
+            `UPDATE message_queue SET state = 'pending', error = NULL, attempts = 0, next_attempt_at = NULL,
+             updated_at = CURRENT_TIMESTAMP WHERE job_id = ? AND state = 'failed'`,
+            [jobId]
+        );
+        return changes;
+    }
+
+    // Ignores a message already stored, as WhatsApp may deliver it again after a reconnect
+    public async saveInbound(message: Omit<InboundRecord, 'id'>): Promise<void> {
+        await this.run(
+            `INSERT OR IGNORE INTO inbound_messages
+             (wa_message_id, phone, name, body, type, quoted_wa_message_id, session_id, received_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [message.wa_message_id, message.phone, message.name, message.body, message.type,
+                message.quoted_wa_message_id, message.session_id, message.received_at]
+        );
+    }
+
+    public listInbound(afterId: number, limit: number): Promise<InboundRecord[]> {
+        return this.allRows<InboundRecord>(
+            'SELECT * FROM inbound_messages WHERE id > ? ORDER BY id LIMIT ?',
+            [afterId, limit]
+        );
+    }
+
+    public async isSuppressed(phone: string): Promise<boolean> {
+        return !!(await this.getRow('SELECT 1 FROM suppressions WHERE phone = ?', [phone]));
+    }
+
+    public async replaceSuppressions(phones: string[]): Promise<void> {
+        await this.run('BEGIN');
+        try {
+            await this.run('DELETE FROM suppressions');
+            for (const phone of phones) {
+                await this.run('INSERT OR IGNORE INTO suppressions (phone) VALUES (?)', [phone]);
+            }
+            await this.run('COMMIT');
+        } catch (error) {
+            await this.run('ROLLBACK');
+            throw error;
+        }
+    }
+
+    public async createVerification(phones: string[]): Promise<string> {
+        const id = randomUUID();
+        await this.run('BEGIN');
+        try {
+            await this.run('INSERT INTO verifications (id, total) VALUES (?, ?)', [id, phones.length]);
+            for (const phone of phones) {
+                await this.run('INSERT INTO verification_items (verification_id, phone) VALUES (?, ?)', [id, phone]);
+            }
+            await this.run('COMMIT');
+        } catch (error) {
+            await this.run('ROLLBACK');
+            throw error;
+        }
+        return id;
+    }
+
+    // Counters are derived from the items; completed_at is the last check once nothing is pending
+    public getVerification(id: string): Promise<VerificationRecord | undefined> {
+        return this.getRow<VerificationRecord>(
+            `SELECT v.id, v.total, v.created_at,
+                    COUNT(CASE WHEN i.state = 'pending' THEN 1 END) as pending,
+                    COUNT(CASE WHEN i.registered = 1 THEN 1 END) as registered,
+                    COUNT(CASE WHEN i.registered = 0 THEN 1 END) as unregistered,
+                    COUNT(CASE WHEN i.state = 'failed' THEN 1 END) as failed,
+                    CASE WHEN COUNT(CASE WHEN i.state = 'pending' THEN 1 END) = 0
+                         THEN MAX(i.checked_at) END as completed_at
+             FROM verifications v
+             LEFT JOIN verification_items i ON i.verification_id = v.id
+             WHERE v.id = ?
+             GROUP BY v.id`,
+            [id]
+        );
+    }
+
+    // The oldest unchecked numbers across every verification
+    public nextVerificationBatch(limit: number): Promise<VerificationItem[]> {
+        return this.allRows<VerificationItem>(
+            "SELECT * FROM verification_items WHERE state = 'pending' ORDER BY id LIMIT ?",
+            [limit]
+        );
+    }
+
+    // registered is null when the lookup itself failed, with the reason in error
+    public async recordVerification(id: number, registered: boolean | null, error: string | null = null): Promise<void> {
+        await this.run(
+            'UPDATE verification_items SET state = ?, registered = ?, error = ?, checked_at = ? WHERE id = ?',
+            [registered === null ? 'failed' : 'checked', registered === null ? null : Number(registered), error,
+                new Date().toISOString(), id]
+        );
+    }
+
+    // Finished items of the verification after item `afterId`, in the order they were queued
+    public listVerificationResults(verificationId: string, afterId: number, limit: number): Promise<VerificationItem[]> {
+        return this.allRows<VerificationItem>(
+            `SELECT * FROM verification_items
+             WHERE verification_id = ? AND state != 'pending' AND id > ?
+             ORDER BY id LIMIT ?`,
+            [verificationId, afterId, limit]
+        );
+    }
+
+    private getDb(): sqlite3.Database {
+        if (!this.db) {
+            throw new Error('Queue store not initialized');
+        }
+        return this.db;
+    }
+
+    private run(sql: string, params: SqlParams = []): Promise<{ lastID: number, changes: number }> {
+        return new Promise((resolve, reject) => {
+            this.getDb().run(sql, params, function (err) {
+                if (err) reject(err);
+                else resolve({ lastID: this.lastID, changes: this.changes });
+            });
+        });
+    }
+
+    private allRows<T>(sql: string, params: SqlParams = []): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            this.getDb().all(sql, params, (err, rows) => {
+                if (err) reject(err);
+                else resolve((rows || []) as T[]);
+            });
+        });
+    }
+
+    private async ensureColumn(table: string, column: string, definition: string): Promise<void> {
+        const columns = await this.allRows<{ name: string }>(`PRAGMA table_info(${table})`);
+        if (!columns.some(c => c.name === column)) {
+            await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+    }
+
+    private getRow<T>(sql: string, params: SqlParams = []): Promise<T | undefined> {
+        return new Promise((resolve, reject) => {
+            this.getDb().get(sql, params, (err, row) => {
+                if (err) reject(err);
+                else resolve(row as T | undefined);
+            });
+        });
+    }
+}
@@ -0,0 +1,21 @@
+// Failures that will not go away by trying again, e.g. the number has no WhatsApp account
+export class PermanentSendError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermanentSendError';
+    }
+}
+
+// Attempts per message, including the first; anything else (client not ready, timeouts,
+// disconnects, browser errors) is treated as transient and retried with exponential backoff
+const MAX_SEND_ATTEMPTS = Math.max(1, parseInt(process.env.MAX_SEND_ATTEMPTS || '3', 10));
+const RETRY_BASE_DELAY_MS = parseInt(process.env.RETRY_BASE_DELAY_MS || '30000', 10);
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// When a message that failed on its `attempts`-th try should be tried again, or null to give up
+export function nextRetryAt(error: unknown, attempts: number, now = Date.now()): number | null {
+    if (error instanceof PermanentSendError || attempts >= MAX_SEND_ATTEMPTS) {
+        return null;
+    }
+    return now + Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
@@ -0,0 +1,79 @@
+import { Client, LocalAuth } from 'whatsapp-web.js';
+
+// The account that existed before sessions were named; it keeps the original login directory
+export const DEFAULT_SESSION_ID = 'default';
+
+const SESSION_DATA_PATH = '/app/session';
+// LocalAuth only accepts letters, digits, underscores and hyphens in a client id
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const MAX_NAME_LENGTH = 64;
+
+export class SessionError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'SessionError';
+    }
+}
+
+// One WhatsApp account: its client, login state and its own run of the message queue
+export interface Session {
+    id: string;
+    name: string;
+    client: Client;
+    isReady: boolean;
+    qrCode: string | null;
+    isProcessing: boolean;
+    // Items this session may still send
+    queueLength: number;
+    // Earliest next send per job (keyed by job id, '' for one-off sends), set from the job's delay after each send
+    nextSendAt: Map<string, number>;
+    // Resolves the session's current throttle sleep early when new work arrives
+    wakeQueue: (() => void) | null;
+    // Acks that arrived before the send they belong to was recorded; cleared after every send
+    earlyAcks: Map<string, number>;
+}
+
+export interface SessionStatus {
+    id: string;
+    name: string;
+    isReady: boolean;
+    hasQRCode: boolean;
+    queueLength: number;
+}
+
+export function parseNewSession(input: unknown): { id: string, name: string } {
+    const { id, name } = (input || {}) as { id?: unknown, name?: unknown };
+    if (typeof id !== 'string' || !SESSION_ID_PATTERN.test(id)) {
+        throw new SessionError('id must be 1-32 letters, digits, underscores or hyphens', 400);
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > MAX_NAME_LENGTH)) {
+        throw new SessionError(`name must be a string of at most ${MAX_NAME_LENGTH} characters`, 400);
+    }
+    return { id, name: (name as string | undefined)?.trim() || id };
+}
+
+export function createClient(sessionId: string): Client {
+    return new Client({
+        authStrategy: new LocalAuth({
+            clientId: sessionId === DEFAULT_SESSION_ID ? undefined : sessionId,
+            dataPath: SESSION_DATA_PATH
+        }),
+        puppeteer: {
+            headless: true,
+            args: [
+                '--no-sandbox',
+                '--disable-setuid-sandbox',
+                '--disable-dev-shm-usage',
+                '--disable-accelerated-2d-canvas',
+                '--no-first-run',
+                '--no-zygote',
+                '--single-process',
+                '--disable-gpu',
+                '--disable-extensions',
+                '--disable-background-timer-throttling',
+                '--disable-backgrounding-occluded-windows',
+                '--disable-renderer-backgrounding'
+            ]
+        }
+    });
+}
@@ -0,0 +1,42 @@
+import { Contact } from './whatsappService';
+
+// Per-contact message templates: {{name}}, {{first_name|there}} (text after | is the fallback)
+
+export type TemplateVariables = Record<string, string | number | boolean | null | undefined>;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+// "First Name", "first-name" and "FIRST_NAME" all resolve to first_name
+export function normalizeVariableName(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+    const lookup: TemplateVariables = {};
+    for (const [key, value] of Object.entries(variables)) {
+        lookup[normalizeVariableName(key)] = value;
+    }
+
+    return template.replace(PLACEHOLDER, (_match, key: string, fallback: string | undefined) => {
+        const value = lookup[normalizeVariableName(key)];
+        if (value !== undefined && value !== null && String(value).trim() !== '') {
+            return String(value);
+        }
+        return fallback !== undefined ? fallback.trim() : '';
+    });
+}
+
+// Extra fields on the contact (e.g. CSV columns) may override the derived first/last name
+// but not the core name and phone.
+export function contactVariables(contact: Contact): TemplateVariables {
+    const fullName = (contact.name || '').trim();
+    const [firstName = '', ...rest] = fullName.split(/\s+/);
+
+    return {
+        first_name: firstName,
+        last_name: rest.join(' '),
+        ...(contact.variables || {}),
+        name: fullName,
+        phone: contact.phone
+    };
+}
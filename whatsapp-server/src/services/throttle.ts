@@ -0,0 +1,186 @@
+export interface AllowedHours {
+    // Local hour of day, 0-23; start is inclusive and end exclusive, and start > end wraps past midnight
+    start: number;
+    end: number;
+}
+
+export interface ThrottleSettings {
+    minDelayMs: number;
+    maxDelayMs: number;
+    hourlyLimit: number | null;
+    dailyLimit: number | null;
+    allowedHours: AllowedHours | null;
+    timezone: string;
+}
+
+export class ThrottleValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ThrottleValidationError';
+    }
+}
+
+export interface CompletionEstimate {
+    total: number;
+    startsAt: string;
+    completesAt: string;
+    durationMs: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Rough time spent per message (registration check plus send), on top of the delay
+const SEND_DURATION_MS = 1000;
+// Largest job estimateCompletion simulates; it steps through every message synchronously
+export const MAX_ESTIMATE_TOTAL = 50000;
+
+// The pacing the queue always used: 2-5 seconds between messages, no caps, any time of day
+export const DEFAULT_THROTTLE: ThrottleSettings = {
+    minDelayMs: 2000,
+    maxDelayMs: 5000,
+    hourlyLimit: null,
+    dailyLimit: null,
+    allowedHours: null,
+    timezone: 'UTC'
+};
+
+function optionalLimit(value: unknown, field: string): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new ThrottleValidationError(`${field} must be a positive whole number`);
+    }
+    return limit;
+}
+
+function hourOfDay(value: unknown, field: string): number {
+    const hour = Number(value);
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+        throw new ThrottleValidationError(`${field} must be an hour between 0 and 23`);
+    }
+    return hour;
+}
+
+// Validates user-supplied settings, filling anything omitted from the defaults
+export function parseThrottle(input: unknown): ThrottleSettings {
+    if (input === undefined || input === null) return { ...DEFAULT_THROTTLE };
+    if (typeof input !== 'object') {
+        throw new ThrottleValidationError('throttle must be an object');
+    }
+
+    const raw = input as Record<string, unknown>;
+    const minDelayMs = Number(raw.minDelayMs ?? DEFAULT_THROTTLE.minDelayMs);
+    const maxDelayMs = Number(raw.maxDelayMs ?? Math.max(minDelayMs, DEFAULT_THROTTLE.maxDelayMs));
+    if (!Number.isFinite(minDelayMs) || minDelayMs < 0 || !Number.isFinite(maxDelayMs) || maxDelayMs < minDelayMs) {
+        throw new ThrottleValidationError('minDelayMs and maxDelayMs must be non-negative with minDelayMs <= maxDelayMs');
+    }
+
+    let allowedHours: AllowedHours | null = null;
+    if (raw.allowedHours) {
+        const hours = raw.allowedHours as Record<string, unknown>;
+        allowedHours = {
+            start: hourOfDay(hours.start, 'allowedHours.start'),
+            end: hourOfDay(hours.end, 'allowedHours.end')
+        };
+        if (allowedHours.start === allowedHours.end) {
+            allowedHours = null;
+        }
+    }
+
+    const timezone = raw.timezone ? String(raw.timezone) : DEFAULT_THROTTLE.timezone;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch (error) {
+        throw new ThrottleValidationError(`Unknown timezone ${timezone}`);
+    }
+
+    return {
+        minDelayMs,
+        maxDelayMs,
+        hourlyLimit: optionalLimit(raw.hourlyLimit, 'hourlyLimit'),
+        dailyLimit: optionalLimit(raw.dailyLimit, 'dailyLimit'),
+        allowedHours,
+        timezone
+    };
+}
+
+export function randomDelay(settings: ThrottleSettings): number {
+    return settings.minDelayMs + Math.random() * (settings.maxDelayMs - settings.minDelayMs);
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTime(time: number, timezone: string): { hour: number, minute: number, second: number } {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric'
+        });
+        formatters.set(timezone, formatter);
+    }
+
+    const parts: Record<string, number> = {};
+    for (const part of formatter.formatToParts(new Date(time))) {
+        parts[part.type] = Number(part.value);
+    }
+    return { hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+// The first moment at or after `time` that falls inside the allowed hours.
+// Across a DST change this can be an hour off; the queue re-checks when it wakes.
+export function windowOpensAt(settings: ThrottleSettings, time: number): number {
+    const window = settings.allowedHours;
+    if (!window) return time;
+
+    const { hour, minute, second } = localTime(time, settings.timezone);
+    const inside = window.start < window.end
+        ? hour >= window.start && hour < window.end
+        : hour >= window.start || hour < window.end;
+    if (inside) return time;
+
+    const hoursUntilStart = (window.start - hour + 24) % 24;
+    return time + hoursUntilStart * HOUR - (minute * 60 + second) * 1000;
+}
+
+// The earliest time at or after `time` another message may go out, given earlier send times in
+// ascending order: with N sends allowed per period, the Nth most recent send must have aged out
+export function capsReleaseAt(settings: ThrottleSettings, sends: number[], time: number): number {
+    let release = time;
+
+    const caps: Array<[number | null, number]> = [[settings.hourlyLimit, HOUR], [settings.dailyLimit, DAY]];
+    for (const [limit, period] of caps) {
+        if (limit && sends.length >= limit) {
+            release = Math.max(release, sends[sends.length - limit] + period);
+        }
+    }
+    return release;
+}
+
+// Simulates the queue sending `total` messages from `start` at the average delay. Each of the
+// `senders` sessions waits out the delay on its own, while the caps count the job's sends from all of them.
+export function estimateCompletion(settings: ThrottleSettings, total: number, start = Date.now(), senders = 1): CompletionEstimate {
+    const averageDelay = (settings.minDelayMs + settings.maxDelayMs) / 2;
+    const freeAt: number[] = Array(Math.max(1, senders)).fill(start);
+    const sends: number[] = [];
+
+    for (let i = 0; i < total; i++) {
+        const sender = freeAt.indexOf(Math.min(...freeAt));
+        const at = windowOpensAt(settings, capsReleaseAt(settings, sends, freeAt[sender]));
+        sends.push(at);
+        freeAt[sender] = at + SEND_DURATION_MS + averageDelay;
+    }
+
+    const startsAt = sends.length > 0 ? sends[0] : start;
+    const completesAt = sends.length > 0 ? sends[sends.length - 1] + SEND_DURATION_MS : start;
+    return {
+        total,
+        startsAt: new Date(startsAt).toISOString(),
+        completesAt: new Date(completesAt).toISOString(),
+        durationMs: completesAt - start
+    };
+}
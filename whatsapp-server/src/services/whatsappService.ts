@@ -1,145 +1,549 @@
-import { Client, LocalAuth, MessageMedia } from 'whatsapp-web.js';
+import { Message, MessageMedia } from 'whatsapp-web.js';
 import QRCode from 'qrcode';
+import path from 'path';
+import {
+    InboundRecord,
+    JobRecord,
+    QueueItem,
+    QueueStore,
+    ReceiptRecord,
+    VerificationItem,
+    VerificationRecord
+} from './queueStore';
+import { isVoiceNote, MediaStore, MediaValidationError, StoredMedia } from './mediaStore';
+import { contactVariables, renderTemplate } from './template';
+import { nextRetryAt, PermanentSendError } from './retryPolicy';
+import {
+    capsReleaseAt,
+    CompletionEstimate,
+    DEFAULT_THROTTLE,
+    estimateCompletion,
+    parseThrottle,
+    randomDelay,
+    ThrottleSettings,
+    windowOpensAt
+} from './throttle';
+import { createClient, DEFAULT_SESSION_ID, Session, SessionError, SessionStatus } from './session';
 
 export interface Contact {
     phone: string;
     name?: string;
+    // Additional template variables for this contact, e.g. extra CSV columns
+    variables?: Record<string, string>;
+    // Text already rendered for this contact; used as-is instead of the job's template
+    message?: string;
 }
 
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'played';
+
 export interface MessageStatus {
     phone: string;
-    status: 'pending' | 'sent' | 'delivered' | 'failed';
+    status: 'pending' | DeliveryStatus | 'failed' | 'cancelled';
+    // WhatsApp's id for the sent message; for a voice note followed by text, the voice note's
+    messageId?: string;
+    // Session that sent (or last tried to send) the message
+    senderId?: string;
     error?: string;
     timestamp: Date;
 }
 
+export interface Receipt {
+    // Position in the receipts feed; pass the last one seen as `after` to continue
+    seq: number;
+    messageId: string;
+    jobId: string | null;
+    phone: string;
+    status: Exclude<DeliveryStatus, 'sent'>;
+    // When the receipt was recorded
+    timestamp: string;
+}
+
+export interface InboundMessage {
+    // Position in the inbound feed; pass the last one seen as `after` to continue
+    id: number;
+    messageId: string;
+    phone: string;
+    name: string | null;
+    body: string;
+    type: string;
+    quotedMessageId: string | null;
+    // Session (WhatsApp account) the message was received on
+    sessionId: string | null;
+    receivedAt: string;
+}
+
+export interface BulkJob {
+    id: string;
+    status: 'queued' | 'running' | 'paused' | 'completed' | 'cancelled';
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    cancelled: number;
+    throttle: ThrottleSettings;
+    // Sessions sharing the job's messages, or null for every session
+    senders: string[] | null;
+    createdAt: string;
+    completedAt: string | null;
+}
+
+// A registration check of a list of numbers, worked through in the background
+export interface Verification {
+    id: string;
+    status: 'running' | 'completed';
+    total: number;
+    pending: number;
+    registered: number;
+    unregistered: number;
+    // Numbers whose lookup failed; they were not found to be unregistered
+    failed: number;
+    createdAt: string;
+    completedAt: string | null;
+}
+
+export interface VerificationResult {
+    // Position in the verification's results; pass the last one seen as `after` to continue
+    id: number;
+    phone: string;
+    // null when the lookup failed
+    registered: boolean | null;
+    error?: string;
+    checkedAt: string;
+}
+
+export class JobStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JobStateError';
+    }
+}
+
+interface QueueWaiter {
+    resolve: (status: MessageStatus) => void;
+    reject: (status: MessageStatus) => void;
+}
+
+const QUEUE_DB_PATH = process.env.QUEUE_DB_PATH || path.join(process.cwd(), 'data', 'queue.sqlite');
+const MEDIA_DIR = process.env.MEDIA_DIR || path.join(process.cwd(), 'data', 'media');
+
+// Longest the queue sleeps before re-checking throttle state, e.g. across a DST change
+const MAX_QUEUE_SLEEP_MS = 60000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Pause before choosing again when the chosen job had no item this session could take
+const QUEUE_MISS_BACKOFF_MS = 1000;
+
+// Registration lookups go out in batches, spaced so checking a large list does not trip WhatsApp's rate limits
+const VERIFY_BATCH_SIZE = 25;
+const VERIFY_CHECK_DELAY_MS = 300;
+const VERIFY_BATCH_PAUSE_MS = 5000;
+
+// whatsapp-web.js MessageAck values from ACK_SERVER up
+const DELIVERY_STATUSES: Record<number, DeliveryStatus> = { 1: 'sent', 2: 'delivered', 3: 'read', 4: 'played' };
+
+function deliveryStatus(ack: number): DeliveryStatus {
+    return DELIVERY_STATUSES[Math.min(Math.max(ack, 1), 4)];
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 class WhatsAppService {
-    private client: Client | null = null;
-    private isReady = false;
-    private qrCode: string | null = null;
-    private messageQueue: Array<{contact: Contact, message: string, resolve: Function, reject: Function}> = [];
-    private isProcessing = false;
+    private sessions = new Map<string, Session>();
+    private queueStore = new QueueStore(QUEUE_DB_PATH);
+    private queueReady: Promise<void>;
+    // Callers awaiting a queued item in this process; items restored after a restart have none
+    private waiters = new Map<number, QueueWaiter>();
+    private queueLength = 0;
+    private mediaStore = new MediaStore(MEDIA_DIR);
+    // Attachments are read from disk once and reused for every recipient
+    private mediaCache = new Map<string, MessageMedia>();
+    private isVerifying = false;
 
     constructor() {
-        this.initializeClient();
-    }
-
-    private initializeClient() {
-        this.client = new Client({
-            authStrategy: new LocalAuth({
-                dataPath: '/app/session'
-            }),
-            puppeteer: {
-                headless: true,
-                args: [
-                    '--no-sandbox',
-                    '--disable-setuid-sandbox',
-                    '--disable-dev-shm-usage',
-                    '--disable-accelerated-2d-canvas',
-                    '--no-first-run',
-                    '--no-zygote',
-                    '--single-process',
-                    '--disable-gpu',
-                    '--disable-extensions',
-                    '--disable-background-timer-throttling',
-                    '--disable-backgrounding-occluded-windows',
-                    '--disable-renderer-backgrounding'
-                ]
-            }
-        });
+        this.queueReady = this.queueStore.initialize()
+            .then(() => this.startSessions())
+            .then(() => this.refreshQueueLength())
+            .catch(error => {
+                console.error('Failed to initialize message queue:', error);
+                throw error;
+            });
+    }
+
+    // Starts a client per stored session, creating the default one on first run
+    private async startSessions() {
+        let records = await this.queueStore.listSessions();
+        if (records.length === 0) {
+            await this.queueStore.createSession(DEFAULT_SESSION_ID, 'Default');
+            records = await this.queueStore.listSessions();
+        }
+        for (const record of records) {
+            this.startSession(record.id, record.name);
+        }
+    }
+
+    private startSession(id: string, name: string): Session {
+        const session: Session = {
+            id,
+            name,
+            client: createClient(id),
+            isReady: false,
+            qrCode: null,
+            isProcessing: false,
+            queueLength: 0,
+            nextSendAt: new Map(),
+            wakeQueue: null,
+            earlyAcks: new Map()
+        };
+        this.sessions.set(id, session);
+        const { client } = session;
 
-        this.client.on('qr', async (qr) => {
-            console.log('QR Code received, generating data URL...');
+        client.on('qr', async (qr) => {
+            console.log(`[${id}] QR Code received, generating data URL...`);
             try {
-                this.qrCode = await QRCode.toDataURL(qr);
-                console.log('QR Code generated successfully');
+                session.qrCode = await QRCode.toDataURL(qr);
+                console.log(`[${id}] QR Code generated successfully`);
             } catch (error) {
-                console.error('Error generating QR code:', error);
+                console.error(`[${id}] Error generating QR code:`, error);
             }
         });
 
-        this.client.on('ready', () => {
-            console.log('WhatsApp client is ready!');
-            this.isReady = true;
-            this.qrCode = null;
-            this.processMessageQueue();
+        client.on('ready', () => {
+            console.log(`[${id}] WhatsApp client is ready!`);
+            session.isReady = true;
+            session.qrCode = null;
+            this.processMessageQueue(session);
+            this.runVerifications();
+        });
+
+        client.on('message_ack', (msg, ack) => {
+            if (!msg.fromMe || ack < 1) return;
+            this.recordAck(session, msg.id._serialized, ack).catch(error => {
+                console.error(`[${id}] Error recording message ack:`, error);
+            });
         });
 
-        this.client.on('authenticated', () => {
-            console.log('WhatsApp client authenticated');
+        client.on('message', (msg) => {
+            this.saveInbound(session, msg).catch(error => {
+                console.error(`[${id}] Error saving incoming message:`, error);
+            });
         });
 
-        this.client.on('auth_failure', (msg) => {
-            console.error('Authentication failed:', msg);
-            this.isReady = false;
+        client.on('authenticated', () => {
+            console.log(`[${id}] WhatsApp client authenticated`);
         });
 
-        this.client.on('disconnected', (reason) => {
-            console.log('WhatsApp client disconnected:', reason);
-            this.isReady = false;
+        client.on('auth_failure', (msg) => {
+            console.error(`[${id}] Authentication failed:`, msg);
+            session.isReady = false;
         });
 
-        console.log('Initializing WhatsApp client...');
-        this.client.initialize().catch(error => {
-            console.error('Failed to initialize WhatsApp client:', error);
+        client.on('disconnected', (reason) => {
+            console.log(`[${id}] WhatsApp client disconnected:`, reason);
+            session.isReady = false;
         });
+
+        console.log(`[${id}] Initializing WhatsApp client...`);
+        client.initialize().catch(error => {
+            console.error(`[${id}] Failed to initialize WhatsApp client:`, error);
+        });
+        return session;
     }
 
+    // Ready as soon as any session is; the QR code and per-account state are listed under `sessions`
     public getStatus() {
+        const sessions = [...this.sessions.values()];
         return {
-            isReady: this.isReady,
-            hasQRCode: !!this.qrCode,
-            queueLength: this.messageQueue.length
+            isReady: sessions.some(session => session.isReady),
+            hasQRCode: sessions.some(session => !!session.qrCode),
+            queueLength: this.queueLength,
+            sessions: sessions.map(session => this.sessionStatus(session))
         };
     }
 
-    public getQRCode(): string | null {
-        return this.qrCode;
+    public getSession(sessionId: string): SessionStatus | null {
+        const session = this.sessions.get(sessionId);
+        return session ? this.sessionStatus(session) : null;
+    }
+
+    public getQRCode(sessionId: string = DEFAULT_SESSION_ID): string | null {
+        return this.sessions.get(sessionId)?.qrCode || null;
+    }
+
+    private sessionStatus(session: Session): SessionStatus {
+        return {
+            id: session.id,
+            name: session.name,
+            isReady: session.isReady,
+            hasQRCode: !!session.qrCode,
+            queueLength: session.queueLength
+        };
     }
 
-    public async sendMessage(contact: Contact, message: string): Promise<MessageStatus> {
+    // Adds a WhatsApp account; it shows a QR code to scan until its phone links it
+    public async createSession(sessionId: string, name: string): Promise<SessionStatus> {
+        await this.queueReady;
+        if (this.sessions.has(sessionId)) {
+            throw new SessionError(`Session ${sessionId} already exists`, 409);
+        }
+
+        await this.queueStore.createSession(sessionId, name);
+        const session = this.startSession(sessionId, name);
+        await this.refreshQueueLength();
+        return this.sessionStatus(session);
+    }
+
+    // Logs the account out and forgets it. Messages only it could send fail; the rest go to the remaining sessions.
+    public async removeSession(sessionId: string): Promise<boolean> {
+        await this.queueReady;
+        const session = this.sessions.get(sessionId);
+        if (!session) return false;
+        if (this.sessions.size === 1) {
+            throw new SessionError('The last WhatsApp session cannot be removed', 409);
+        }
+
+        this.sessions.delete(sessionId);
+        session.isReady = false;
+        session.wakeQueue?.();
+        // Logging out also deletes the stored login, so the account is not restored on restart
+        await session.client.logout().catch(error => {
+            console.warn(`[${sessionId}] Logout failed:`, error);
+        });
+        await session.client.destroy().catch(() => undefined);
+        await this.queueStore.deleteSession(sessionId);
+
+        const orphaned = await this.queueStore.failOrphanedItems('WhatsApp session was removed');
+        for (const id of orphaned) {
+            const waiter = this.waiters.get(id);
+            this.waiters.delete(id);
+            waiter?.reject({ phone: '', status: 'failed', error: 'WhatsApp session was removed', timestamp: new Date() });
+        }
+        await this.refreshQueueLength();
+        return true;
+    }
+
+    private requireSessions(sessionIds: string[]) {
+        const unknown = sessionIds.find(id => !this.sessions.has(id));
+        if (unknown !== undefined) {
+            throw new SessionError(`Unknown WhatsApp session ${unknown}`, 400);
+        }
+    }
+
+    public async storeMedia(tempPath: string, filename: string, mimetype: string, size: number): Promise<StoredMedia> {
+        return this.mediaStore.save(tempPath, filename, mimetype, size);
+    }
+
+    public async getMedia(mediaId: string): Promise<StoredMedia | null> {
+        return this.mediaStore.get(mediaId);
+    }
+
+    private async requireMedia(mediaId: string | undefined): Promise<void> {
+        if (mediaId && !(await this.mediaStore.get(mediaId))) {
+            throw new MediaValidationError(`Unknown media id ${mediaId}`);
+        }
+    }
+
+    private async loadMedia(mediaId: string): Promise<{ media: MessageMedia, info: StoredMedia }> {
+        const info = await this.mediaStore.get(mediaId);
+        if (!info) {
+            throw new PermanentSendError(`Attachment ${mediaId} no longer exists`);
+        }
+
+        let media = this.mediaCache.get(mediaId);
+        if (!media) {
+            media = MessageMedia.fromFilePath(this.mediaStore.filePath(mediaId));
+            media.mimetype = info.mimetype;
+            media.filename = info.filename;
+            this.mediaCache.set(mediaId, media);
+        }
+        return { media, info };
+    }
+
+    // Sends from the given session, or from whichever session is free first
+    public async sendMessage(contact: Contact, message: string, mediaId?: string, sessionId?: string): Promise<MessageStatus> {
+        await this.queueReady;
+        await this.requireMedia(mediaId);
+        if (sessionId) this.requireSessions([sessionId]);
+        const id = await this.queueStore.enqueue({ phone: contact.phone, name: contact.name, message, mediaId, sessionId });
+        this.queueLength++;
+
         return new Promise((resolve, reject) => {
-            this.messageQueue.push({ contact, message, resolve, reject });
-            
-            if (!this.isProcessing) {
-                this.processMessageQueue();
+            this.waiters.set(id, { resolve, reject });
+            this.kickQueue();
+        });
+    }
+
+    private kickQueue() {
+        for (const session of this.sessions.values()) {
+            if (session.isProcessing) {
+                session.wakeQueue?.();
+            } else {
+                this.processMessageQueue(session);
             }
+        }
+    }
+
+    // Acks for messages sent from the phone itself match no queue item and are ignored
+    private async recordAck(session: Session, waMessageId: string, ack: number) {
+        await this.queueReady;
+        const matched = await this.queueStore.recordAck(waMessageId, ack);
+        if (!matched && session.isProcessing) {
+            session.earlyAcks.set(waMessageId, Math.max(ack, session.earlyAcks.get(waMessageId) || 0));
+        }
+    }
+
+    // Only direct messages from contacts are kept; group chats and status updates are not replies
+    private async saveInbound(session: Session, msg: Message) {
+        if (msg.fromMe || msg.isStatus || !msg.from.endsWith('@c.us')) return;
+
+        const quoted = msg.hasQuotedMsg ? await msg.getQuotedMessage().catch(() => null) : null;
+        const contact = await msg.getContact().catch(() => null);
+        await this.queueReady;
+        await this.queueStore.saveInbound({
+            wa_message_id: msg.id._serialized,
+            phone: msg.from.replace(/@c\.us$/, ''),
+            name: contact?.pushname || null,
+            body: msg.body || '',
+            type: msg.type,
+            quoted_wa_message_id: quoted?.id._serialized || null,
+            session_id: session.id,
+            received_at: new Date(msg.timestamp * 1000).toISOString()
         });
     }
 
-    private async processMessageQueue() {
-        if (this.isProcessing || !this.isReady || this.messageQueue.length === 0) {
+    private async refreshQueueLength() {
+        this.queueLength = await this.queueStore.countPending();
+        for (const session of this.sessions.values()) {
+            session.queueLength = await this.queueStore.countPending(session.id);
+        }
+    }
+
+    // Each ready session runs this loop over the items it may send. It picks whichever job may
+    // send soonest under its throttle settings, and sleeps when none may send yet. Delays apply per
+    // session, so a job spread over several sessions sends faster, but its caps hold across all of them.
+    private async processMessageQueue(session: Session) {
+        if (session.isProcessing || !session.isReady) {
             return;
         }
 
-        this.isProcessing = true;
+        session.isProcessing = true;
 
-        while (this.messageQueue.length > 0 && this.isReady) {
-            const { contact, message, resolve, reject } = this.messageQueue.shift()!;
-            
-            try {
-                const result = await this.sendSingleMessage(contact, message);
-                resolve(result);
-                
-                // Rate limiting - wait 2-5 seconds between messages
-                await this.delay(2000 + Math.random() * 3000);
-                
-            } catch (error) {
-                const failedStatus: MessageStatus = {
-                    phone: contact.phone,
-                    status: 'failed',
-                    error: error instanceof Error ? error.message : 'Unknown error',
-                    timestamp: new Date()
-                };
-                reject(failedStatus);
+        try {
+            await this.queueReady;
+
+            while (session.isReady) {
+                const jobs = await this.queueStore.pendingJobs(session.id);
+                if (jobs.length === 0) break;
+
+                let next: { jobId: string | null, throttle: ThrottleSettings, at: number } | null = null;
+                for (const job of jobs) {
+                    const throttle = this.jobThrottle(job.job_id, job.throttle);
+                    // ready_at is '' when an item can go now, otherwise the earliest retry time
+                    const readyAt = job.ready_at ? Date.parse(job.ready_at) : 0;
+                    const at = Math.max(await this.nextSendTime(session, job.job_id, throttle), readyAt);
+                    if (!next || at < next.at) {
+                        next = { jobId: job.job_id, throttle, at };
+                    }
+                }
+
+                if (next!.at > Date.now()) {
+                    await this.sleepUntil(session, next!.at);
+                    continue;
+                }
+
+                // The job can report pending items none of which this session may take right now, e.g.
+                // when another session got to it first or a pause landed; back off rather than spin
+                const item = await this.queueStore.nextPending(next!.jobId, session.id);
+                if (!item || !(await this.queueStore.claim(item.id, session.id))) {
+                    await this.sleepUntil(session, Date.now() + QUEUE_MISS_BACKOFF_MS);
+                    continue;
+                }
+
+                const contact: Contact = { phone: item.phone, name: item.name || undefined };
+                const waiter = this.waiters.get(item.id);
+                this.waiters.delete(item.id);
+
+                try {
+                    const result = await this.sendSingleMessage(session, contact, item.message, item.media_id || undefined);
+                    await this.queueStore.markSent(item.id, result.messageId || null);
+                    const earlyAck = result.messageId && session.earlyAcks.get(result.messageId);
+                    if (earlyAck) {
+                        await this.queueStore.recordAck(result.messageId!, earlyAck);
+                    }
+                    session.earlyAcks.clear();
+                    waiter?.resolve(result);
+                    session.nextSendAt.set(next!.jobId || '', Date.now() + randomDelay(next!.throttle));
+                } catch (error) {
+                    const reason = error instanceof Error ? error.message : 'Unknown error';
+                    const attempts = item.attempts + 1;
+                    const retryAt = nextRetryAt(error, attempts);
+
+                    if (retryAt !== null) {
+                        console.warn(`Attempt ${attempts} to ${contact.phone} failed, retrying at ${new Date(retryAt).toISOString()}: ${reason}`);
+                        await this.queueStore.markRetry(item.id, reason, new Date(retryAt));
+                        if (waiter) this.waiters.set(item.id, waiter);
+                    } else {
+                        const failedStatus: MessageStatus = {
+                            phone: contact.phone,
+                            status: 'failed',
+                            senderId: session.id,
+                            error: reason,
+                            timestamp: new Date()
+                        };
+                        await this.queueStore.markFailed(item.id, reason);
+                        waiter?.reject(failedStatus);
+                    }
+                }
+
+                await this.refreshQueueLength();
             }
+        } catch (error) {
+            console.error(`[${session.id}] Message queue processing error:`, error);
+        } finally {
+            session.isProcessing = false;
+            session.wakeQueue = null;
+        }
+    }
+
+    private jobThrottle(jobId: string | null, stored: string | null): ThrottleSettings {
+        if (!stored) return DEFAULT_THROTTLE;
+        try {
+            return parseThrottle(JSON.parse(stored));
+        } catch (error) {
+            console.error(`Ignoring invalid throttle settings on job ${jobId}:`, error);
+            return DEFAULT_THROTTLE;
+        }
+    }
+
+    // Applies the session's delay for the job, then the job's hourly/daily caps (counting every session's
+    // sends), then its allowed hours
+    private async nextSendTime(session: Session, jobId: string | null, throttle: ThrottleSettings): Promise<number> {
+        const now = Date.now();
+        let at = Math.max(now, session.nextSendAt.get(jobId || '') || 0);
+
+        if (throttle.hourlyLimit || throttle.dailyLimit) {
+            const recentSends = await this.queueStore.recentSends(jobId, new Date(now - DAY_MS));
+            at = capsReleaseAt(throttle, recentSends, at);
         }
 
-        this.isProcessing = false;
+        return windowOpensAt(throttle, at);
+    }
+
+    private sleepUntil(session: Session, time: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => wake(), Math.min(Math.max(time - Date.now(), 0), MAX_QUEUE_SLEEP_MS));
+            const wake = () => {
+                clearTimeout(timer);
+                session.wakeQueue = null;
+                resolve();
+            };
+            session.wakeQueue = wake;
+        });
     }
 
-    private async sendSingleMessage(contact: Contact, message: string): Promise<MessageStatus> {
-        if (!this.client || !this.isReady) {
+    private async sendSingleMessage(session: Session, contact: Contact, message: string, mediaId?: string): Promise<MessageStatus> {
+        const { client } = session;
+        if (!session.isReady) {
             throw new Error('WhatsApp client not ready');
         }
 
@@ -147,50 +551,337 @@ class WhatsAppService {
         const chatId = `${phoneNumber}@c.us`;
 
         try {
-            const isRegistered = await this.client.isRegisteredUser(chatId);
+            // Checked at send time so an opt-out that arrives mid-campaign stops the remaining messages
+            if (await this.queueStore.isSuppressed(phoneNumber)) {
+                throw new PermanentSendError('Recipient has opted out');
+            }
+
+            const isRegistered = await client.isRegisteredUser(chatId);
             if (!isRegistered) {
-                throw new Error('Phone number not registered on WhatsApp');
+                throw new PermanentSendError('Phone number not registered on WhatsApp');
             }
 
-            await this.client.sendMessage(chatId, message);
+            let sent: Message;
+            if (mediaId) {
+                // The message text becomes the caption; voice notes cannot carry one
+                const { media, info } = await this.loadMedia(mediaId);
+                const voice = isVoiceNote(info.mimetype);
+                sent = await client.sendMessage(chatId, media, {
+                    caption: voice ? undefined : message || undefined,
+                    sendAudioAsVoice: voice,
+                    sendMediaAsDocument: info.mimetype === 'application/pdf'
+                });
+                if (voice && message) {
+                    await client.sendMessage(chatId, message);
+                }
+            } else {
+                sent = await client.sendMessage(chatId, message);
+            }
 
             return {
                 phone: contact.phone,
                 status: 'sent',
+                messageId: sent.id._serialized,
+                senderId: session.id,
                 timestamp: new Date()
             };
         } catch (error) {
-            throw new Error(`Failed to send to ${contact.phone}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            const message = `Failed to send to ${contact.phone}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            throw error instanceof PermanentSendError ? new PermanentSendError(message) : new Error(message);
         }
     }
 
+    // E.164 numbers (with a leading +) are dialed as they are; a bare 10-digit number is taken as North American
     private formatPhoneNumber(phone: string): string {
         const cleaned = phone.replace(/\D/g, '');
         
-        if (cleaned.length === 10) {
+        if (cleaned.length === 10 && !phone.trim().startsWith('+')) {
             return '1' + cleaned;
         }
         
         return cleaned;
     }
 
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+    // Queues a registration check of the numbers and returns immediately; results are read back via
+    // getVerificationResults as the checks complete
+    public async createVerification(phones: string[]): Promise<Verification> {
+        await this.queueReady;
+        const id = await this.queueStore.createVerification(phones);
+        this.runVerifications();
+        return (await this.getVerification(id))!;
     }
 
-    public async sendBulkMessages(contacts: Contact[], message: string): Promise<MessageStatus[]> {
-        const results: MessageStatus[] = [];
-        
-        for (const contact of contacts) {
-            try {
-                const result = await this.sendMessage(contact, message);
-                results.push(result);
-            } catch (error) {
-                results.push(error as MessageStatus);
+    public async getVerification(id: string): Promise<Verification | null> {
+        await this.queueReady;
+        const record = await this.queueStore.getVerification(id);
+        return record ? this.toVerification(record) : null;
+    }
+
+    public async getVerificationResults(id: string, afterId: number, limit: number): Promise<VerificationResult[] | null> {
+        await this.queueReady;
+        if (!(await this.queueStore.getVerification(id))) return null;
+
+        const items = await this.queueStore.listVerificationResults(id, afterId, limit);
+        return items.map(item => this.toVerificationResult(item));
+    }
+
+    // Works through unchecked numbers of every verification, oldest first, one batch per ready session
+    // in turn. Stops when none is ready; the next session to become ready picks the work up again.
+    private async runVerifications() {
+        if (this.isVerifying) return;
+        this.isVerifying = true;
+
+        try {
+            await this.queueReady;
+
+            for (let turn = 0; ; turn++) {
+                const ready = [...this.sessions.values()].filter(session => session.isReady);
+                if (ready.length === 0) break;
+                const batch = await this.queueStore.nextVerificationBatch(VERIFY_BATCH_SIZE);
+                if (batch.length === 0) break;
+
+                const session = ready[turn % ready.length];
+                for (const item of batch) {
+                    if (!session.isReady) break;
+                    try {
+                        const registered = await session.client.isRegisteredUser(`${this.formatPhoneNumber(item.phone)}@c.us`);
+                        await this.queueStore.recordVerification(item.id, registered);
+                    } catch (error) {
+                        // A session that dropped mid-lookup leaves the number for the next one
+                        if (!session.isReady) break;
+                        await this.queueStore.recordVerification(item.id, null, error instanceof Error ? error.message : 'Unknown error');
+                    }
+                    await delay(VERIFY_CHECK_DELAY_MS);
+                }
+                await delay(VERIFY_BATCH_PAUSE_MS);
             }
+        } catch (error) {
+            console.error('Number verification error:', error);
+        } finally {
+            this.isVerifying = false;
         }
-        
-        return results;
+    }
+
+    // Replaces the list of numbers that must not be messaged (kept by the backend, which pushes every change)
+    public async replaceSuppressions(phones: string[]): Promise<number> {
+        await this.queueReady;
+        const formatted = [...new Set(phones.map(phone => this.formatPhoneNumber(phone)).filter(Boolean))];
+        await this.queueStore.replaceSuppressions(formatted);
+        return formatted.length;
+    }
+
+    // Queues every contact under a new job and returns immediately; progress is read back via getJob.
+    // The message is rendered as a template per contact before it is queued, unless the contact
+    // carries its own text. The job is paced by its throttle settings (validated by the caller);
+    // `senders` limits it to those sessions, which then share its messages as each is free.
+    // The caller may pick the job's id, to have recorded it before the job exists.
+    public async createBulkJob(
+        contacts: Contact[],
+        message: string,
+        mediaId?: string,
+        throttle: ThrottleSettings = DEFAULT_THROTTLE,
+        senders: string[] | null = null,
+        id?: string
+    ): Promise<BulkJob> {
+        await this.queueReady;
+        await this.requireMedia(mediaId);
+        if (senders) this.requireSessions(senders);
+        if (id && await this.queueStore.getJob(id)) {
+            throw new JobStateError(`Job ${id} already exists`);
+        }
+        const jobId = await this.queueStore.createJob(message, throttle, senders, contacts.map(contact => ({
+            phone: contact.phone,
+            name: contact.name,
+            message: contact.message ?? renderTemplate(message, contactVariables(contact)),
+            mediaId
+        })), id);
+        await this.refreshQueueLength();
+        this.kickQueue();
+
+        return (await this.getJob(jobId))!;
+    }
+
+    // Projected completion of a job of `total` messages spread over the ready sessions among `senders`
+    // (every session when null), as if one were ready when none is
+    public estimateCompletion(throttle: ThrottleSettings, total: number, start: number, senders: string[] | null = null): CompletionEstimate {
+        const pool = [...this.sessions.values()].filter(session => session.isReady && (!senders || senders.includes(session.id)));
+        return estimateCompletion(throttle, total, start, pool.length);
+    }
+
+    public async getJob(jobId: string): Promise<BulkJob | null> {
+        await this.queueReady;
+        const job = await this.queueStore.getJob(jobId);
+        if (!job) return null;
+
+        return {
+            id: job.id,
+            status: this.jobStatus(job),
+            total: job.total,
+            pending: job.pending,
+            sent: job.sent,
+            failed: job.failed,
+            cancelled: job.cancelled,
+            throttle: this.jobThrottle(job.id, job.throttle),
+            senders: job.senders ? JSON.parse(job.senders) : null,
+            createdAt: job.created_at,
+            completedAt: job.completed_at
+        };
+    }
+
+    // A cancelled job reports 'running' until a message that was mid-send has finished
+    private jobStatus(job: JobRecord): BulkJob['status'] {
+        if (job.pending === 0) {
+            return job.state === 'cancelled' ? 'cancelled' : 'completed';
+        }
+        if (job.state === 'paused') return 'paused';
+        return job.sent + job.failed === 0 && job.pending === job.total ? 'queued' : 'running';
+    }
+
+    // Requeues a finished job's failed messages with a fresh set of attempts
+    public async retryFailed(jobId: string): Promise<BulkJob | null> {
+        const job = await this.getJob(jobId);
+        if (!job) return null;
+        if (job.status !== 'completed') {
+            throw new JobStateError(`Job is ${job.status}; only completed jobs can retry failed messages`);
+        }
+        if (job.failed === 0) {
+            throw new JobStateError('Job has no failed messages');
+        }
+
+        const requeued = await this.queueStore.requeueFailed(jobId);
+        console.log(`Retrying ${requeued} failed message(s) of job ${jobId}`);
+        await this.refreshQueueLength();
+        this.kickQueue();
+        return this.getJob(jobId);
+    }
+
+    // Stops the queue from taking further messages from the job; a message already being sent completes
+    public async pauseJob(jobId: string): Promise<BulkJob | null> {
+        const job = await this.getJob(jobId);
+        if (!job) return null;
+        if (job.status !== 'queued' && job.status !== 'running') {
+            throw new JobStateError(`Job is ${job.status} and cannot be paused`);
+        }
+
+        await this.queueStore.setJobState(jobId, 'paused');
+        await this.refreshQueueLength();
+        return this.getJob(jobId);
+    }
+
+    public async resumeJob(jobId: string): Promise<BulkJob | null> {
+        const job = await this.getJob(jobId);
+        if (!job) return null;
+        if (job.status !== 'paused') {
+            throw new JobStateError(`Job is ${job.status}, not paused`);
+        }
+
+        await this.queueStore.setJobState(jobId, 'active');
+        await this.refreshQueueLength();
+        this.kickQueue();
+        return this.getJob(jobId);
+    }
+
+    // Drops every message of the job that has not been sent yet
+    public async cancelJob(jobId: string): Promise<BulkJob | null> {
+        const job = await this.getJob(jobId);
+        if (!job) return null;
+        if (job.status === 'completed' || job.status === 'cancelled') {
+            throw new JobStateError(`Job is already ${job.status}`);
+        }
+
+        await this.queueStore.setJobState(jobId, 'cancelled');
+        const dropped = await this.queueStore.cancelPendingItems(jobId);
+        console.log(`Cancelled job ${jobId}; ${dropped} message(s) will not be sent`);
+        await this.refreshQueueLength();
+        for (const session of this.sessions.values()) {
+            session.wakeQueue?.();
+        }
+        return this.getJob(jobId);
+    }
+
+    public async getJobResults(jobId: string): Promise<MessageStatus[] | null> {
+        await this.queueReady;
+        if (!(await this.queueStore.getJob(jobId))) return null;
+
+        const items = await this.queueStore.listJobItems(jobId);
+        return items.map(item => this.toMessageStatus(item));
+    }
+
+    // Delivery and read receipts of sent messages, across all jobs and one-off sends
+    public async getReceipts(afterSeq: number, limit: number): Promise<Receipt[]> {
+        await this.queueReady;
+        const records = await this.queueStore.listReceipts(afterSeq, limit);
+        return records.map(record => this.toReceipt(record));
+    }
+
+    // Messages received from contacts, in arrival order
+    public async getInbound(afterId: number, limit: number): Promise<InboundMessage[]> {
+        await this.queueReady;
+        const records = await this.queueStore.listInbound(afterId, limit);
+        return records.map(record => this.toInbound(record));
+    }
+
+    private toVerification(record: VerificationRecord): Verification {
+        return {
+            id: record.id,
+            status: record.pending === 0 ? 'completed' : 'running',
+            total: record.total,
+            pending: record.pending,
+            registered: record.registered,
+            unregistered: record.unregistered,
+            failed: record.failed,
+            createdAt: record.created_at,
+            completedAt: record.completed_at
+        };
+    }
+
+    private toVerificationResult(item: VerificationItem): VerificationResult {
+        return {
+            id: item.id,
+            phone: item.phone,
+            registered: item.registered === null ? null : item.registered === 1,
+            error: item.error || undefined,
+            checkedAt: item.checked_at!
+        };
+    }
+
+    private toInbound(record: InboundRecord): InboundMessage {
+        return {
+            id: record.id,
+            messageId: record.wa_message_id,
+            phone: record.phone,
+            name: record.name,
+            body: record.body,
+            type: record.type,
+            quotedMessageId: record.quoted_wa_message_id,
+            sessionId: record.session_id,
+            receivedAt: record.received_at
+        };
+    }
+
+    private toReceipt(record: ReceiptRecord): Receipt {
+        return {
+            seq: record.ack_seq,
+            messageId: record.wa_message_id,
+            jobId: record.job_id,
+            phone: record.phone,
+            status: deliveryStatus(record.ack) as Receipt['status'],
+            timestamp: record.ack_at
+        };
+    }
+
+    private toMessageStatus(item: QueueItem): MessageStatus {
+        const status = item.state === 'sent' ? deliveryStatus(item.ack)
+            : item.state === 'failed' || item.state === 'cancelled' ? item.state : 'pending';
+        return {
+            phone: item.phone,
+            status,
+            messageId: item.wa_message_id || undefined,
+            senderId: item.sender_id || undefined,
+            error: item.error || undefined,
+            // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+            timestamp: new Date(item.updated_at.replace(' ', 'T') + 'Z')
+        };
     }
 }
 